@@ -1,4 +1,10 @@
+import { join } from "@std/path";
 import type { Actor, ActorMessage, ActorResponse } from "../types.ts";
+import { TodoFile, type TodoItem } from "../utils/todo-list.ts";
+
+export interface AutoResponderOptions {
+  todoPath?: string;
+}
 
 // Auto-responder Actor (Never Sleep feature, etc.)
 export class AutoResponderActor implements Actor {
@@ -6,12 +12,14 @@ export class AutoResponderActor implements Actor {
   private startTime: Date;
   private maxExecutionTime: number;
   private idleTimeout: number;
+  private todo: TodoFile;
 
-  constructor(name = "auto-responder") {
+  constructor(name = "auto-responder", options: AutoResponderOptions = {}) {
     this.name = name;
     this.startTime = new Date();
     this.maxExecutionTime = 6 * 60 * 60 * 1000; // 6 hours
     this.idleTimeout = 5 * 60 * 1000; // 5 minutes
+    this.todo = new TodoFile(options.todoPath ?? join(Deno.cwd(), "TODO.md"));
   }
 
   async start(): Promise<void> {
@@ -57,6 +65,15 @@ export class AutoResponderActor implements Actor {
       case "task-status-update":
         return this.handleTaskStatusUpdate(message);
 
+      case "task-completed":
+        return this.handleTaskCompleted(message);
+
+      case "list-tasks":
+        return this.handleListTasks(message);
+
+      case "reorder-tasks":
+        return this.handleReorderTasks(message);
+
       case "chat":
         return this.handleChat(message);
 
@@ -70,8 +87,10 @@ export class AutoResponderActor implements Actor {
     }
   }
 
-  private handleCheckTasks(message: ActorMessage): ActorResponse {
-    const tasks = (message.payload as { tasks?: string[] })?.tasks || [];
+  private async handleCheckTasks(message: ActorMessage): Promise<ActorResponse> {
+    // Explicit task list wins; otherwise schedule the unchecked items of TODO.md
+    const tasks = (message.payload as { tasks?: string[] })?.tasks ??
+      ((await this.todo.pending()) ?? []).map((item) => item.text);
     
     // Schedule tasks
     const scheduledTasks = tasks.map((task, index) => ({
@@ -144,12 +163,28 @@ export class AutoResponderActor implements Actor {
     );
   }
 
-  private handleTaskSuggestion(message: ActorMessage): ActorResponse {
+  private async handleTaskSuggestion(message: ActorMessage): Promise<ActorResponse> {
     const payload = message.payload as {
       currentTasks?: string[];
       context?: string;
     };
 
+    // Prefer the next unchecked item of TODO.md
+    const pending = await this.todo.pending();
+    if (pending && pending.length > 0) {
+      return this.createResponse(
+        message.from,
+        "task-suggestion",
+        {
+          suggestions: pending.map((item) => item.text),
+          nextTask: this.toTaskInfo(pending[0], 0),
+          remaining: pending.length,
+          todoFound: true,
+        },
+        message.id
+      );
+    }
+
     const context = payload.context || "";
     const suggestions: string[] = [];
 
@@ -172,11 +207,71 @@ export class AutoResponderActor implements Actor {
     return this.createResponse(
       message.from,
       "task-suggestion",
-      { suggestions },
+      { suggestions, remaining: 0, todoFound: pending !== null },
       message.id
     );
   }
 
+  private async handleTaskCompleted(message: ActorMessage): Promise<ActorResponse> {
+    const payload = message.payload as { task?: string; index?: number };
+
+    let text = payload.task;
+    if (!text && payload.index) {
+      const pending = (await this.todo.pending()) ?? [];
+      text = pending[payload.index - 1]?.text;
+    }
+    if (!text) {
+      return this.createResponse(
+        message.from,
+        "error",
+        { error: "No task specified" },
+        message.id
+      );
+    }
+
+    const updated = await this.todo.complete(text);
+    const remaining = ((await this.todo.pending()) ?? []).length;
+    return this.createResponse(
+      message.from,
+      "task-marked-done",
+      { task: text, updated, remaining },
+      message.id
+    );
+  }
+
+  private async handleListTasks(message: ActorMessage): Promise<ActorResponse> {
+    const pending = await this.todo.pending();
+    return this.createResponse(
+      message.from,
+      "task-list",
+      {
+        path: this.todo.getPath(),
+        found: pending !== null,
+        tasks: (pending ?? []).map((item, index) => this.toTaskInfo(item, index)),
+      },
+      message.id
+    );
+  }
+
+  private async handleReorderTasks(message: ActorMessage): Promise<ActorResponse> {
+    const { from, to } = message.payload as { from?: number; to?: number };
+    const moved = typeof from === "number" && typeof to === "number" &&
+      await this.todo.move(from, to);
+    if (!moved) {
+      return this.createResponse(
+        message.from,
+        "error",
+        { error: `Cannot move task ${from} to ${to}` },
+        message.id
+      );
+    }
+    return this.handleListTasks(message);
+  }
+
+  private toTaskInfo(item: TodoItem, index: number) {
+    return { index: index + 1, text: item.text, section: item.section };
+  }
+
   private handleTaskStatusUpdate(message: ActorMessage): ActorResponse {
     // Confirm task status update
     return this.createResponse(
@@ -5,8 +5,31 @@ import type {
   ImportedAttachment,
   MessageBus,
 } from "../types.ts";
-import { ClaudeCodeAdapter } from "../adapter/claude-code-adapter.ts";
+import {
+  type ClaudeClient,
+  ClaudeCodeAdapter,
+  isQueryAbortedError,
+} from "../adapter/claude-code-adapter.ts";
 import type { Config } from "../config.ts";
+import { t } from "../i18n.ts";
+import { PermissionBridge } from "../utils/permission-bridge.ts";
+import { buildAttachmentPrompt } from "../utils/attachment-prompt.ts";
+import { SessionPersistence } from "../utils/resilient-connection.ts";
+import { describeRequest, editQueue, listQueue, type QueueAction } from "../utils/request-queue.ts";
+import { summarizeToolInput } from "../utils/tool-formatters.ts";
+import { FileChangeTracker } from "../utils/file-diff.ts";
+import { type BudgetLimits, exceededBudget, UsageLedger } from "../utils/usage-budget.ts";
+import { CooldownScheduler, cooldownUntil } from "../utils/cooldown-scheduler.ts";
+
+// Per-thread state: each channel has its own Claude session and queue
+type ChannelSession = {
+  // undefined = the primary adapter (this.adapter), which resumes config.sessionId
+  adapter?: ClaudeCodeAdapter;
+  queue: ActorMessage[];
+  running: boolean;
+  // Date.now() when the thread last sent a request or one finished
+  lastActiveAt: number;
+};
 
 type StoredRequest = {
   request: ActorMessage;
@@ -15,43 +38,106 @@ type StoredRequest = {
 
 type ClaudeErrorKind =
   | "USAGE_LIMIT"
+  | "RATE_LIMIT"
   | "IMAGE_TOO_LARGE"
   | "NETWORK"
   | "CLI_NOT_FOUND"
   | "UNKNOWN";
 
-const ATTACHMENT_PREVIEW_CHAR_LIMIT = 4000;
+// A prompt that keeps crashing the bot is given up after this many restarts
+const MAX_JOB_REPLAYS = 3;
+// Threads idle this long are dropped; writing there again starts a new session
+const SESSION_IDLE_MS = 24 * 60 * 60_000;
 
 // Actor that communicates with ClaudeCode API
 export class ClaudeCodeActor implements Actor {
   name: string;
   private adapter: ClaudeCodeAdapter;
+  private config: Config;
+  private client?: ClaudeClient;
   private bus?: MessageBus;
-  private queue: ActorMessage[] = [];
-  private running = false;
+  private permissionBridge?: PermissionBridge;
+  private primary: ChannelSession = { queue: [], running: false, lastActiveAt: Date.now() };
+  // The first thread that talks to the actor owns the primary session
+  private primaryChannelId?: string;
+  private sessions = new Map<string, ChannelSession>();
   private lastRequestByChannel = new Map<string, StoredRequest>();
-  private cooldownTimerByChannel = new Map<string, ReturnType<typeof setTimeout>>();
-  private autoRetryEnabled =
-    (Deno.env.get("CCDISCORD_AUTORETRY_ON_COOLDOWN") ?? "false").toLowerCase() ===
-      "true";
+  // Usage-limit cooldown (account-wide): requests are parked until it resets
+  private cooldown: CooldownScheduler;
+  // Queued and running prompts on disk (config.queueFile), replayed after a crash
+  private persistence?: SessionPersistence;
+  private persistedJobs = new Set<string>();
+  private replayed = false;
+  // Today's spend per user and thread, checked against config.budget*DailyUsd
+  private usage: UsageLedger;
 
-  constructor(config: Config, name = "claude-code") {
+  constructor(config: Config, name = "claude-code", client?: ClaudeClient) {
     this.name = name;
-    this.adapter = new ClaudeCodeAdapter(config);
+    this.config = config;
+    this.client = client;
+    this.adapter = new ClaudeCodeAdapter(config, client);
+    if (config.queueFile) {
+      this.persistence = new SessionPersistence(name, config.queueFile);
+    }
+    this.usage = new UsageLedger(config.usageFile);
+    this.cooldown = new CooldownScheduler(
+      config.cooldownFile,
+      (parked) => this.resumeParked(parked),
+    );
   }
 
   // MessageBus を後付け注入（後方互換維持のため）
   setMessageBus(bus: MessageBus): void {
     this.bus = bus;
+
+    // 起動時のスレッドが用意できたら、前回終了時に残っていたリクエストを再開する
+    bus.addListener((message) => {
+      const channelId = (message.payload as { channelId?: string } | undefined)?.channelId;
+      if (message.type !== "thread-ready" || !channelId || this.replayed) return;
+      this.replayed = true;
+      this.resumeAfterRestart(channelId).catch((error) =>
+        console.error(`[${this.name}] Failed to resume requests from the last run`, error)
+      );
+    });
+
+    // ask モードではツール実行の可否を Discord のボタンで確認する
+    if (this.config.claudePermissionMode === "ask") {
+      this.permissionBridge?.stop();
+      this.permissionBridge = new PermissionBridge(bus, {
+        name: this.name,
+        timeoutMs: this.config.permissionTimeoutMs,
+      });
+      this.attachPermissionHandler(this.adapter, () => this.primaryChannelId);
+      for (const [channelId, session] of this.sessions) {
+        if (session.adapter) this.attachPermissionHandler(session.adapter, () => channelId);
+      }
+    }
+  }
+
+  private attachPermissionHandler(
+    adapter: ClaudeCodeAdapter,
+    channelId: () => string | undefined,
+  ): void {
+    if (!this.permissionBridge) return;
+    const bridge = this.permissionBridge;
+    adapter.setPermissionHandler((toolName, input, { signal }) =>
+      bridge.request(toolName, input, { signal, channelId: channelId() })
+    );
   }
 
   async start(): Promise<void> {
     console.log(`[${this.name}] Actor started`);
+    this.permissionBridge?.start();
     await this.adapter.start();
   }
 
   async stop(): Promise<void> {
+    this.permissionBridge?.stop();
+    this.cooldown.stop();
     await this.adapter.stop();
+    for (const session of this.sessions.values()) {
+      await session.adapter?.stop();
+    }
     console.log(`[${this.name}] Actor stopped`);
   }
 
@@ -72,25 +158,344 @@ export class ClaudeCodeActor implements Actor {
   }
 
   async handleMessage(message: ActorMessage): Promise<ActorResponse | null> {
-    this.queue.push(message);
-    await this.drainQueue();
+    // 制御メッセージはキューを経由せず即時処理（実行中のクエリを止めるため）
+    if (message.type === "stop-tasks") {
+      return this.handleStop(message);
+    }
+    if (message.type === "reset-session") {
+      return this.handleReset(message);
+    }
+    if (message.type === "open-session") {
+      return this.handleOpenSession(message);
+    }
+    if (message.type === "set-workdir") {
+      return this.handleSetWorkdir(message);
+    }
+    if (message.type === "set-model") {
+      return this.handleSetModel(message);
+    }
+    if (message.type === "get-session-info") {
+      return this.handleSessionInfo(message);
+    }
+    if (message.type === "manage-queue") {
+      return this.handleManageQueue(message);
+    }
+    if (message.type === "get-usage") {
+      return await this.handleGetUsage(message);
+    }
+
+    const session = this.sessionFor(channelOf(message));
+    session.lastActiveAt = Date.now();
+    if (message.type === "user-message") {
+      await this.persistJob(message);
+      if (session.running) await this.notifyQueued(message, session.queue.length + 1);
+    }
+    session.queue.push(message);
+    await this.drainQueue(session);
     return null;
   }
 
-  private async drainQueue(): Promise<void> {
-    if (this.running) return;
-    this.running = true;
+  private handleStop(message: ActorMessage): ActorResponse {
+    const payload = message.payload as { clearQueue?: boolean } | undefined;
+    const clearQueue = payload?.clearQueue ?? true;
+    const session = this.findSession(channelOf(message));
+    const droppedMessages = session && clearQueue ? session.queue.splice(0) : [];
+    for (const dropped of droppedMessages) {
+      void this.ackJob(dropped);
+    }
+    const dropped = droppedMessages.length;
+    const aborted = session ? this.adapterOf(session).abort() : false;
+    const remaining = session?.queue.length ?? 0;
+
+    console.log(
+      `[${this.name}] Stop requested (aborted=${aborted}, dropped=${dropped}, remaining=${remaining})`,
+    );
+
+    return this.createResponse(
+      message.from,
+      "tasks-stopped",
+      { aborted, dropped, remaining },
+      message.id,
+    );
+  }
+
+  private handleReset(message: ActorMessage): ActorResponse {
+    const adapter = this.adapterOf(this.sessionFor(channelOf(message)));
+    const previousSessionId = adapter.getCurrentSessionId();
+    adapter.resetSession();
+
+    // Claude 側の新しいセッション ID は次のクエリの init で確定する
+    return this.createResponse(
+      message.from,
+      "session-reset",
+      { previousSessionId, sessionId: adapter.getCurrentSessionId() },
+      message.id,
+    );
+  }
+
+  // !new で作成されたスレッドには常に新しいセッションを割り当てる
+  private handleOpenSession(message: ActorMessage): ActorResponse {
+    const channelId = channelOf(message);
+    if (!channelId) {
+      return this.createResponse(
+        message.from,
+        "error",
+        { error: "channelId is required" },
+        message.id,
+      );
+    }
+    if (!this.sessions.has(channelId)) {
+      this.sessions.set(channelId, this.createSession(channelId));
+    }
+    return this.createResponse(
+      message.from,
+      "session-opened",
+      { channelId, sessions: this.sessions.size },
+      message.id,
+    );
+  }
+
+  // Claude Code の会話履歴は cwd ごとに保存されるため、ディレクトリが変わったら新しいセッションにする
+  private handleSetWorkdir(message: ActorMessage): ActorResponse {
+    const { cwd } = message.payload as { cwd?: string };
+    if (!cwd) {
+      return this.createResponse(message.from, "error", { error: "cwd is required" }, message.id);
+    }
+    const adapter = this.adapterOf(this.sessionFor(channelOf(message)));
+    const changed = adapter.getWorkingDirectory() !== cwd;
+    const previousSessionId = changed ? adapter.getCurrentSessionId() : undefined;
+    adapter.setWorkingDirectory(cwd);
+    if (previousSessionId) adapter.resetSession();
+
+    console.log(`[${this.name}] Working directory for ${channelOf(message) ?? "primary"}: ${cwd}`);
+    return this.createResponse(
+      message.from,
+      "workdir-changed",
+      { cwd, changed, previousSessionId },
+      message.id,
+    );
+  }
+
+  // 変更は次のクエリから有効（実行中のクエリはそのまま）
+  private handleSetModel(message: ActorMessage): ActorResponse {
+    const { model } = message.payload as { model?: string };
+    const allowed = this.config.allowedModels ?? [this.config.model];
+    if (!model || !allowed.includes(model)) {
+      return this.createResponse(
+        message.from,
+        "error",
+        { error: `model not allowed: ${model ?? "-"}`, allowed },
+        message.id,
+      );
+    }
+    const adapter = this.adapterOf(this.sessionFor(channelOf(message)));
+    const previousModel = adapter.getModel();
+    adapter.setModel(model);
+    return this.createResponse(
+      message.from,
+      "model-changed",
+      { model, previousModel },
+      message.id,
+    );
+  }
+
+  private handleSessionInfo(message: ActorMessage): ActorResponse {
+    const session = this.findSession(channelOf(message));
+    const adapter = session ? this.adapterOf(session) : undefined;
+    return this.createResponse(
+      message.from,
+      "session-info",
+      {
+        sessionId: adapter?.getCurrentSessionId(),
+        running: session?.running ?? false,
+        queued: session?.queue.length ?? 0,
+        cwd: adapter?.getWorkingDirectory(),
+        model: adapter?.getModel() ?? this.config.model,
+        sessions: this.sessions.size,
+        cooldownUntil: this.cooldown.getUntil()?.toISOString(),
+      },
+      message.id,
+    );
+  }
+
+  // `!queue` / `!cancel <n>` / `!priority <n>` on this thread's waiting requests
+  private handleManageQueue(message: ActorMessage): ActorResponse {
+    const { action = "list", position } = message.payload as {
+      action?: QueueAction;
+      position?: number;
+    };
+    const session = this.findSession(channelOf(message));
+    const queue = session?.queue ?? [];
+    const target = action === "list" ? undefined : editQueue(queue, action, position ?? 0);
+    if (action !== "list" && !target) {
+      return this.createResponse(
+        message.from,
+        "error",
+        { error: `no queued request at position ${position ?? "-"}`, size: queue.length },
+        message.id,
+      );
+    }
+    if (action === "cancel" && target) void this.ackJob(target.message);
+    return this.createResponse(
+      message.from,
+      "queue-state",
+      { running: session?.running ?? false, items: listQueue(queue), target: target?.request },
+      message.id,
+    );
+  }
+
+  // `!usage`: today's spend for the asking user and thread against the budgets
+  private async handleGetUsage(message: ActorMessage): Promise<ActorResponse> {
+    const { userId } = message.payload as { userId?: string };
+    const report = await this.usage.report(this.budgetLimits(), userId, channelOf(message));
+    return this.createResponse(message.from, "usage-report", report, message.id);
+  }
+
+  // Read on every request so a config reload changes the budgets in place
+  private budgetLimits(): BudgetLimits {
+    return {
+      user: this.config.budgetUserDailyUsd,
+      thread: this.config.budgetThreadDailyUsd,
+      day: this.config.budgetDailyUsd,
+    };
+  }
+
+  // Turns the prompt away (and tells its author) when a daily budget is used up
+  private async rejectOverBudget(message: ActorMessage): Promise<boolean> {
+    if (message.type !== "user-message") return false;
+    const { authorId, channelId, originalMessageId } = message.payload as {
+      authorId?: string;
+      channelId?: string;
+      originalMessageId?: string;
+    };
+    const report = await this.usage.report(this.budgetLimits(), authorId, channelId);
+    const exceeded = exceededBudget(report);
+    if (!exceeded) return false;
+
+    console.log(
+      `[${this.name}] Rejected request over the ${exceeded.scope} budget ($${
+        exceeded.spentUsd.toFixed(2)
+      } / $${exceeded.limitUsd})`,
+    );
+    if (channelId && this.bus) {
+      await this.bus.emit({
+        id: crypto.randomUUID(),
+        from: this.name,
+        to: "discord",
+        type: "budget-exceeded",
+        payload: {
+          channelId,
+          originalMessageId: originalMessageId ?? message.id,
+          scope: exceeded.scope,
+          spentUsd: exceeded.spentUsd,
+          limitUsd: exceeded.limitUsd,
+          resetsAt: report.resetsAt,
+        },
+        timestamp: new Date(),
+      });
+    }
+    return true;
+  }
+
+  // Runs once the query settles, so failed and aborted requests are counted too
+  private async recordUsage(message: ActorMessage, adapter: ClaudeCodeAdapter): Promise<void> {
+    const result = adapter.getLastResult();
+    if (!result) return;
+    const { authorId, channelId } = message.payload as { authorId?: string; channelId?: string };
+    await this.usage.record({ userId: authorId, channelId }, result);
+  }
+
+  private async notifyQueued(message: ActorMessage, position: number): Promise<void> {
+    const { channelId, originalMessageId } = message.payload as {
+      channelId?: string;
+      originalMessageId?: string;
+    };
+    if (!channelId || !this.bus) return;
+    await this.bus.emit({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: "discord",
+      type: "request-queued",
+      payload: { channelId, originalMessageId: originalMessageId ?? message.id, position },
+      timestamp: new Date(),
+    });
+  }
+
+  private findSession(channelId?: string): ChannelSession | undefined {
+    return channelId ? this.sessions.get(channelId) : this.primary;
+  }
+
+  private sessionFor(channelId?: string): ChannelSession {
+    const existing = this.findSession(channelId);
+    if (existing) return existing;
+
+    let session: ChannelSession;
+    if (this.primaryChannelId === undefined) {
+      // 最初のスレッド（起動時のメインスレッド）は再開セッションを引き継ぐ
+      this.primaryChannelId = channelId;
+      session = this.primary;
+    } else {
+      session = this.createSession(channelId!);
+    }
+    this.sessions.set(channelId!, session);
+    return session;
+  }
+
+  private createSession(channelId: string): ChannelSession {
+    this.pruneIdleSessions();
+    // Shares this.config so reloaded settings reach every thread
+    const adapter = new ClaudeCodeAdapter(this.config, this.client, { resume: false });
+    this.attachPermissionHandler(adapter, () => channelId);
+    console.log(`[${this.name}] New session for channel ${channelId}`);
+    return { adapter, queue: [], running: false, lastActiveAt: Date.now() };
+  }
+
+  // Threads are never closed explicitly, so sessions idle for SESSION_IDLE_MS are released
+  // whenever a new one is opened. The primary session stays.
+  private pruneIdleSessions(now = Date.now()): void {
+    for (const [channelId, session] of this.sessions) {
+      if (session === this.primary || session.running || session.queue.length > 0) continue;
+      if (now - session.lastActiveAt < SESSION_IDLE_MS) continue;
+      this.sessions.delete(channelId);
+      this.lastRequestByChannel.delete(channelId);
+      session.adapter?.setPermissionHandler(undefined);
+      void session.adapter?.stop();
+      console.log(`[${this.name}] Released idle session for channel ${channelId}`);
+    }
+  }
+
+  private adapterOf(session: ChannelSession): ClaudeCodeAdapter {
+    return session.adapter ?? this.adapter;
+  }
+
+  private async drainQueue(session: ChannelSession): Promise<void> {
+    if (session.running) return;
+    session.running = true;
     try {
-      while (this.queue.length > 0) {
-        const nextMessage = this.queue.shift()!;
-        await this.processMessage(nextMessage);
+      while (session.queue.length > 0) {
+        const nextMessage = session.queue.shift()!;
+        if (this.persistedJobs.has(nextMessage.id)) {
+          await this.persistence?.markJobSent(nextMessage.id);
+        }
+        try {
+          if (await this.parkDuringCooldown(nextMessage)) continue;
+          if (await this.rejectOverBudget(nextMessage)) continue;
+          await this.processMessage(nextMessage, session);
+        } finally {
+          // Errors and aborts were reported in the thread (and !retry covers them), so
+          // only a crash mid-request leaves the job on disk
+          await this.ackJob(nextMessage);
+        }
       }
     } finally {
-      this.running = false;
+      session.running = false;
+      session.lastActiveAt = Date.now();
     }
   }
 
-  private async processMessage(message: ActorMessage): Promise<void> {
+  private async processMessage(message: ActorMessage, session: ChannelSession): Promise<void> {
+    const adapter = this.adapterOf(session);
+
     if (message.type === "discord-command") {
       const payload = message.payload as {
         text?: string;
@@ -147,7 +552,7 @@ export class ClaudeCodeActor implements Actor {
       return;
     }
 
-    const mergedText = this.buildMessageContent(text, attachments);
+    const mergedText = buildAttachmentPrompt(text, attachments);
 
     // ストリーミング有効判定（bus 未注入や無効時は従来どおり最終のみ）
     const streamingEnabled = (this as any).adapter &&
@@ -156,16 +561,29 @@ export class ClaudeCodeActor implements Actor {
 
     if (!canStream) {
       try {
-        const response = await this.adapter.query(mergedText);
+        const response = await adapter.query(mergedText)
+          .finally(() => this.recordUsage(message, adapter));
         if (this.bus) {
           await this.bus.send(this.createResponse(
             message.from,
             "claude-response",
-            { text: response, sessionId: this.adapter.getCurrentSessionId() },
+            {
+              text: response,
+              sessionId: adapter.getCurrentSessionId(),
+              result: adapter.getLastResult(),
+            },
             message.id,
           ));
         }
       } catch (error) {
+        if (isQueryAbortedError(error)) {
+          await this.emitStreamNotice(channelId, originalMessageId, {
+            message: t("discord.commands.aborted"),
+            fatal: false,
+            aborted: true,
+          });
+          return;
+        }
         console.error(`[${this.name}] Error querying Claude:`, error);
         const parsed = this.parseClaudeError(error);
         if (parsed && this.bus) {
@@ -182,9 +600,9 @@ export class ClaudeCodeActor implements Actor {
               message: parsed.friendlyMessage,
               fatal: true,
             });
-            if (parsed.kind === "USAGE_LIMIT") {
-              this.scheduleCooldownNotice(channelId, originalMessageId, parsed.retryAfterMs);
-            }
+          }
+          if (parsed.kind === "USAGE_LIMIT") {
+            await this.startCooldown(message, parsed.resetsAt);
           }
         } else if (this.bus) {
           const fallback = error instanceof Error ? error.message : "Unknown error";
@@ -212,7 +630,7 @@ export class ClaudeCodeActor implements Actor {
         payload: {
           originalMessageId,
           channelId: channelId ?? "",
-          meta: { sessionId: this.adapter.getCurrentSessionId() },
+          meta: { sessionId: adapter.getCurrentSessionId() },
         },
         timestamp: new Date(),
       });
@@ -222,19 +640,25 @@ export class ClaudeCodeActor implements Actor {
       const maxChunk: number = cfg.streamingMaxChunkLength ?? 1800;
 
       const truncate = (s: string, n: number) => s.length > n ? s.slice(0, n) + "..." : s;
+      // Edit/MultiEdit/Write の入力からターン単位の差分を組み立てる
+      // （変更前の内容はツールが実行される前に PreToolUse フックで読む）
+      const fileChanges = new FileChangeTracker(adapter.getWorkingDirectory());
 
-      const response = await this.adapter.query(mergedText, async (cm) => {
+      const response = await adapter.query(mergedText, async (cm) => {
         try {
           // assistant のテキストチャンク
           if (cm?.type === "assistant") {
             const content = (cm as any).message?.content;
             let delta = "";
+            const toolUses: Array<{ id?: string; name: string; input: unknown }> = [];
             if (typeof content === "string") {
               delta = content;
             } else if (Array.isArray(content)) {
               for (const b of content) {
                 if (b?.type === "text" && typeof b.text === "string") {
                   delta += b.text;
+                } else if (b?.type === "tool_use" && typeof b.name === "string") {
+                  toolUses.push(b);
                 }
               }
             }
@@ -253,6 +677,23 @@ export class ClaudeCodeActor implements Actor {
                 timestamp: new Date(),
               });
             }
+            // ツール呼び出し（どのファイルを編集し、どのコマンドを実行するか）
+            for (const toolUse of toolUses) {
+              await this.bus!.emit({
+                id: crypto.randomUUID(),
+                from: this.name,
+                to: "discord",
+                type: "stream-tool-use",
+                payload: {
+                  originalMessageId,
+                  channelId: channelId ?? "",
+                  toolUseId: toolUse.id,
+                  toolName: toolUse.name,
+                  input: summarizeToolInput(toolUse.input),
+                },
+                timestamp: new Date(),
+              });
+            }
           }
 
           // ツール結果チャンク（Claude 側は user/tool_result 経由）
@@ -261,6 +702,9 @@ export class ClaudeCodeActor implements Actor {
             if (Array.isArray(content)) {
               for (const item of content) {
                 if (item?.type === "tool_result") {
+                  if (item.is_error && typeof item.tool_use_id === "string") {
+                    fileChanges.discard(item.tool_use_id);
+                  }
                   const raw = typeof item.content === "string"
                     ? item.content
                     : JSON.stringify(item.content);
@@ -290,7 +734,8 @@ export class ClaudeCodeActor implements Actor {
         } catch (e) {
           console.error(`[${this.name}] onProgress emit error`, e);
         }
-      });
+      }, (toolName, input, toolUseId) => fileChanges.record(toolName, input, toolUseId))
+        .finally(() => this.recordUsage(message, adapter));
 
       // 完了
       await this.bus!.emit({
@@ -302,7 +747,9 @@ export class ClaudeCodeActor implements Actor {
           originalMessageId,
           channelId: channelId ?? "",
           fullText: response,
-          sessionId: this.adapter.getCurrentSessionId(),
+          sessionId: adapter.getCurrentSessionId(),
+          fileChanges: fileChanges.changes(),
+          result: adapter.getLastResult(),
         },
         timestamp: new Date(),
       });
@@ -312,12 +759,24 @@ export class ClaudeCodeActor implements Actor {
         await this.bus.send(this.createResponse(
           message.from,
           "claude-response",
-          { text: response, sessionId: this.adapter.getCurrentSessionId() },
+          {
+            text: response,
+            sessionId: adapter.getCurrentSessionId(),
+            result: adapter.getLastResult(),
+          },
           message.id,
         ));
       }
       return;
     } catch (error) {
+      if (isQueryAbortedError(error)) {
+        await this.emitStreamNotice(channelId, originalMessageId, {
+          message: t("discord.commands.aborted"),
+          fatal: false,
+          aborted: true,
+        });
+        return;
+      }
       console.error(`[${this.name}] Error querying Claude:`, error);
       const parsed = this.parseClaudeError(error);
       const friendly = parsed?.friendlyMessage ??
@@ -338,79 +797,19 @@ export class ClaudeCodeActor implements Actor {
           ),
         );
       }
-      if (parsed?.kind === "USAGE_LIMIT" && channelId) {
-        this.scheduleCooldownNotice(channelId, originalMessageId, parsed.retryAfterMs);
+      if (parsed?.kind === "USAGE_LIMIT") {
+        await this.startCooldown(message, parsed.resetsAt);
       }
       return;
     }
   }
 
-  private buildMessageContent(text: string, attachments: ImportedAttachment[]): string {
-    if (attachments.length === 0) return text;
-
-    const textAttachments = attachments.filter((item) => item.isText);
-    const imageAttachments = attachments.filter((item) => item.isImage);
-    const otherAttachments = attachments.filter((item) => !item.isText && !item.isImage);
-
-    const lines: string[] = [];
-
-    if (textAttachments.length > 0) {
-      lines.push("[Text attachments]");
-      for (const attachment of textAttachments) {
-        const sizeLabel = `${attachment.size} bytes`;
-        const descriptor = attachment.contentType
-          ? `${sizeLabel}, ${attachment.contentType}`
-          : sizeLabel;
-        lines.push(`- ${attachment.filename} (${descriptor}) -> ${attachment.path}`);
-        if (attachment.contentPreview) {
-          lines.push(`--- preview: ${attachment.filename} ---`);
-          const snippet = attachment.contentPreview.slice(0, ATTACHMENT_PREVIEW_CHAR_LIMIT);
-          lines.push(snippet);
-          lines.push(`--- end preview ---`);
-        }
-      }
-      lines.push("");
-    }
-
-    if (imageAttachments.length > 0) {
-      lines.push("[Image attachments]");
-      for (const attachment of imageAttachments) {
-        const sizeLabel = `${attachment.size} bytes`;
-        const descriptor = attachment.contentType
-          ? `${sizeLabel}, ${attachment.contentType}`
-          : sizeLabel;
-        lines.push(`- ${attachment.filename} (${descriptor}) -> ${attachment.path}`);
-        if (attachment.previewPath) {
-          lines.push(`  preview: ${attachment.previewPath}`);
-        }
-      }
-      lines.push("画像を扱う際は `Read(<path>)` で原本を参照できます。");
-      lines.push("");
-    }
-
-    if (otherAttachments.length > 0) {
-      lines.push("[Other attachments]");
-      for (const attachment of otherAttachments) {
-        const sizeLabel = `${attachment.size} bytes`;
-        const descriptor = attachment.contentType
-          ? `${sizeLabel}, ${attachment.contentType}`
-          : sizeLabel;
-        lines.push(`- ${attachment.filename} (${descriptor}) -> ${attachment.path}`);
-      }
-      lines.push("");
-    }
-
-    lines.push("必要なら `Read(<path>)` でファイル全体を参照してください。");
-
-    const preamble = lines.join("\n");
-    return text ? `${preamble}\n\n${text}` : preamble;
-  }
-
   private parseClaudeError(error: unknown):
     | {
       friendlyMessage: string;
       kind: ClaudeErrorKind;
       retryAfterMs?: number;
+      resetsAt?: string;
     }
     | null {
     const raw = error instanceof Error ? error.message : String(error ?? "");
@@ -424,7 +823,15 @@ export class ClaudeCodeActor implements Actor {
             const minutes = Math.max(1, Math.ceil(parsed.retryAfterMs / 60000));
             friendly += `\n推定残り時間: 約${minutes}分。`;
           }
-          friendly += `\n制限解除後に「!retry」で再実行できます。`;
+          friendly += `\n制限が解除されたら、このリクエストと待機中のリクエストを自動で再開します。`;
+        } else if (kind === "RATE_LIMIT") {
+          if (typeof parsed.retryAfterMs === "number") {
+            const seconds = Math.max(1, Math.ceil(parsed.retryAfterMs / 1000));
+            friendly += `\n約${seconds}秒後に`;
+          } else {
+            friendly += `\n少し時間を置いて`;
+          }
+          friendly += `「!retry」で再試行してください。`;
         } else if (kind === "IMAGE_TOO_LARGE") {
           friendly += `\n画像を 5MB 未満に抑えるよう圧縮してから再実行してください。`;
         } else if (kind === "NETWORK") {
@@ -438,6 +845,7 @@ export class ClaudeCodeActor implements Actor {
           friendlyMessage: friendly,
           kind,
           retryAfterMs: typeof parsed.retryAfterMs === "number" ? parsed.retryAfterMs : undefined,
+          resetsAt: typeof parsed.resetsAt === "string" ? parsed.resetsAt : undefined,
         };
       }
     } catch {
@@ -449,7 +857,7 @@ export class ClaudeCodeActor implements Actor {
   private async emitStreamNotice(
     channelId: string | undefined,
     originalMessageId: string,
-    payload: { message: string; fatal?: boolean },
+    payload: { message: string; fatal?: boolean; aborted?: boolean },
   ): Promise<void> {
     if (!channelId || !this.bus) return;
     try {
@@ -463,6 +871,7 @@ export class ClaudeCodeActor implements Actor {
           channelId,
           message: payload.message,
           fatal: payload.fatal ?? true,
+          ...(payload.aborted ? { aborted: true } : {}),
         },
         timestamp: new Date(),
       });
@@ -471,33 +880,76 @@ export class ClaudeCodeActor implements Actor {
     }
   }
 
-  private scheduleCooldownNotice(
-    channelId: string,
-    originalMessageId: string,
-    retryAfterMs?: number,
-  ): void {
-    const delay = Math.min(
-      Math.max(retryAfterMs ?? 30 * 60_000, 60_000),
-      6 * 60 * 60_000,
+  // The request that hit the usage limit is parked first; everything dequeued
+  // until the reset joins it (see parkDuringCooldown)
+  private async startCooldown(message: ActorMessage, resetsAt?: string): Promise<void> {
+    const until = cooldownUntil(resetsAt ? new Date(resetsAt) : undefined);
+    await this.cooldown.start(until, message);
+    console.log(
+      `[${this.name}] Usage limit reached; parking requests until ${until.toISOString()}`,
     );
-    const previous = this.cooldownTimerByChannel.get(channelId);
-    if (previous) clearTimeout(previous);
+    await this.emitCooldownState(channelOf(message));
+  }
 
-    const timer = setTimeout(() => {
-      this.cooldownTimerByChannel.delete(channelId);
-      (async () => {
-        await this.emitStreamNotice(channelId, originalMessageId, {
-          message:
-            "⌛ クールダウンが明けた可能性があります。必要なら「!retry」で再実行してください。",
-          fatal: false,
-        });
-        if (this.autoRetryEnabled) {
-          await this.retryLast(channelId, { originalMessageId });
-        }
-      })().catch((err) => console.error(`[${this.name}] cooldown notice failed`, err));
-    }, delay);
+  private async parkDuringCooldown(message: ActorMessage): Promise<boolean> {
+    if (message.type !== "user-message" || !this.cooldown.isActive()) return false;
+    const position = await this.cooldown.park(message);
+    const { channelId, originalMessageId } = message.payload as {
+      channelId?: string;
+      originalMessageId?: string;
+    };
+    if (channelId && this.bus) {
+      await this.bus.emit({
+        id: crypto.randomUUID(),
+        from: this.name,
+        to: "discord",
+        type: "request-parked",
+        payload: {
+          channelId,
+          originalMessageId: originalMessageId ?? message.id,
+          position,
+          until: this.cooldown.getUntil()!.toISOString(),
+        },
+        timestamp: new Date(),
+      });
+    }
+    await this.emitCooldownState(channelId);
+    return true;
+  }
+
+  // Countdown for the thread; `resumed` is set once the cooldown is over
+  private async emitCooldownState(channelId?: string, resumed?: number): Promise<void> {
+    if (!channelId || !this.bus) return;
+    await this.bus.emit({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: "discord",
+      type: "cooldown-state",
+      payload: {
+        channelId,
+        until: this.cooldown.getUntil()?.toISOString(),
+        parked: this.cooldown.countParked(channelId),
+        resumed,
+      },
+      timestamp: new Date(),
+    });
+  }
 
-    this.cooldownTimerByChannel.set(channelId, timer);
+  // Parked requests go back to the front of their threads' queues, oldest first
+  private async resumeParked(parked: ActorMessage[]): Promise<void> {
+    const byChannel = new Map<string | undefined, ActorMessage[]>();
+    for (const message of parked) {
+      const channelId = channelOf(message);
+      byChannel.set(channelId, [...(byChannel.get(channelId) ?? []), message]);
+    }
+    console.log(`[${this.name}] Usage limit reset; resuming ${parked.length} parked request(s)`);
+    await Promise.all([...byChannel].map(async ([channelId, messages]) => {
+      for (const message of messages) await this.persistJob(message);
+      await this.emitCooldownState(channelId, messages.length);
+      const session = this.sessionFor(channelId);
+      session.queue.unshift(...messages);
+      await this.drainQueue(session);
+    }));
   }
 
   private async retryLast(
@@ -529,13 +981,8 @@ export class ClaudeCodeActor implements Actor {
     };
 
     // 先頭に挿入して現在のタスクの直後に処理
-    this.queue.unshift(clonedMessage);
-
-    const activeTimer = this.cooldownTimerByChannel.get(channelId);
-    if (activeTimer) {
-      clearTimeout(activeTimer);
-      this.cooldownTimerByChannel.delete(channelId);
-    }
+    const session = this.sessionFor(channelId);
+    session.queue.unshift(clonedMessage);
 
     if (options.originalMessageId) {
       await this.emitStreamNotice(channelId, options.originalMessageId, {
@@ -544,10 +991,82 @@ export class ClaudeCodeActor implements Actor {
       });
     }
 
-    await this.drainQueue();
+    await this.drainQueue(session);
+  }
+
+  private async persistJob(message: ActorMessage): Promise<void> {
+    if (!this.persistence) return;
+    this.persistedJobs.add(message.id);
+    await this.persistence.addPendingJob({
+      id: message.id,
+      type: message.type,
+      payload: message,
+      status: "queued",
+      retryCount: 0,
+    });
+  }
+
+  private async ackJob(message: ActorMessage): Promise<void> {
+    if (!this.persistence || !this.persistedJobs.delete(message.id)) return;
+    await this.persistence.markJobAcked(message.id);
+  }
+
+  private async resumeAfterRestart(channelId: string): Promise<void> {
+    // A cooldown from the previous run keeps parking requests until its reset time
+    await this.cooldown.restore(channelId);
+    if ((this.cooldown.getUntil()?.getTime() ?? 0) > Date.now()) {
+      await this.emitCooldownState(channelId);
+    }
+    await this.replayPendingJobs(channelId);
+  }
+
+  // The threads of the previous run are gone, so resumed requests go to the new thread
+  private async replayPendingJobs(channelId: string): Promise<void> {
+    if (!this.persistence) return;
+    const resumed: ActorMessage[] = [];
+    for (const job of await this.persistence.getPendingJobs()) {
+      if (job.retryCount >= MAX_JOB_REPLAYS) {
+        console.warn(`[${this.name}] Dropping job ${job.id} after ${job.retryCount} replays`);
+        await this.persistence.markJobAcked(job.id);
+        continue;
+      }
+      const stored = job.payload as ActorMessage;
+      const message: ActorMessage = {
+        ...stored,
+        payload: { ...(stored.payload as Record<string, unknown>), channelId },
+        timestamp: new Date(stored.timestamp),
+      };
+      await this.persistence.updatePendingJob(job.id, {
+        status: "queued",
+        retryCount: job.retryCount + 1,
+        payload: message,
+      });
+      this.persistedJobs.add(job.id);
+      resumed.push(message);
+    }
+    if (resumed.length === 0) return;
+
+    console.log(`[${this.name}] Resuming ${resumed.length} pending job(s)`);
+    const list = resumed.map((message, index) => `${index + 1}. ${describeRequest(message)}`);
+    await this.bus?.emit({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: "discord",
+      type: "thread-notice",
+      payload: {
+        channelId,
+        text: `${t("discord.queue.replayed")} ${resumed.length}\n${list.join("\n")}`,
+      },
+      timestamp: new Date(),
+    });
+
+    // Resumed requests were sent before anything queued since startup
+    const session = this.sessionFor(channelId);
+    session.queue.unshift(...resumed);
+    await this.drainQueue(session);
   }
 
-  // Reset session
+  // Reset session (primary thread)
   resetSession(): void {
     this.adapter.resetSession();
   }
@@ -556,3 +1075,8 @@ export class ClaudeCodeActor implements Actor {
     return this.adapter.getCurrentSessionId();
   }
 }
+
+function channelOf(message: ActorMessage): string | undefined {
+  return (message.payload as { channelId?: string } | undefined)?.channelId || undefined;
+}
+
@@ -11,6 +11,8 @@ export class DebugActor implements Actor {
     "That's a great idea!",
   ];
 
+  private sessionId: string = crypto.randomUUID();
+
   constructor(name = "debug") {
     this.name = name;
   }
@@ -84,6 +86,44 @@ export class DebugActor implements Actor {
           message.id
         );
 
+      case "reset-session": {
+        // Simulated session: just rotate the identifier
+        const previousSessionId = this.sessionId;
+        this.sessionId = crypto.randomUUID();
+        return this.createResponse(
+          message.from,
+          "session-reset",
+          { previousSessionId, sessionId: this.sessionId },
+          message.id
+        );
+      }
+
+      case "open-session":
+        // Single simulated session shared by every thread
+        return this.createResponse(
+          message.from,
+          "session-opened",
+          { channelId: (message.payload as { channelId?: string })?.channelId },
+          message.id
+        );
+
+      case "set-workdir":
+        // Nothing runs in the working directory in debug mode
+        return this.createResponse(
+          message.from,
+          "workdir-changed",
+          { cwd: (message.payload as { cwd?: string })?.cwd, changed: false },
+          message.id
+        );
+
+      case "get-session-info":
+        return this.createResponse(
+          message.from,
+          "session-info",
+          { sessionId: this.sessionId, running: false, queued: 0, model: "debug", sessions: 1 },
+          message.id
+        );
+
       case "user-message":
         // Message from user
         const userText = (message.payload as { text?: string })?.text || "";
@@ -1,16 +1,51 @@
-import type { Actor, ActorMessage, ActorResponse, MessageBus } from "../types.ts";
-import { GeminiCliAdapter } from "../adapter/gemini-cli-adapter.ts";
+import type {
+  Actor,
+  ActorMessage,
+  ActorResponse,
+  ImportedAttachment,
+  MessageBus,
+} from "../types.ts";
+import {
+  analyseGeminiError,
+  GeminiCliAdapter,
+  type GeminiSpawn,
+} from "../adapter/gemini-cli-adapter.ts";
+import { isQueryAbortedError } from "../adapter/claude-code-adapter.ts";
 import type { Config } from "../config.ts";
+import { t } from "../i18n.ts";
+import { buildAttachmentPrompt } from "../utils/attachment-prompt.ts";
+import { editQueue, listQueue, type QueueAction } from "../utils/request-queue.ts";
+
+// Per-thread state: each channel has its own adapter (model, cwd, history) and queue
+type ChannelSession = {
+  adapter: GeminiCliAdapter;
+  queue: ActorMessage[];
+  running: boolean;
+};
+
+type StoredRequest = {
+  request: ActorMessage;
+  originalMessageId: string;
+};
 
 // Actor that communicates with Gemini CLI
 export class GeminiCliActor implements Actor {
   name: string;
   private adapter: GeminiCliAdapter;
+  private config: Config;
+  private spawnProcess?: GeminiSpawn;
   private bus?: MessageBus;
+  // Messages without a channelId share the primary adapter
+  private primary: ChannelSession;
+  private sessions = new Map<string, ChannelSession>();
+  private lastRequestByChannel = new Map<string, StoredRequest>();
 
-  constructor(config: Config, name = "gemini-cli") {
+  constructor(config: Config, name = "gemini-cli", spawnProcess?: GeminiSpawn) {
     this.name = name;
-    this.adapter = new GeminiCliAdapter(config);
+    this.config = config;
+    this.spawnProcess = spawnProcess;
+    this.adapter = new GeminiCliAdapter(config, spawnProcess);
+    this.primary = { adapter: this.adapter, queue: [], running: false };
   }
 
   // MessageBus を後付け注入（後方互換維持のため）
@@ -25,6 +60,9 @@ export class GeminiCliActor implements Actor {
 
   async stop(): Promise<void> {
     await this.adapter.stop();
+    for (const session of this.sessions.values()) {
+      await session.adapter.stop();
+    }
     console.log(`[${this.name}] Actor stopped`);
   }
 
@@ -45,6 +83,107 @@ export class GeminiCliActor implements Actor {
   }
 
   async handleMessage(message: ActorMessage): Promise<ActorResponse | null> {
+    // Discord からの通常メッセージと !retry はスレッドごとのキューで順番に処理
+    if (message.type === "user-message" || message.type === "discord-command") {
+      const session = this.sessionFor(channelOf(message));
+      if (message.type === "user-message" && session.running) {
+        await this.notifyQueued(message, session.queue.length + 1);
+      }
+      session.queue.push(message);
+      await this.drainQueue(session);
+      return null;
+    }
+
+    // 順番待ちの確認・取り消し・優先（!queue / !cancel / !priority）
+    if (message.type === "manage-queue") {
+      return this.handleManageQueue(message);
+    }
+
+    // 制御メッセージはキューを経由せず即時処理（実行中のクエリを止めるため）
+    if (message.type === "stop-tasks") {
+      return this.handleStop(message);
+    }
+
+    // セッションリセット（会話履歴を破棄し、次の応答で新しいセッション ID を採番）
+    if (message.type === "reset-session") {
+      const adapter = this.sessionFor(channelOf(message)).adapter;
+      const previousSessionId = adapter.getCurrentSessionId();
+      adapter.resetSession();
+      return this.createResponse(
+        message.from,
+        "session-reset",
+        { previousSessionId, sessionId: adapter.getCurrentSessionId() },
+        message.id,
+      );
+    }
+
+    if (message.type === "open-session") {
+      const channelId = channelOf(message);
+      if (channelId) this.sessionFor(channelId);
+      return this.createResponse(
+        message.from,
+        "session-opened",
+        { channelId, sessions: this.sessions.size },
+        message.id,
+      );
+    }
+
+    if (message.type === "set-workdir") {
+      const { cwd } = message.payload as { cwd?: string };
+      if (!cwd) {
+        return this.createResponse(message.from, "error", { error: "cwd is required" }, message.id);
+      }
+      const adapter = this.sessionFor(channelOf(message)).adapter;
+      const changed = adapter.getWorkingDirectory() !== cwd;
+      adapter.setWorkingDirectory(cwd);
+      return this.createResponse(
+        message.from,
+        "workdir-changed",
+        { cwd, changed },
+        message.id,
+      );
+    }
+
+    // モデル切り替え（次のクエリから有効）
+    if (message.type === "set-model") {
+      const { model } = message.payload as { model?: string };
+      const allowed = this.config.geminiAllowedModels ?? [this.adapter.getModel()];
+      if (!model || !allowed.includes(model)) {
+        return this.createResponse(
+          message.from,
+          "error",
+          { error: `model not allowed: ${model ?? "-"}`, allowed },
+          message.id,
+        );
+      }
+      const adapter = this.sessionFor(channelOf(message)).adapter;
+      const previousModel = adapter.getModel();
+      adapter.setModel(model);
+      return this.createResponse(
+        message.from,
+        "model-changed",
+        { model, previousModel },
+        message.id,
+      );
+    }
+
+    if (message.type === "get-session-info") {
+      const session = this.findSession(channelOf(message));
+      return this.createResponse(
+        message.from,
+        "session-info",
+        {
+          sessionId: session?.adapter.getCurrentSessionId(),
+          running: session?.running ?? false,
+          queued: session?.queue.length ?? 0,
+          cwd: session?.adapter.getWorkingDirectory(),
+          model: (session?.adapter ?? this.adapter).getModel(),
+          sessions: this.sessions.size,
+        },
+        message.id,
+      );
+    }
+
     // Gemini CLIに対するクエリを処理
     if (message.type === "query" && typeof message.payload === "object") {
       const payload = message.payload as { content?: string };
@@ -175,5 +314,331 @@ export class GeminiCliActor implements Actor {
     // その他のメッセージは無視
     return null;
   }
+
+  private handleStop(message: ActorMessage): ActorResponse {
+    const payload = message.payload as { clearQueue?: boolean } | undefined;
+    const clearQueue = payload?.clearQueue ?? true;
+    const session = this.findSession(channelOf(message));
+    const dropped = session && clearQueue ? session.queue.splice(0).length : 0;
+    const aborted = session ? session.adapter.abort() : false;
+    const remaining = session?.queue.length ?? 0;
+
+    console.log(
+      `[${this.name}] Stop requested (aborted=${aborted}, dropped=${dropped}, remaining=${remaining})`,
+    );
+
+    return this.createResponse(
+      message.from,
+      "tasks-stopped",
+      { aborted, dropped, remaining },
+      message.id,
+    );
+  }
+
+  private handleManageQueue(message: ActorMessage): ActorResponse {
+    const { action = "list", position } = message.payload as {
+      action?: QueueAction;
+      position?: number;
+    };
+    const session = this.findSession(channelOf(message));
+    const queue = session?.queue ?? [];
+    const target = action === "list" ? undefined : editQueue(queue, action, position ?? 0);
+    if (action !== "list" && !target) {
+      return this.createResponse(
+        message.from,
+        "error",
+        { error: `no queued request at position ${position ?? "-"}`, size: queue.length },
+        message.id,
+      );
+    }
+    return this.createResponse(
+      message.from,
+      "queue-state",
+      { running: session?.running ?? false, items: listQueue(queue), target: target?.request },
+      message.id,
+    );
+  }
+
+  private async notifyQueued(message: ActorMessage, position: number): Promise<void> {
+    const { channelId, originalMessageId } = message.payload as {
+      channelId?: string;
+      originalMessageId?: string;
+    };
+    if (!channelId || !this.bus) return;
+    await this.bus.emit({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: "discord",
+      type: "request-queued",
+      payload: { channelId, originalMessageId: originalMessageId ?? message.id, position },
+      timestamp: new Date(),
+    });
+  }
+
+  private findSession(channelId?: string): ChannelSession | undefined {
+    return channelId ? this.sessions.get(channelId) : this.primary;
+  }
+
+  private sessionFor(channelId?: string): ChannelSession {
+    const existing = this.findSession(channelId);
+    if (existing) return existing;
+
+    const session: ChannelSession = {
+      adapter: new GeminiCliAdapter(this.config, this.spawnProcess),
+      queue: [],
+      running: false,
+    };
+    this.sessions.set(channelId!, session);
+    console.log(`[${this.name}] New session for channel ${channelId}`);
+    return session;
+  }
+
+  private async drainQueue(session: ChannelSession): Promise<void> {
+    if (session.running) return;
+    session.running = true;
+    try {
+      while (session.queue.length > 0) {
+        const nextMessage = session.queue.shift()!;
+        await this.processMessage(nextMessage, session);
+      }
+    } finally {
+      session.running = false;
+    }
+  }
+
+  private async processMessage(message: ActorMessage, session: ChannelSession): Promise<void> {
+    if (message.type === "discord-command") {
+      const payload = message.payload as {
+        text?: string;
+        channelId?: string;
+      };
+      const command = payload?.text?.trim().toLowerCase();
+      if (command === "!retry") {
+        await this.retryLast(payload?.channelId ?? "", {
+          originalMessageId: message.id,
+        });
+      } else if (payload?.channelId) {
+        await this.emitStreamNotice(payload.channelId, message.id, {
+          message: "サポートされていないコマンドです。",
+          fatal: false,
+        });
+      }
+      return;
+    }
+
+    console.log(`[${this.name}] Processing message with Gemini CLI`);
+
+    const content = message.payload as {
+      text?: string;
+      originalMessageId?: string;
+      channelId?: string;
+      attachments?: ImportedAttachment[];
+    };
+    const text = content.text ?? "";
+    const attachments = content.attachments ?? [];
+    const originalMessageId = content.originalMessageId ?? message.id;
+    const channelId = content.channelId;
+
+    if (channelId) {
+      // 直近リクエストを保持（!retry 用）
+      this.lastRequestByChannel.set(channelId, {
+        request: {
+          ...message,
+          payload: { ...content, originalMessageId },
+        },
+        originalMessageId,
+      });
+    }
+
+    if (!text && attachments.length === 0) {
+      if (this.bus) {
+        await this.bus.send(this.createResponse(
+          message.from,
+          "error",
+          { error: "No text provided for Gemini" },
+          message.id,
+        ));
+      }
+      return;
+    }
+
+    const prompt = buildAttachmentPrompt(text, attachments);
+    const adapter = session.adapter;
+
+    // ストリーミング無効時や bus 未注入時は最終応答のみ返す
+    const canStream = (this.config.streamingEnabled ?? true) && !!this.bus;
+    const toolPrefix = this.config.streamingToolChunkPrefix ?? "📋 ツール実行結果:";
+    const maxChunk = this.config.streamingMaxChunkLength ?? 1800;
+    const truncate = (s: string, n: number) => s.length > n ? s.slice(0, n) + "..." : s;
+
+    try {
+      if (canStream) {
+        await this.emitStreamEvent("stream-started", {
+          originalMessageId,
+          channelId: channelId ?? "",
+          meta: { sessionId: adapter.getCurrentSessionId(), model: adapter.getModel() },
+        });
+      }
+
+      for await (const chunk of adapter.queryStream(prompt)) {
+        if (!canStream || !chunk.content) continue;
+        if (chunk.type === "text") {
+          await this.emitStreamEvent("stream-partial", {
+            originalMessageId,
+            channelId: channelId ?? "",
+            textDelta: `${chunk.content}\n`,
+            raw: chunk.raw,
+          });
+        } else if (chunk.type === "tool") {
+          await this.emitStreamEvent("stream-partial", {
+            originalMessageId,
+            channelId: channelId ?? "",
+            toolChunk: `${toolPrefix}\n\`\`\`\n${truncate(chunk.content, maxChunk)}\n\`\`\`\n`,
+            raw: chunk.raw,
+          });
+        }
+      }
+
+      const response = adapter.getLastResult() || "No response received.";
+
+      if (canStream) {
+        await this.emitStreamEvent("stream-completed", {
+          originalMessageId,
+          channelId: channelId ?? "",
+          fullText: response,
+          sessionId: adapter.getCurrentSessionId(),
+        });
+      }
+
+      if (this.bus) {
+        await this.bus.send(this.createResponse(
+          message.from,
+          "gemini-response",
+          { text: response, sessionId: adapter.getCurrentSessionId() },
+          message.id,
+        ));
+      }
+    } catch (error) {
+      if (isQueryAbortedError(error)) {
+        await this.emitStreamNotice(channelId, originalMessageId, {
+          message: t("discord.commands.aborted"),
+          fatal: false,
+          aborted: true,
+        });
+        return;
+      }
+      console.error(`[${this.name}] Error querying Gemini:`, error);
+      const parsed = this.parseGeminiError(error);
+      await this.emitStreamNotice(channelId, originalMessageId, {
+        message: parsed.friendlyMessage,
+        fatal: true,
+      });
+      if (this.bus) {
+        await this.bus.send(this.createResponse(
+          message.from,
+          "error",
+          { error: parsed.friendlyMessage, kind: parsed.kind },
+          message.id,
+        ));
+      }
+    }
+  }
+
+  private parseGeminiError(error: unknown): {
+    friendlyMessage: string;
+    kind: ReturnType<typeof analyseGeminiError>["kind"];
+  } {
+    const raw = error instanceof Error ? error.message : String(error ?? "");
+    const analysis = analyseGeminiError(raw);
+    let friendly = analysis.hint;
+    if (analysis.kind === "USAGE_LIMIT") {
+      if (analysis.retryAfterMs !== undefined) {
+        const seconds = Math.max(1, Math.ceil(analysis.retryAfterMs / 1000));
+        friendly += `\n推定残り時間: 約${seconds}秒。`;
+      }
+      friendly += `\n制限解除後に「!retry」で再実行できます。`;
+    } else if (analysis.kind === "AUTH") {
+      friendly += `\nキーを設定し直したうえでボットを再起動してください。`;
+    } else if (analysis.kind === "NETWORK") {
+      friendly += `\n時間を置いて「!retry」で再試行してください。`;
+    } else if (analysis.kind === "CLI_NOT_FOUND") {
+      friendly += `\nCLI のインストールやパス設定を確認したうえで再実行してください。`;
+    } else {
+      friendly += `\n必要に応じて「!retry」で再実行できます。`;
+    }
+    return { friendlyMessage: friendly, kind: analysis.kind };
+  }
+
+  private async emitStreamEvent(type: string, payload: Record<string, unknown>): Promise<void> {
+    try {
+      await this.bus!.emit({
+        id: crypto.randomUUID(),
+        from: this.name,
+        to: "discord",
+        type,
+        payload,
+        timestamp: new Date(),
+      });
+    } catch (e) {
+      console.error(`[${this.name}] ${type} emit error`, e);
+    }
+  }
+
+  private async emitStreamNotice(
+    channelId: string | undefined,
+    originalMessageId: string,
+    payload: { message: string; fatal?: boolean; aborted?: boolean },
+  ): Promise<void> {
+    if (!channelId || !this.bus) return;
+    await this.emitStreamEvent("stream-error", {
+      originalMessageId,
+      channelId,
+      message: payload.message,
+      fatal: payload.fatal ?? true,
+      ...(payload.aborted ? { aborted: true } : {}),
+    });
+  }
+
+  private async retryLast(
+    channelId: string,
+    options: { originalMessageId?: string },
+  ): Promise<void> {
+    if (!channelId) return;
+    const stored = this.lastRequestByChannel.get(channelId);
+    if (!stored) {
+      await this.emitStreamNotice(channelId, options.originalMessageId ?? crypto.randomUUID(), {
+        message: "再実行できる直近のリクエストが見つかりませんでした。",
+        fatal: false,
+      });
+      return;
+    }
+
+    const clonedMessage: ActorMessage = {
+      ...stored.request,
+      id: crypto.randomUUID(),
+      payload: {
+        ...(stored.request.payload as Record<string, unknown>),
+        channelId,
+        originalMessageId: options.originalMessageId ?? stored.originalMessageId,
+      },
+      timestamp: new Date(),
+    };
+
+    // 先頭に挿入して現在のタスクの直後に処理
+    const session = this.sessionFor(channelId);
+    session.queue.unshift(clonedMessage);
+
+    if (options.originalMessageId) {
+      await this.emitStreamNotice(channelId, options.originalMessageId, {
+        message: "前回のリクエストを再実行します…",
+        fatal: false,
+      });
+    }
+
+    await this.drainQueue(session);
+  }
 }
 
+function channelOf(message: ActorMessage): string | undefined {
+  return (message.payload as { channelId?: string } | undefined)?.channelId || undefined;
+}
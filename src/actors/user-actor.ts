@@ -1,11 +1,14 @@
 import type { Actor, ActorMessage, ActorResponse, ImportedAttachment } from "../types.ts";
+import type { BackendRouter } from "../utils/backend-router.ts";
 
 // Actor that processes user input
 export class UserActor implements Actor {
   name: string;
+  private router?: BackendRouter;
 
-  constructor(name = "user") {
+  constructor(name = "user", router?: BackendRouter) {
     this.name = name;
+    this.router = router;
   }
 
   async start(): Promise<void> {
@@ -65,7 +68,11 @@ export class UserActor implements Actor {
     );
   }
 
-  private handleCommand(message: ActorMessage, command: string): ActorResponse {
+  private handleCommand(
+    message: ActorMessage,
+    command: string,
+    args: string[] = [],
+  ): ActorResponse {
     switch (command) {
       case "reset":
       case "clear":
@@ -76,11 +83,78 @@ export class UserActor implements Actor {
           message.id,
         );
 
+      case "new":
+        // `!new [title]` opens another thread with its own session
+        return this.createResponse(
+          "system",
+          "new-session",
+          { title: args.join(" ") || undefined },
+          message.id,
+        );
+
       case "stop":
+        // `!stop keep` aborts the running query but leaves queued messages in place
         return this.createResponse(
           "system",
           "stop-tasks",
-          { message: "Stop all tasks" },
+          {
+            message: "Stop all tasks",
+            clearQueue: !args.some((arg) => arg.toLowerCase() === "keep"),
+          },
+          message.id,
+        );
+
+      case "tasks":
+        // `!tasks`, `!tasks move <from> <to>`, `!tasks done <n>`
+        return this.createResponse(
+          "system",
+          "manage-tasks",
+          { action: args[0]?.toLowerCase() ?? "list", args: args.slice(1) },
+          message.id,
+        );
+
+      case "queue":
+      case "cancel":
+      case "priority":
+        // `!queue` lists waiting requests; `!cancel <n>` / `!priority <n>` drop or promote one
+        return this.createResponse(
+          "system",
+          "manage-queue",
+          {
+            action: command === "queue" ? "list" : command,
+            position: args[0] === undefined ? undefined : Number(args[0]),
+          },
+          message.id,
+        );
+
+      case "status":
+      case "session":
+      case "model":
+      case "usage":
+        // Read-only views of this thread's assistant session
+        return this.createResponse(
+          "system",
+          `show-${command}`,
+          { args },
+          message.id,
+        );
+
+      case "backend":
+        // `!backend [claude|gemini|debug]` shows or switches this thread's assistant backend
+        return this.createResponse(
+          "system",
+          "switch-backend",
+          { backend: args[0]?.toLowerCase() },
+          message.id,
+        );
+
+      case "cd":
+      case "project":
+        // `!cd <path>` / `!project <name>` switch this thread's working directory; no argument shows it
+        return this.createResponse(
+          "system",
+          "change-workdir",
+          { kind: command, target: args.join(" ") || undefined },
           message.id,
         );
 
@@ -98,23 +172,36 @@ export class UserActor implements Actor {
           "help-response",
           {
             commands: [
+              "!new [title] - Open a new thread with its own session",
               "!reset / !clear - Reset conversation",
-              "!stop - Stop running tasks",
+              "!stop - Stop running tasks and clear the queue",
+              "!stop keep - Stop the running task but keep queued messages",
+              "!tasks [move <from> <to> | done <n>] - Show or edit pending TODO.md tasks",
+              "!queue - List requests waiting in this thread",
+              "!cancel <n> - Drop the waiting request at position n",
+              "!priority <n> - Move the waiting request at position n to the front",
+              "!status - Show the bot and session status",
+              "!session - Show this thread's session ID",
+              "!usage - Show today's spend against the daily budgets",
+              "!model [name] - Show or change the model for this thread",
+              "!backend [claude|gemini|debug] - Show or switch this thread's assistant backend",
+              "!cd [path] - Show or change this thread's working directory",
+              "!project [name] - List projects or switch this thread to one",
               "!exit - Exit bot",
               "!help - Show this help",
-              "!<command> - Execute shell command",
+              "!!<command> - Execute an allow-listed shell command",
             ],
           },
           message.id,
         );
 
       default:
-        // Treat as shell command
+        // A `command` payload of "!ls" is a shell command too (`!!` text is handled earlier)
         if (command.startsWith("!")) {
           return this.createResponse(
             "system",
             "execute-command",
-            { command: command.substring(1) },
+            { command: [command.substring(1), ...args].join(" ").trim() },
             message.id,
           );
         }
@@ -134,14 +221,31 @@ export class UserActor implements Actor {
     attachments: ImportedAttachment[],
     channelId?: string,
   ): ActorResponse {
+    // `!!git log --grep="a  b"` goes out verbatim so quoted arguments keep their spacing
+    if (text.startsWith("!!")) {
+      return this.createResponse(
+        "system",
+        "execute-command",
+        { command: text.substring(2).trim() },
+        message.id,
+      );
+    }
+
     // Check for special commands
     if (text && text.startsWith("!")) {
-      const command = text.substring(1).split(" ")[0];
-      return this.handleCommand(message, command);
+      const [command, ...args] = text.substring(1).trim().split(/\s+/);
+      return this.handleCommand(message, command, args);
     }
 
-    // Route regular messages to appropriate Actor
-    const targetActor = this.determineTargetActor(text);
+    const { authorId, authorName, channelId: payloadChannelId } = message.payload as {
+      authorId?: string;
+      authorName?: string;
+      channelId?: string;
+    };
+    const threadId = channelId ?? payloadChannelId;
+
+    // Route regular messages to the thread's backend
+    const targetActor = this.determineTargetActor(threadId);
 
     return this.createResponse(
       targetActor,
@@ -151,31 +255,16 @@ export class UserActor implements Actor {
         attachments,
         originalFrom: message.from,
         originalMessageId: message.id,
-        channelId: channelId ?? (message.payload as { channelId?: string }).channelId,
+        channelId: threadId,
+        authorId,
+        authorName,
       },
       message.id,
     );
   }
 
-  private determineTargetActor(text: string): string {
-    // Select appropriate Actor based on message content
-    if (text.toLowerCase().includes("debug")) {
-      return "debug";
-    }
-
-    // Only route to auto-responder if it's enabled
-    const autoResponderEnabled = Deno.env.get("ENABLE_AUTO_RESPONDER") === "true" ||
-      Deno.env.get("NEVER_SLEEP") === "true";
-
-    if (
-      autoResponderEnabled &&
-      (text.toLowerCase().includes("task") ||
-        text.toLowerCase().includes("todo"))
-    ) {
-      return "auto-responder";
-    }
-
-    // Default to assistant (ClaudeCode or Debug)
-    return "assistant";
+  private determineTargetActor(channelId?: string): string {
+    // Without a router everything goes to the single "assistant" actor
+    return this.router?.actorFor(channelId) ?? "assistant";
   }
 }
@@ -1,9 +1,18 @@
-import { type Options, query as sdkQuery } from "@anthropic-ai/claude-code";
-import type { Adapter, ClaudeMessage } from "../types.ts";
+import {
+  type CanUseTool,
+  type HookCallback,
+  type Options,
+  query as sdkQuery,
+  type SDKMessage,
+  type SDKUserMessage,
+} from "@anthropic-ai/claude-code";
+import type { Adapter, ClaudeMessage, QueryResultMetadata } from "../types.ts";
 import type { Config } from "../config.ts";
+import { parseUsageLimitReset } from "../utils/cooldown-scheduler.ts";
 
 type ClaudeErrorKind =
   | "USAGE_LIMIT"
+  | "RATE_LIMIT"
   | "IMAGE_TOO_LARGE"
   | "NETWORK"
   | "CLI_NOT_FOUND"
@@ -14,11 +23,43 @@ interface ClaudeErrorPayload {
   hint: string;
   kind: ClaudeErrorKind;
   retryAfterMs?: number;
+  // ISO time the usage limit resets, when the message says so
+  resetsAt?: string;
   meta: Record<string, unknown>;
 }
 
 const CLAUDE_ERROR_TAG = "CLAUDE_ERROR" as const;
 
+// Error message thrown when a running query is cancelled via abort()
+export const QUERY_ABORTED_MESSAGE = "Query was aborted";
+
+export function isQueryAbortedError(error: unknown): boolean {
+  return error instanceof Error && error.message === QUERY_ABORTED_MESSAGE;
+}
+
+// Picks cost, usage, turns and duration out of the SDK's final `result` message
+export function parseResultMessage(message: unknown): QueryResultMetadata {
+  const raw = (message ?? {}) as Record<string, unknown>;
+  const num = (value: unknown) => typeof value === "number" ? value : undefined;
+  const usage = raw.usage as Record<string, unknown> | undefined;
+  return {
+    subtype: typeof raw.subtype === "string" ? raw.subtype : undefined,
+    isError: typeof raw.is_error === "boolean" ? raw.is_error : undefined,
+    numTurns: num(raw.num_turns),
+    durationMs: num(raw.duration_ms),
+    durationApiMs: num(raw.duration_api_ms),
+    costUsd: num(raw.total_cost_usd),
+    usage: usage
+      ? {
+        inputTokens: num(usage.input_tokens) ?? 0,
+        outputTokens: num(usage.output_tokens) ?? 0,
+        cacheReadInputTokens: num(usage.cache_read_input_tokens) ?? 0,
+        cacheCreationInputTokens: num(usage.cache_creation_input_tokens) ?? 0,
+      }
+      : undefined,
+  };
+}
+
 function env(name: string, fallback = ""): string {
   try {
     return Deno.env.get(name) ?? fallback;
@@ -27,36 +68,31 @@ function env(name: string, fallback = ""): string {
   }
 }
 
-function detectUsageLimitReset(message: string): number | undefined {
-  const match = message.match(/resets?\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
-  if (!match) return undefined;
-
-  const now = new Date();
-  let hours = parseInt(match[1], 10);
-  const minutes = match[2] ? parseInt(match[2], 10) : 0;
-  const ampm = (match[3] ?? "").toLowerCase();
-
-  if (ampm === "pm" && hours < 12) hours += 12;
-  if (ampm === "am" && hours === 12) hours = 0;
-
-  const target = new Date(now);
-  target.setHours(hours, minutes, 0, 0);
-  if (target.getTime() <= now.getTime()) target.setDate(target.getDate() + 1);
-  return Math.max(target.getTime() - now.getTime(), 0);
-}
-
 function analyseClaudeError(message: string): {
   kind: ClaudeErrorKind;
   hint: string;
   retryAfterMs?: number;
+  resetsAt?: string;
 } {
   const lower = message.toLowerCase();
-  if (/5[-\s]*hour limit reached/i.test(message) || /status\s*429/i.test(lower)) {
+  // Only the account's usage window starts the cooldown; a bare 429 is a short API throttle
+  if (/(5[-\s]*hour|usage) limit reached/i.test(message)) {
+    const resetsAt = parseUsageLimitReset(message);
     return {
       kind: "USAGE_LIMIT",
       hint:
         "Anthropic Claude の利用上限ウィンドウに到達しました。リセットまで待ってから再試行してください。",
-      retryAfterMs: detectUsageLimitReset(message),
+      retryAfterMs: resetsAt ? Math.max(resetsAt.getTime() - Date.now(), 0) : undefined,
+      resetsAt: resetsAt?.toISOString(),
+    };
+  }
+
+  if (/status\s*429|\b429\b|rate[-\s]?limit/i.test(lower)) {
+    const retryAfter = lower.match(/retry[-\s]after:?\s*(\d+)/);
+    return {
+      kind: "RATE_LIMIT",
+      hint: "API のレート制限に達しました。少し待ってから再試行してください。",
+      retryAfterMs: retryAfter ? Number(retryAfter[1]) * 1000 : undefined,
     };
   }
 
@@ -96,15 +132,57 @@ export interface ClaudeClient {
   }): AsyncIterable<any>;
 }
 
-// Factory to create the real Claude Code client
-export function createClaudeClient(): ClaudeClient {
+// Factory to create the real Claude Code client (`sdk` is replaceable for tests)
+export function createClaudeClient(sdk: typeof sdkQuery = sdkQuery): ClaudeClient {
   return {
-    query: ({ prompt, options, abortController }) =>
-      // SDK 最新版は abortController/signal を受け取らないため未指定で呼び出す
-      sdkQuery({ prompt, options }),
+    query: ({ prompt, options, abortController }) => {
+      // SDK は options.abortController でサブプロセスを中断する
+      const sdkOptions = abortController ? { ...options, abortController } : options;
+      if (!options.canUseTool && !options.hooks) return sdk({ prompt, options: sdkOptions });
+
+      // canUseTool and hooks only work with streaming input. The CLI reads their answers
+      // from stdin, so the input stays open until the result has arrived.
+      let close = () => {};
+      const done = new Promise<void>((resolve) => close = resolve);
+      return closeOnResult(sdk({ prompt: streamPrompt(prompt, done), options: sdkOptions }), close);
+    },
   };
 }
 
+function streamPrompt(prompt: string, done: Promise<void>): AsyncIterable<SDKUserMessage> {
+  return (async function* () {
+    yield {
+      type: "user",
+      message: { role: "user", content: prompt },
+      parent_tool_use_id: null,
+      session_id: "",
+    };
+    await done;
+  })();
+}
+
+async function* closeOnResult(
+  messages: AsyncIterable<SDKMessage>,
+  close: () => void,
+): AsyncIterable<SDKMessage> {
+  try {
+    for await (const message of messages) {
+      yield message;
+      if (message.type === "result") close();
+    }
+  } finally {
+    close();
+  }
+}
+
+// Runs before each tool call executes (SDK PreToolUse hook), so files it is about to
+// change can still be read as they were
+export type BeforeToolUse = (
+  toolName: string,
+  input: unknown,
+  toolUseId?: string,
+) => void | Promise<void>;
+
 export type ClaudeStreamChunk = {
   type: "text" | "tool" | "system" | "done";
   content: string;
@@ -115,19 +193,27 @@ export type ClaudeStreamChunk = {
 export class ClaudeCodeAdapter implements Adapter {
   name = "claude-code";
   private config: Config;
+  // Passed as `resume` on the next query (set from -r/--select, cleared by reset)
   private currentSessionId?: string;
-  private isFirstQuery = true;
   private abortController?: AbortController;
   private client: ClaudeClient;
   private preflightChecked = false;
-
-  constructor(config: Config, client?: ClaudeClient) {
+  // Answers tool-permission prompts in "ask" mode (wired to Discord by the actor)
+  private permissionHandler?: CanUseTool;
+  // Project directory for this session (passed as `cwd`; defaults to the launch directory)
+  private workingDirectory?: string;
+  // Per-thread model chosen with !model (falls back to config.model)
+  private model?: string;
+  // Metadata of the last query's `result` message (cleared when a query starts)
+  private lastResult?: QueryResultMetadata;
+
+  // `resume: false` starts fresh even when config.sessionId is set (threads opened later)
+  constructor(config: Config, client?: ClaudeClient, options: { resume?: boolean } = {}) {
     this.config = config;
     this.client = client ?? createClaudeClient();
 
-    // Set first query flag to false for resume sessions
-    if (config.sessionId) {
-      this.isFirstQuery = false;
+    // Resume the given session on the first query
+    if (config.sessionId && options.resume !== false) {
       this.currentSessionId = config.sessionId;
     }
 
@@ -153,29 +239,29 @@ export class ClaudeCodeAdapter implements Adapter {
   async query(
     prompt: string,
     onProgress?: (message: ClaudeMessage) => Promise<void>,
+    beforeToolUse?: BeforeToolUse,
   ): Promise<string> {
-    const options: Options = {
-      maxTurns: this.config.maxTurns,
-      model: this.config.model,
-      permissionMode: (this.config.claudePermissionMode ??
-        "bypassPermissions") as Options["permissionMode"],
-      ...(this.isFirstQuery ? {} : { continue: true }),
-      ...(this.config.sessionId && this.isFirstQuery ? { resume: this.config.sessionId } : {}),
-    };
+    const options = this.buildQueryOptions(beforeToolUse);
 
-    this.abortController = new AbortController();
+    const controller = new AbortController();
+    this.abortController = controller;
+    this.lastResult = undefined;
 
     try {
       const response = this.client.query({
         prompt,
         options,
-        abortController: this.abortController,
+        abortController: controller,
       });
 
       let fullResponse = "";
       let toolResults = "";
 
       for await (const message of response) {
+        if (controller.signal.aborted) {
+          throw new Error(QUERY_ABORTED_MESSAGE);
+        }
+
         // Call progress callback if available
         if (onProgress) {
           await onProgress(message as ClaudeMessage);
@@ -198,13 +284,10 @@ export class ClaudeCodeAdapter implements Adapter {
           console.log(
             `[${this.name}] Session started: ${this.currentSessionId}`,
           );
-
-          if (this.isFirstQuery) {
-            this.isFirstQuery = false;
-          }
         } else if (message.type === "result") {
           // Update session ID from result message
           this.currentSessionId = message.session_id;
+          this.lastResult = parseResultMessage(message);
         } else if (message.type === "user") {
           // Process tool execution results
           const content = message.message.content;
@@ -231,8 +314,11 @@ export class ClaudeCodeAdapter implements Adapter {
 
       return fullResponse || "No response received.";
     } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error("Query was aborted");
+      if (
+        controller.signal.aborted ||
+        (error instanceof Error && error.name === "AbortError")
+      ) {
+        throw new Error(QUERY_ABORTED_MESSAGE);
       }
 
       const rawMsg = error instanceof Error ? error.message : String(error);
@@ -241,7 +327,7 @@ export class ClaudeCodeAdapter implements Adapter {
 
       let cwd = "unknown";
       try {
-        cwd = Deno.cwd();
+        cwd = this.workingDirectory ?? Deno.cwd();
       } catch { /* ignore */ }
 
       let firstPath = "unknown";
@@ -250,7 +336,7 @@ export class ClaudeCodeAdapter implements Adapter {
         firstPath = p.split(":")[0] ?? "unknown";
       } catch { /* ignore */ }
 
-      const rateLimited = analysis.kind === "USAGE_LIMIT";
+      const rateLimited = analysis.kind === "USAGE_LIMIT" || analysis.kind === "RATE_LIMIT";
       let cliPresence = "unknown";
       if (this.shouldRunPreflight(rawMsg) && !this.preflightChecked) {
         this.preflightChecked = true;
@@ -266,6 +352,7 @@ export class ClaudeCodeAdapter implements Adapter {
         hint: analysis.hint,
         kind: analysis.kind,
         retryAfterMs: analysis.retryAfterMs,
+        resetsAt: analysis.resetsAt,
         meta: {
           message: rawMsg,
           permissionMode,
@@ -278,34 +365,36 @@ export class ClaudeCodeAdapter implements Adapter {
 
       console.error(`[${this.name}] Claude query failed`, payload);
       throw new Error(JSON.stringify(payload));
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = undefined;
+      }
     }
   }
 
   // New: stream chunks API for MCP clients
   async *queryStream(prompt: string): AsyncIterable<ClaudeStreamChunk> {
-    const options: Options = {
-      maxTurns: this.config.maxTurns,
-      model: this.config.model,
-      permissionMode: (this.config.claudePermissionMode ??
-        "bypassPermissions") as Options["permissionMode"],
-      ...(this.isFirstQuery ? {} : { continue: true }),
-      ...(this.config.sessionId && this.isFirstQuery ? { resume: this.config.sessionId } : {}),
-    };
+    const options = this.buildQueryOptions();
 
-    this.abortController = new AbortController();
+    const controller = new AbortController();
+    this.abortController = controller;
+    this.lastResult = undefined;
 
     try {
       const response = this.client.query({
         prompt,
         options,
-        abortController: this.abortController,
+        abortController: controller,
       });
 
       for await (const message of response) {
+        if (controller.signal.aborted) {
+          throw new Error(QUERY_ABORTED_MESSAGE);
+        }
+
         // system init → session id 更新
         if (message.type === "system" && message.subtype === "init") {
           this.currentSessionId = message.session_id;
-          if (this.isFirstQuery) this.isFirstQuery = false;
           yield {
             type: "system",
             content: `session:${this.currentSessionId}`,
@@ -317,6 +406,7 @@ export class ClaudeCodeAdapter implements Adapter {
         // result → 最終 session id 更新（出力はしない）
         if (message.type === "result") {
           this.currentSessionId = message.session_id;
+          this.lastResult = parseResultMessage(message);
           continue;
         }
 
@@ -361,8 +451,11 @@ export class ClaudeCodeAdapter implements Adapter {
       // 完了通知
       yield { type: "done", content: "" };
     } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error("Query was aborted");
+      if (
+        controller.signal.aborted ||
+        (error instanceof Error && error.name === "AbortError")
+      ) {
+        throw new Error(QUERY_ABORTED_MESSAGE);
       }
 
       const rawMsg = error instanceof Error ? error.message : String(error);
@@ -371,7 +464,7 @@ export class ClaudeCodeAdapter implements Adapter {
 
       let cwd = "unknown";
       try {
-        cwd = Deno.cwd();
+        cwd = this.workingDirectory ?? Deno.cwd();
       } catch { /* ignore */ }
 
       let firstPath = "unknown";
@@ -380,7 +473,7 @@ export class ClaudeCodeAdapter implements Adapter {
         firstPath = p.split(":")[0] ?? "unknown";
       } catch { /* ignore */ }
 
-      const rateLimited = analysis.kind === "USAGE_LIMIT";
+      const rateLimited = analysis.kind === "USAGE_LIMIT" || analysis.kind === "RATE_LIMIT";
       let cliPresence = "unknown";
       if (this.shouldRunPreflight(rawMsg) && !this.preflightChecked) {
         this.preflightChecked = true;
@@ -396,6 +489,7 @@ export class ClaudeCodeAdapter implements Adapter {
         hint: analysis.hint,
         kind: analysis.kind,
         retryAfterMs: analysis.retryAfterMs,
+        resetsAt: analysis.resetsAt,
         meta: {
           message: rawMsg,
           permissionMode,
@@ -408,10 +502,68 @@ export class ClaudeCodeAdapter implements Adapter {
 
       console.error(`[${this.name}] Claude queryStream failed`, payload);
       throw new Error(JSON.stringify(payload));
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = undefined;
+      }
     }
   }
 
+  setPermissionHandler(handler?: CanUseTool): void {
+    this.permissionHandler = handler;
+  }
+
+  setWorkingDirectory(cwd?: string): void {
+    this.workingDirectory = cwd;
+  }
+
+  getWorkingDirectory(): string {
+    return this.workingDirectory ?? Deno.cwd();
+  }
+
+  setModel(model?: string): void {
+    this.model = model;
+  }
+
+  getModel(): string {
+    return this.model ?? this.config.model;
+  }
+
   // Internal utilities
+  private buildQueryOptions(beforeToolUse?: BeforeToolUse): Options {
+    const ask = this.config.claudePermissionMode === "ask";
+    const askPermissions = ask && this.permissionHandler;
+    return {
+      maxTurns: this.config.maxTurns,
+      model: this.getModel(),
+      // "ask" is ours: the SDK's "default" mode routes every prompt to canUseTool
+      permissionMode: ask
+        ? "default"
+        : (this.config.claudePermissionMode ?? "bypassPermissions") as Options["permissionMode"],
+      ...(askPermissions ? { canUseTool: this.permissionHandler } : {}),
+      ...(beforeToolUse
+        ? { hooks: { PreToolUse: [{ hooks: [this.preToolUseHook(beforeToolUse)] }] } }
+        : {}),
+      ...(this.workingDirectory ? { cwd: this.workingDirectory } : {}),
+      // Resume by ID: `continue` picks the newest session in the cwd, which another
+      // thread working in the same directory may own
+      ...(this.currentSessionId ? { resume: this.currentSessionId } : {}),
+    };
+  }
+
+  // The CLI waits for the hook's answer before it runs the tool
+  private preToolUseHook(beforeToolUse: BeforeToolUse): HookCallback {
+    return async (input, toolUseId) => {
+      if (input.hook_event_name !== "PreToolUse") return {};
+      try {
+        await beforeToolUse(input.tool_name, input.tool_input, toolUseId);
+      } catch (error) {
+        console.error(`[${this.name}] PreToolUse callback failed`, error);
+      }
+      return {};
+    };
+  }
+
   private shouldRunPreflight(message: string): boolean {
     const m = message.toLowerCase();
     return (
@@ -444,9 +596,8 @@ export class ClaudeCodeAdapter implements Adapter {
     }
   }
 
-  // Reset session
+  // Reset session (the next query starts a brand-new Claude session)
   resetSession(): void {
-    this.isFirstQuery = true;
     this.currentSessionId = undefined;
     console.log(`[${this.name}] Session reset`);
   }
@@ -456,12 +607,22 @@ export class ClaudeCodeAdapter implements Adapter {
     return this.currentSessionId;
   }
 
-  // Abort query
-  abort(): void {
-    if (this.abortController) {
+  getLastResult(): QueryResultMetadata | undefined {
+    return this.lastResult;
+  }
+
+  // Abort query (returns true when an in-flight query was cancelled)
+  abort(): boolean {
+    if (this.abortController && !this.abortController.signal.aborted) {
       this.abortController.abort();
       console.log(`[${this.name}] Query aborted`);
+      return true;
     }
+    return false;
+  }
+
+  isQueryRunning(): boolean {
+    return !!this.abortController && !this.abortController.signal.aborted;
   }
 
   // Adapter state
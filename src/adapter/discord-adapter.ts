@@ -1,28 +1,107 @@
-import { Client, GatewayIntentBits, Message, TextChannel, ThreadChannel } from "discord.js";
-import type { Attachment } from "discord.js";
+import {
+  ActionRowBuilder,
+  AttachmentBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  Client,
+  EmbedBuilder,
+  GatewayIntentBits,
+  Message,
+  SlashCommandBuilder,
+  TextChannel,
+  ThreadChannel,
+} from "discord.js";
+import type { Attachment, ChatInputCommandInteraction, Guild, Interaction } from "discord.js";
 import { ensureDir } from "@std/fs";
-import { extname, join } from "@std/path";
-import type { ActorMessage, Adapter, ImportedAttachment, MessageBus } from "../types.ts";
-import type { Config } from "../config.ts";
-import { t } from "../i18n.ts";
+import { basename, extname, join } from "@std/path";
+import { Buffer } from "node:buffer";
+import type {
+  ActorMessage,
+  Adapter,
+  BudgetExceededMessage,
+  CooldownStateMessage,
+  FileChange,
+  ImportedAttachment,
+  MessageBus,
+  PermissionRequestMessage,
+  PermissionResolvedMessage,
+  QueryResultMetadata,
+  RequestParkedMessage,
+  RequestQueuedMessage,
+  StreamCompletedMessage,
+  StreamToolUseMessage,
+  ThreadNoticeMessage,
+} from "../types.ts";
+import type { Config, ConfigReload } from "../config.ts";
+import { i18n, t } from "../i18n.ts";
 import { AuditLogger } from "../utils/audit-logger.ts";
 import { DiscordDiagnostics } from "../utils/discord-diagnostics.ts";
+import { type ConversationMessage, SessionCatalog } from "../utils/session-catalog.ts";
+import { parseShellRule, ShellExecutor } from "../utils/shell-executor.ts";
+import { WorkspaceRegistry } from "../utils/workspace-registry.ts";
+import { BACKEND_ACTORS, type BackendRouter } from "../utils/backend-router.ts";
+import type { QueueAction, QueuedRequest } from "../utils/request-queue.ts";
+import type { UsageReport } from "../utils/usage-budget.ts";
+import { formatToolUse } from "../utils/tool-formatters.ts";
 import {
   ConnectionStateManager,
   SessionPersistence,
   withRetry,
 } from "../utils/resilient-connection.ts";
 
-const ATTACHMENTS_ENABLED = (Deno.env.get("CCDISCORD_ATTACH_ENABLE") ?? "true").toLowerCase() !==
-  "false";
-const MAX_TEXT_BYTES = parseEnvNumber("CCDISCORD_ATTACH_MAX_TEXT_BYTES", 1_000_000);
-const PREVIEW_BYTES = parseEnvNumber("CCDISCORD_ATTACH_INLINE_PREVIEW_BYTES", 8_000);
-const MAX_IMAGE_BYTES = parseEnvNumber("CCDISCORD_ATTACH_MAX_IMAGE_BYTES", 5_000_000);
-const IMAGE_PREVIEW_WIDTH = parseEnvNumber("CCDISCORD_ATTACH_IMAGE_PREVIEW_WIDTH", 512);
-const MAX_IMAGE_PREVIEW_BYTES = parseEnvNumber("CCDISCORD_ATTACH_MAX_PREVIEW_BYTES", 80_000);
-const IMAGE_PREVIEW_ENABLED = (Deno.env.get("CCDISCORD_ATTACH_IMAGE_PREVIEW_ENABLE") ??
-  "true").toLowerCase() !== "false";
-const ATTACH_BASE_DIR = Deno.env.get("CCDISCORD_ATTACH_BASEDIR");
+// Button custom IDs are "perm:<allow|always|deny>:<requestId>"
+const PERMISSION_BUTTON_PREFIX = "perm";
+const PERMISSION_INPUT_PREVIEW_CHARS = 800;
+// Diffs up to this size are posted as a code block, larger ones as a .diff file
+const DIFF_INLINE_MAX_CHARS = 1500;
+// Discord accepts at most 10 attachments per message
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Where a command came from and how to answer it: a `!` message in a session
+// thread, or a slash command interaction
+interface CommandContext {
+  channel: TextChannel | ThreadChannel;
+  userId: string;
+  reply: (content: string | { embeds: EmbedBuilder[] }) => Promise<unknown>;
+}
+
+// Assistant state for one thread, as reported by "get-session-info"
+type SessionInfo = {
+  sessionId?: string;
+  running: boolean;
+  queued: number;
+  cwd?: string;
+  model?: string;
+  sessions?: number;
+  cooldownUntil?: string; // ISO timestamp the usage-limit cooldown ends
+};
+
+// Slash commands map onto the `!` commands handled by UserActor (/retry goes to the assistant)
+function slashCommandDefinitions(models: string[]) {
+  return [
+    new SlashCommandBuilder().setName("reset").setDescription(t("discord.slash.reset")),
+    new SlashCommandBuilder().setName("stop").setDescription(t("discord.slash.stop"))
+      .addBooleanOption((option) =>
+        option.setName("keep").setDescription(t("discord.slash.stopKeep"))
+      ),
+    new SlashCommandBuilder().setName("retry").setDescription(t("discord.slash.retry")),
+    new SlashCommandBuilder().setName("status").setDescription(t("discord.slash.status")),
+    new SlashCommandBuilder().setName("model").setDescription(t("discord.slash.model"))
+      .addStringOption((option) =>
+        option.setName("name").setDescription(t("discord.slash.modelName"))
+          // Discord allows at most 25 choices
+          .addChoices(...models.slice(0, 25).map((model) => ({ name: model, value: model })))
+      ),
+    new SlashCommandBuilder().setName("session").setDescription(t("discord.slash.session")),
+  ].map((command) => command.toJSON());
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
 const DISCORD_CDN_REGEX = /^https:\/\/(cdn|media)\.discord(app)?\.com\//i;
 const TEXT_EXTENSIONS = new Set([
   ".txt",
@@ -72,14 +151,6 @@ const IMAGE_EXTENSIONS = new Set([
   ".webp",
 ]);
 
-function parseEnvNumber(key: string, fallback: number): number {
-  const raw = Deno.env.get(key);
-  if (!raw) return fallback;
-  const parsed = Number(raw);
-  if (!Number.isFinite(parsed) || parsed < 0) return fallback;
-  return parsed;
-}
-
 function extensionOf(filename: string): string {
   const idx = filename.lastIndexOf(".");
   return idx >= 0 ? filename.slice(idx).toLowerCase() : "";
@@ -110,15 +181,15 @@ function sanitizeFilename(name: string): string {
   return replaced.slice(0, 120) || "attachment";
 }
 
-function resolveAttachmentDir(channelId: string): string {
-  const base = ATTACH_BASE_DIR
-    ? (ATTACH_BASE_DIR.startsWith("/") ? ATTACH_BASE_DIR : join(Deno.cwd(), ATTACH_BASE_DIR))
-    : join(Deno.cwd(), "attachments");
+// Attachments are stored under the thread's working directory so Claude can read them
+function resolveAttachmentDir(channelId: string, workDir: string, baseDir?: string): string {
+  const base = baseDir
+    ? (baseDir.startsWith("/") ? baseDir : join(workDir, baseDir))
+    : join(workDir, "attachments");
   return join(base, channelId);
 }
 
-function toDisplayPath(absolutePath: string): string {
-  const cwd = Deno.cwd();
+function toDisplayPath(absolutePath: string, cwd: string): string {
   if (absolutePath.startsWith(`${cwd}/`)) {
     return absolutePath.slice(cwd.length + 1);
   }
@@ -147,9 +218,10 @@ async function runCommand(command: string, args: string[]): Promise<boolean> {
   }
 }
 
-async function generateImagePreview(sourcePath: string): Promise<string | undefined> {
-  if (!IMAGE_PREVIEW_ENABLED) return undefined;
-
+async function generateImagePreview(
+  sourcePath: string,
+  limits: { width: number; maxBytes: number },
+): Promise<string | undefined> {
   const ext = extname(sourcePath);
   const previewPath = ext
     ? `${sourcePath.slice(0, sourcePath.length - ext.length)}.preview${ext}`
@@ -158,15 +230,15 @@ async function generateImagePreview(sourcePath: string): Promise<string | undefi
   const attempts: Array<{ cmd: string; args: string[] }> = [
     {
       cmd: "magick",
-      args: [sourcePath, "-resize", `${IMAGE_PREVIEW_WIDTH}x${IMAGE_PREVIEW_WIDTH}>`, previewPath],
+      args: [sourcePath, "-resize", `${limits.width}x${limits.width}>`, previewPath],
     },
     {
       cmd: "convert",
-      args: [sourcePath, "-resize", `${IMAGE_PREVIEW_WIDTH}x${IMAGE_PREVIEW_WIDTH}>`, previewPath],
+      args: [sourcePath, "-resize", `${limits.width}x${limits.width}>`, previewPath],
     },
     {
       cmd: "sips",
-      args: ["-Z", String(IMAGE_PREVIEW_WIDTH), sourcePath, "--out", previewPath],
+      args: ["-Z", String(limits.width), sourcePath, "--out", previewPath],
     },
   ];
 
@@ -177,7 +249,7 @@ async function generateImagePreview(sourcePath: string): Promise<string | undefi
     }
     try {
       const info = await Deno.stat(previewPath);
-      if (info.size > MAX_IMAGE_PREVIEW_BYTES) {
+      if (info.size > limits.maxBytes) {
         console.warn(
           `[attachments] Discarded preview at ${previewPath} (size ${info.size} bytes exceeds limit)`,
         );
@@ -195,18 +267,95 @@ async function generateImagePreview(sourcePath: string): Promise<string | undefi
   return undefined;
 }
 
+// Compact description of a tool call for the permission prompt
+export function formatToolInput(toolName: string, input: Record<string, unknown>): string {
+  const text = toolName === "Bash" && typeof input.command === "string"
+    ? input.command
+    : typeof input.file_path === "string" && Object.keys(input).length === 1
+    ? input.file_path
+    : JSON.stringify(input, null, 2);
+  const safe = text.replaceAll("```", "`\u200b``");
+  return safe.length > PERMISSION_INPUT_PREVIEW_CHARS
+    ? safe.slice(0, PERMISSION_INPUT_PREVIEW_CHARS) + "\n…"
+    : safe;
+}
+
+// "12 turns · 3m41s · $0.84" under a finished reply
+export function formatResultFooter(result: QueryResultMetadata): string {
+  const parts: string[] = [];
+  if (result.isError || (result.subtype && result.subtype !== "success")) {
+    parts.push(`⚠️ ${result.subtype ?? "error"}`);
+  }
+  if (result.numTurns !== undefined) parts.push(`${result.numTurns} ${t("discord.result.turns")}`);
+  if (result.durationMs !== undefined) {
+    const seconds = Math.round(result.durationMs / 1000);
+    const minutes = Math.floor(seconds / 60);
+    parts.push(minutes > 0 ? `${minutes}m${String(seconds % 60).padStart(2, "0")}s` : `${seconds}s`);
+  }
+  if (result.costUsd !== undefined) parts.push(`$${result.costUsd.toFixed(2)}`);
+  return parts.join(" · ");
+}
+
+// Render resumed-session history as spoiler-wrapped chunks (click to expand in Discord)
+export function formatConversationRecap(
+  messages: ConversationMessage[],
+  sessionId: string,
+  maxLength = 1900,
+): string[] {
+  // Entries without text (tool calls only) say nothing worth recapping
+  const turns = messages.filter((msg) => msg.content.trim());
+  if (turns.length === 0) return [];
+
+  const locale = i18n.getLocale() === "ja" ? "ja-JP" : "en-US";
+  const header = `## 📋 ${t("discord.resume.historyTitle")} (\`${sessionId.slice(0, 8)}\`, ${turns.length})`;
+  const entries = turns.map((msg) => {
+    const role = msg.type === "user" ? "👤 **User**" : "🤖 **Assistant**";
+    const time = msg.timestamp ? ` \`${new Date(msg.timestamp).toLocaleTimeString(locale)}\`` : "";
+    // "|" would close the spoiler early
+    const body = msg.content.replace(/\|/g, "¦").replace(/\n/g, "\n> ");
+    return `${role}${time}\n> ${body}`.slice(0, maxLength - header.length - 8);
+  });
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = header.length + 6;
+  for (const entry of entries) {
+    if (current.length > 0 && currentLength + entry.length + 2 > maxLength) {
+      chunks.push(`||${current.join("\n\n")}||`);
+      current = [];
+      currentLength = 6;
+    }
+    current.push(entry);
+    currentLength += entry.length + 2;
+  }
+  if (current.length > 0) {
+    chunks.push(`||${current.join("\n\n")}||`);
+  }
+
+  chunks[0] = `${header}\n${chunks[0]}`;
+  return chunks;
+}
+
 // Adapter that manages Discord connection
 export class DiscordAdapter implements Adapter {
   name = "discord";
   private client: Client;
   private config: Config;
   private messageBus: MessageBus;
+  // Main thread created on startup (bound to the resumed session, if any)
   private currentThread: ThreadChannel | null = null;
+  // Every thread with its own assistant session: channelId -> thread (includes currentThread)
+  private sessionThreads = new Map<string, ThreadChannel>();
   private isRunning = false;
+  private startedAt = new Date();
   private auditLogger: AuditLogger;
   private diagnostics?: DiscordDiagnostics;
   private connectionManager: ConnectionStateManager;
   private sessionPersistence?: SessionPersistence;
+  // Per-thread working directories (!cd / !project); loaded in start()
+  private workspaces?: WorkspaceRegistry;
+  // Per-thread assistant backend (!backend); without it everything goes to "assistant"
+  private router?: BackendRouter;
   // Streaming state: originalMessageId -> buffers and timer
   private streamStates: Map<
     string,
@@ -215,16 +364,24 @@ export class DiscordAdapter implements Adapter {
       toolBuffer: string;
       timer?: number;
       thinkingMessage?: Message;
+      lastRendered?: string;
       mode: "edit" | "append";
       channelId?: string;
     }
   > = new Map();
   private completedStreamIds: Set<string> = new Set();
+  // Threads that ran !reset and wait for the ID of their fresh session
+  private pendingSessionAnnouncements = new Set<string>();
+  // Pending permission prompts: requestId -> message with the buttons
+  private permissionPrompts = new Map<string, Message>();
+  // Usage-limit countdown per thread: channelId -> the message that is kept up to date
+  private cooldownMessages = new Map<string, Message>();
   private busListener: ((message: ActorMessage) => void) | null = null;
 
-  constructor(config: Config, messageBus: MessageBus) {
+  constructor(config: Config, messageBus: MessageBus, router?: BackendRouter) {
     this.config = config;
     this.messageBus = messageBus;
+    this.router = router;
     this.auditLogger = new AuditLogger();
     this.connectionManager = new ConnectionStateManager();
 
@@ -243,8 +400,38 @@ export class DiscordAdapter implements Adapter {
 
     this.setupEventHandlers();
 
-    // Subscribe to stream events
-    this.busListener = (msg: ActorMessage) => this.handleStreamEvent(msg);
+    // Subscribe to stream events and thread notices
+    this.busListener = (msg: ActorMessage) => {
+      if (msg.type === "thread-notice") {
+        void this.handleThreadNotice(msg as ThreadNoticeMessage);
+        return;
+      }
+      if (msg.type === "request-queued") {
+        void this.handleRequestQueued(msg as RequestQueuedMessage);
+        return;
+      }
+      if (msg.type === "request-parked") {
+        void this.handleRequestParked(msg as RequestParkedMessage);
+        return;
+      }
+      if (msg.type === "cooldown-state") {
+        void this.handleCooldownState(msg as CooldownStateMessage);
+        return;
+      }
+      if (msg.type === "budget-exceeded") {
+        void this.handleBudgetExceeded(msg as BudgetExceededMessage);
+        return;
+      }
+      if (msg.type === "permission-request") {
+        void this.handlePermissionRequest(msg as PermissionRequestMessage);
+        return;
+      }
+      if (msg.type === "permission-resolved") {
+        void this.handlePermissionResolved(msg as PermissionResolvedMessage);
+        return;
+      }
+      this.handleStreamEvent(msg);
+    };
     this.messageBus.addListener(this.busListener);
   }
 
@@ -261,8 +448,14 @@ export class DiscordAdapter implements Adapter {
         this.diagnostics = new DiscordDiagnostics(this.client);
       }
 
+      this.workspaces = await WorkspaceRegistry.load({
+        roots: this.config.projectRoots,
+        filePath: this.config.workdirsFile,
+      });
+
       await this.client.login(this.config.discordToken);
       this.isRunning = true;
+      this.startedAt = new Date();
       await this.auditLogger.logSessionStart(this.config.sessionId || "default", Deno.cwd());
     } catch (error) {
       console.error(`[${this.name}] ${t("discord.failedLogin")}`, error);
@@ -273,9 +466,10 @@ export class DiscordAdapter implements Adapter {
   async stop(): Promise<void> {
     console.log(`[${this.name}] ${t("discord.stopping")}`);
 
-    if (this.currentThread && this.currentThread.sendable) {
+    for (const thread of this.sessionThreads.values()) {
+      if (!thread.sendable) continue;
       try {
-        await this.currentThread.send(t("discord.goodbye"));
+        await thread.send(t("discord.goodbye"));
       } catch (error) {
         console.error(`[${this.name}] ${t("discord.failedGoodbye")}`, error);
       }
@@ -314,6 +508,7 @@ export class DiscordAdapter implements Adapter {
   private setupEventHandlers(): void {
     this.client.once("ready", () => this.handleReady());
     this.client.on("messageCreate", (message) => this.handleMessage(message));
+    this.client.on("interactionCreate", (interaction) => this.handleInteraction(interaction));
     this.client.on("error", (error) => this.handleError(error));
 
     // Gateway raw パケットの処理（invalid_session 対応）
@@ -350,6 +545,7 @@ export class DiscordAdapter implements Adapter {
     try {
       const channel = await this.client.channels.fetch(this.config.channelId);
       if (channel && channel.isTextBased() && !channel.isThread()) {
+        await this.registerSlashCommands((channel as TextChannel).guild);
         await this.createThread(channel as TextChannel);
       }
     } catch (error) {
@@ -357,51 +553,178 @@ export class DiscordAdapter implements Adapter {
     }
   }
 
+  // Guild commands are available immediately (global ones can take up to an hour)
+  private async registerSlashCommands(guild: Guild): Promise<void> {
+    try {
+      await guild.commands.set(slashCommandDefinitions(this.allowedModels()));
+      console.log(`[${this.name}] ${t("discord.slash.registered")} ${guild.name}`);
+    } catch (error) {
+      // Usually the bot was invited without the applications.commands scope; `!` commands still work
+      console.warn(`[${this.name}] ${t("discord.slash.registerFailed")}`, error);
+    }
+  }
+
   private async createThread(channel: TextChannel): Promise<void> {
-    const threadName = `Claude Session - ${new Date().toLocaleString("ja-JP")}`;
+    try {
+      this.currentThread = await this.openSessionThread(channel);
+
+      if (this.config.sessionId) {
+        await this.postResumeRecap(this.config.sessionId);
+      }
+
+      await this.messageBus.emit({
+        id: crypto.randomUUID(),
+        from: this.name,
+        to: "all",
+        type: "thread-ready",
+        payload: { channelId: this.currentThread.id },
+        timestamp: new Date(),
+      });
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedCreateThread")}`, error);
+    }
+  }
+
+  // Create a thread, post the session header and start accepting messages in it
+  private async openSessionThread(channel: TextChannel, title?: string): Promise<ThreadChannel> {
+    const threadName = title || `Claude Session - ${new Date().toLocaleString("ja-JP")}`;
+    const thread = await channel.threads.create({
+      name: threadName.slice(0, 100),
+      autoArchiveDuration: 1440, // 24 hours
+      reason: "Claude session thread",
+    });
+
+    const workDir = this.workDirFor(thread.id);
+    if (this.workspaces && workDir !== this.workspaces.getDefaultDir()) {
+      await this.applyWorkDir(thread.id, workDir);
+    }
+
+    // Send initial message
+    const initialMessage = this.createInitialMessage(workDir);
+    await withRetry(
+      () => thread.send(initialMessage),
+      "thread.send.initial",
+      { maxRetries: 3, initialDelay: 1000 },
+    );
+
+    this.sessionThreads.set(thread.id, thread);
+    console.log(`[${this.name}] ${t("discord.threadCreated")} ${threadName}`);
+    return thread;
+  }
+
+  private threadFor(channelId?: string): ThreadChannel | null {
+    return channelId ? this.sessionThreads.get(channelId) ?? null : this.currentThread;
+  }
+
+  private assistantFor(channelId?: string): string {
+    return this.router?.actorFor(channelId) ?? "assistant";
+  }
+
+  // Threads without their own binding use the bot channel's directory
+  private workDirFor(channelId: string): string {
+    return this.workspaces?.get(channelId, this.config.channelId) ?? Deno.cwd();
+  }
+
+  private async applyWorkDir(
+    channelId: string,
+    cwd: string,
+  ): Promise<{ changed?: boolean; previousSessionId?: string }> {
+    const result = await this.messageBus.send({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: this.assistantFor(channelId),
+      type: "set-workdir",
+      payload: { channelId, cwd },
+      timestamp: new Date(),
+    });
+    return result?.type === "workdir-changed"
+      ? result.payload as { changed?: boolean; previousSessionId?: string }
+      : {};
+  }
+
+  private async postResumeRecap(sessionId: string): Promise<void> {
+    const turns = this.config.resumeHistoryTurns ?? 6;
+    if (turns <= 0 || !this.currentThread) return;
 
     try {
-      this.currentThread = await channel.threads.create({
-        name: threadName,
-        autoArchiveDuration: 1440, // 24 hours
-        reason: "Claude session thread",
+      const messages = await new SessionCatalog().getHistory(sessionId, {
+        limit: turns,
+        textOnly: true,
+        maxChars: this.config.resumeHistoryMaxChars ?? 200,
       });
+      for (const chunk of formatConversationRecap(messages, sessionId)) {
+        await withRetry(
+          () => this.currentThread!.send(chunk),
+          "thread.send.resume-recap",
+          { maxRetries: 3, initialDelay: 1000 },
+        );
+      }
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.resume.failedRecap")}`, error);
+    }
+  }
+
+  // Posts the outcome of a config file reload to the session thread
+  async announceConfigReload(result: ConfigReload): Promise<void> {
+    const lines: string[] = [];
+    if (!result.ok) {
+      lines.push(t("discord.config.invalid"), ...result.errors.map((error) => `- ${error}`));
+    } else {
+      if (result.applied.length > 0) {
+        lines.push(`${t("discord.config.reloaded")} ${result.applied.map((key) => `\`${key}\``).join(", ")}`);
+      }
+      if (result.rejected.length > 0) {
+        lines.push(`${t("discord.config.restartRequired")} ${result.rejected.map((key) => `\`${key}\``).join(", ")}`);
+      }
+    }
+    if (lines.length === 0) return;
 
-      // Send initial message
-      const initialMessage = this.createInitialMessage();
+    await this.auditLogger.logConfigReload(
+      result.ok ? { applied: result.applied, rejected: result.rejected } : { errors: result.errors },
+    );
+    if (!this.currentThread) return;
+    try {
       await withRetry(
-        () => this.currentThread!.send(initialMessage),
-        "thread.send.initial",
+        () => this.currentThread!.send(lines.join("\n")),
+        "thread.send.config-reload",
         { maxRetries: 3, initialDelay: 1000 },
       );
-
-      console.log(`[${this.name}] ${t("discord.threadCreated")} ${threadName}`);
     } catch (error) {
-      console.error(`[${this.name}] ${t("discord.failedCreateThread")}`, error);
+      console.error(`[${this.name}] Failed to announce config reload:`, error);
     }
   }
 
-  private createInitialMessage(): string {
+  private createInitialMessage(workDir: string): string {
     return `## ${t("discord.sessionInfo.title")}
 
 **${t("discord.sessionInfo.startTime")}**: ${new Date().toISOString()}
-**${t("discord.sessionInfo.workDir")}**: \`${Deno.cwd()}\`
+**${t("discord.sessionInfo.workDir")}**: \`${workDir}\`
 **${t("discord.sessionInfo.mode")}**: ${this.config.debugMode ? "Debug" : "Production"}
 ${this.config.neverSleep ? `**${t("discord.sessionInfo.neverSleepEnabled")}**` : ""}
 
 ---
 
 ${t("discord.instructions.header")}
+- \`!new [title]\`: ${t("discord.instructions.newSession")}
 - \`!reset\` or \`!clear\`: ${t("discord.instructions.reset")}
 - \`!stop\`: ${t("discord.instructions.stop")}
+- \`!stop keep\`: ${t("discord.instructions.stopKeep")}
+- \`!tasks\`: ${t("discord.instructions.tasks")}
+- \`!queue\`: ${t("discord.instructions.queue")}
+- \`!status\` / \`!session\` / \`!model\`: ${t("discord.instructions.status")}
+- \`!usage\`: ${t("discord.instructions.usage")}
+- \`!backend [claude|gemini|debug]\`: ${t("discord.instructions.backend")}
+- \`!cd [path]\`: ${t("discord.instructions.workdir")}
+- \`!project [name]\`: ${t("discord.instructions.project")}
 - \`!exit\`: ${t("discord.instructions.exit")}
-- \`!<command>\`: ${t("discord.instructions.shellCommand")}
+- \`!!<command>\`: ${t("discord.instructions.shellCommand")}
 - \`!retry\`: 直前のリクエストを再実行します（使用制限解除後に便利です）
+- ${t("discord.instructions.slashCommands")}
 - ${t("discord.instructions.normalMessage")}`;
   }
 
   private async collectAttachments(message: Message): Promise<ImportedAttachment[]> {
-    if (!ATTACHMENTS_ENABLED) return [];
+    if (!this.getAttachmentConfig().enabled) return [];
     const raw = message.attachments;
     if (!raw || raw.size === 0) return [];
 
@@ -438,8 +761,9 @@ ${t("discord.instructions.header")}
       return null;
     }
 
+    const cfg = this.getAttachmentConfig();
     const sizeHint = typeof attachment.size === "number" ? attachment.size : 0;
-    const sizeLimit = isText ? MAX_TEXT_BYTES : MAX_IMAGE_BYTES;
+    const sizeLimit = isText ? cfg.maxTextBytes : cfg.maxImageBytes;
     if (sizeHint && sizeHint > sizeLimit) {
       console.warn(
         `[${this.name}] Skipped attachment ${filename} (${sizeHint} bytes), exceeds limit ${sizeLimit}`,
@@ -447,7 +771,8 @@ ${t("discord.instructions.header")}
       return null;
     }
 
-    const dir = resolveAttachmentDir(channelId);
+    const workDir = this.workDirFor(channelId);
+    const dir = resolveAttachmentDir(channelId, workDir, cfg.baseDir);
     await ensureDir(dir);
     const storedPath = join(dir, `${Date.now()}_${sanitized}`);
 
@@ -481,10 +806,10 @@ ${t("discord.instructions.header")}
       file.close();
     }
 
-    const displayPath = toDisplayPath(storedPath);
+    const displayPath = toDisplayPath(storedPath, workDir);
 
     if (isText) {
-      const merged = new Uint8Array(Math.min(totalBytes, PREVIEW_BYTES));
+      const merged = new Uint8Array(Math.min(totalBytes, cfg.inlinePreviewBytes));
       let offset = 0;
       for (const chunk of textChunks) {
         if (offset >= merged.byteLength) break;
@@ -504,11 +829,14 @@ ${t("discord.instructions.header")}
     }
 
     let previewPath: string | undefined;
-    if (IMAGE_PREVIEW_ENABLED) {
+    if (cfg.imagePreviewEnabled) {
       try {
-        const generated = await generateImagePreview(storedPath);
+        const generated = await generateImagePreview(storedPath, {
+          width: cfg.imagePreviewWidth,
+          maxBytes: cfg.maxPreviewBytes,
+        });
         if (generated) {
-          previewPath = toDisplayPath(generated);
+          previewPath = toDisplayPath(generated, workDir);
         }
       } catch (error) {
         console.warn(`[${this.name}] Image preview generation failed for ${filename}`, error);
@@ -529,8 +857,8 @@ ${t("discord.instructions.header")}
     // Ignore own messages and messages from other bots
     if (message.author.bot) return;
 
-    // Ignore messages outside current thread
-    if (!this.currentThread || message.channel.id !== this.currentThread.id) {
+    // Ignore messages outside the session threads
+    if (!this.sessionThreads.has(message.channel.id)) {
       return;
     }
 
@@ -554,7 +882,7 @@ ${t("discord.instructions.header")}
       await this.messageBus.send({
         id: message.id,
         from: "discord",
-        to: "assistant",
+        to: this.assistantFor(message.channel.id),
         type: "discord-command",
         payload: {
           text: content,
@@ -600,6 +928,7 @@ ${t("discord.instructions.header")}
       payload: {
         text: content,
         authorId: message.author.id,
+        authorName: message.author.username,
         channelId: message.channel.id,
         attachments,
       },
@@ -615,18 +944,30 @@ ${t("discord.instructions.header")}
     }
   }
 
+  private messageContext(message: Message): CommandContext {
+    const channel = message.channel as TextChannel | ThreadChannel;
+    return {
+      channel,
+      userId: message.author.id,
+      reply: (content) => channel.send(content),
+    };
+  }
+
   private async handleActorResponse(
     originalMessage: Message,
     response: ActorMessage,
   ): Promise<void> {
     // Handle system commands
     if (response.to === "system") {
-      await this.handleSystemCommand(originalMessage, response);
+      await this.handleSystemCommand(this.messageContext(originalMessage), response);
       return;
     }
 
     // Forward regular messages to assistant
-    if (response.to === "assistant" || response.to === "auto-responder") {
+    if (
+      response.to === "assistant" || response.to === "auto-responder" ||
+      this.router?.isBackendActor(response.to)
+    ) {
       const assistantResponse = await this.messageBus.send(response);
 
       if (assistantResponse) {
@@ -664,40 +1005,185 @@ ${t("discord.instructions.header")}
           ) {
             return;
           }
-          await this.sendLongMessage(originalMessage, text);
+          const { sessionId, result } = assistantResponse.payload as {
+            sessionId?: string;
+            result?: QueryResultMetadata;
+          };
+          const footer = result ? formatResultFooter(result) : "";
+          await this.sendLongMessage(
+            this.messageContext(originalMessage),
+            footer ? `${text}\n-# ${footer}` : text,
+          );
+          await this.announceNewSession(originalMessage.channel.id, sessionId);
+          if (result) {
+            await this.auditLogger.logQueryResult(originalMessage.channel.id, sessionId, result);
+          }
         }
       }
     }
   }
 
   private async handleSystemCommand(
-    message: Message,
+    context: CommandContext,
     response: ActorMessage,
   ): Promise<void> {
-    const channel = message.channel as TextChannel | ThreadChannel;
+    const { channel } = context;
 
     await this.auditLogger.logBotResponse(channel.id, response.type);
 
     switch (response.type) {
-      case "reset-session":
+      case "reset-session": {
+        const result = await this.messageBus.send({
+          id: crypto.randomUUID(),
+          from: this.name,
+          to: this.assistantFor(channel.id),
+          type: "reset-session",
+          payload: { channelId: channel.id },
+          timestamp: new Date(),
+        });
+
+        const lines = [t("discord.commands.resetComplete")];
+        if (result?.type === "session-reset") {
+          const { previousSessionId, sessionId } = result.payload as {
+            previousSessionId?: string;
+            sessionId?: string;
+          };
+          lines.push(
+            `${t("discord.commands.previousSession")} \`${previousSessionId ?? "-"}\``,
+          );
+          if (sessionId) {
+            lines.push(`${t("discord.commands.newSession")} \`${sessionId}\``);
+          } else {
+            // Claude assigns the new session ID on the next query
+            lines.push(t("discord.commands.newSessionPending"));
+            this.pendingSessionAnnouncements.add(channel.id);
+          }
+        }
+
         await withRetry(
-          () => channel.send(t("discord.commands.resetComplete")),
+          () => context.reply(lines.join("\n")),
           "channel.send.reset",
           { maxRetries: 3, initialDelay: 1000 },
         );
         break;
+      }
+
+      case "stop-tasks": {
+        const { clearQueue } = (response.payload ?? {}) as { clearQueue?: boolean };
+        const result = await this.messageBus.send({
+          id: crypto.randomUUID(),
+          from: this.name,
+          to: this.assistantFor(channel.id),
+          type: "stop-tasks",
+          payload: { clearQueue: clearQueue ?? true, channelId: channel.id },
+          timestamp: new Date(),
+        });
+
+        const lines: string[] = [];
+        if (result?.type === "tasks-stopped") {
+          const { aborted, dropped, remaining } = result.payload as {
+            aborted: boolean;
+            dropped: number;
+            remaining: number;
+          };
+          lines.push(
+            aborted ? t("discord.commands.stopComplete") : t("discord.commands.stopNothingRunning"),
+          );
+          if (dropped > 0) {
+            lines.push(`${t("discord.commands.stopQueueCleared")} ${dropped}`);
+          }
+          if (remaining > 0) {
+            lines.push(`${t("discord.commands.stopQueueKept")} ${remaining}`);
+          }
+        } else {
+          lines.push(t("discord.commands.stopComplete"));
+        }
 
-      case "stop-tasks":
         await withRetry(
-          () => channel.send(t("discord.commands.stopComplete")),
+          () => context.reply(lines.join("\n")),
           "channel.send.stop",
           { maxRetries: 3, initialDelay: 1000 },
         );
         break;
+      }
+
+      case "new-session":
+        await this.handleNewSession(
+          context,
+          (response.payload as { title?: string })?.title,
+        );
+        break;
+
+      case "manage-tasks":
+        await this.handleManageTasks(
+          context,
+          response.payload as { action: string; args: string[] },
+        );
+        break;
+
+      case "manage-queue":
+        await this.handleManageQueue(
+          context,
+          response.payload as { action: QueueAction; position?: number },
+        );
+        break;
+
+      case "show-model": {
+        const [model] = (response.payload as { args?: string[] })?.args ?? [];
+        if (model) {
+          await this.handleSetModel(context, model);
+          break;
+        }
+        const info = await this.requestSessionInfo(channel.id);
+        const lines = [
+          `${t("discord.status.model")}: \`${info?.model ?? this.config.model}\``,
+          `${t("discord.model.allowed")} ${
+            this.allowedModels(channel.id).map((m) => `\`${m}\``).join(", ")
+          }`,
+        ];
+        await withRetry(
+          () => context.reply(lines.join("\n")),
+          "channel.send.model",
+          { maxRetries: 3, initialDelay: 1000 },
+        );
+        break;
+      }
+
+      case "show-usage":
+        await this.handleShowUsage(context);
+        break;
+
+      case "show-status":
+      case "show-session": {
+        const info = await this.requestSessionInfo(channel.id);
+        const reply = response.type === "show-status"
+          ? { embeds: [this.buildStatusEmbed(channel.id, info)] }
+          : `${t("discord.status.session")}: ${this.formatSessionId(info)}`;
+        await withRetry(
+          () => context.reply(reply),
+          "channel.send.status",
+          { maxRetries: 3, initialDelay: 1000 },
+        );
+        break;
+      }
+
+      case "switch-backend":
+        await this.handleSwitchBackend(
+          context,
+          (response.payload as { backend?: string })?.backend,
+        );
+        break;
+
+      case "change-workdir":
+        await this.handleChangeWorkdir(
+          context,
+          response.payload as { kind: "cd" | "project"; target?: string },
+        );
+        break;
 
       case "shutdown":
         await withRetry(
-          () => channel.send(t("discord.commands.exitMessage")),
+          () => context.reply(t("discord.commands.exitMessage")),
           "channel.send.exit",
           { maxRetries: 2, initialDelay: 500 },
         );
@@ -705,35 +1191,830 @@ ${t("discord.instructions.header")}
         Deno.exit(0);
 
       case "execute-command":
-        // SECURITY WARNING: Shell command execution is disabled for security reasons.
-        // If you need this functionality, implement it with extreme caution:
-        // - Use a whitelist of allowed commands
-        // - Validate and sanitize all inputs
-        // - Run commands in a sandboxed environment
-        // - Log all command executions for audit purposes
+        await this.handleExecuteCommand(
+          context,
+          (response.payload as { command?: string })?.command ?? "",
+        );
+        break;
+    }
+  }
+
+  private allowedModels(channelId?: string): string[] {
+    const backend = this.router?.backendFor(channelId) ?? (this.config.useGemini ? "gemini" : "claude");
+    if (backend === "debug") return [];
+    return backend === "gemini"
+      ? this.config.geminiAllowedModels ?? []
+      : this.config.allowedModels ?? [this.config.model];
+  }
+
+  // `!backend <name>`: later messages and commands in this thread go to that backend's actor
+  private async handleSwitchBackend(context: CommandContext, backend?: string): Promise<void> {
+    const { channel } = context;
+    const available = this.router?.getAvailable() ?? [];
+    const current = this.router?.backendFor(channel.id);
+    const availableText = `${t("discord.backend.available")} ${
+      available.map((name) => `\`${name}\``).join(", ")
+    }`;
+    let reply: string;
+
+    if (!this.router || !backend) {
+      reply = `${t("discord.backend.current")} \`${current ?? "assistant"}\`\n${availableText}`;
+    } else if (!this.router.set(channel.id, backend)) {
+      reply = `${t("discord.backend.rejected")} ${backend}\n${availableText}`;
+    } else {
+      await this.auditLogger.logBackendChange(context.userId, channel.id, backend, current ?? "");
+      // The new backend has not seen this thread yet: carry over its working directory
+      const workDir = this.workDirFor(channel.id);
+      if (this.workspaces && workDir !== this.workspaces.getDefaultDir()) {
+        await this.applyWorkDir(channel.id, workDir);
+      }
+      reply = `${t("discord.backend.changed")} \`${current}\` → \`${backend}\``;
+    }
+
+    await withRetry(
+      () => context.reply(reply),
+      "channel.send.backend",
+      { maxRetries: 3, initialDelay: 1000 },
+    );
+  }
+
+  // `!model <name>`: the assistant validates the name against its allow-list
+  private async handleSetModel(context: CommandContext, model: string): Promise<void> {
+    const result = await this.messageBus.send({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: this.assistantFor(context.channel.id),
+      type: "set-model",
+      payload: { channelId: context.channel.id, model },
+      timestamp: new Date(),
+    });
+
+    let reply: string;
+    if (result?.type === "model-changed") {
+      const { previousModel } = result.payload as { previousModel: string };
+      await this.auditLogger.logModelChange(context.userId, context.channel.id, model, previousModel);
+      reply = `${t("discord.model.changed")} \`${previousModel}\` → \`${model}\``;
+    } else {
+      const { error } = (result?.payload ?? {}) as { error?: string };
+      reply = `${t("discord.model.rejected")} ${error ?? model}\n` +
+        `${t("discord.model.allowed")} ${
+          this.allowedModels(context.channel.id).map((m) => `\`${m}\``).join(", ")
+        }`;
+    }
+
+    await withRetry(
+      () => context.reply(reply),
+      "channel.send.model",
+      { maxRetries: 3, initialDelay: 1000 },
+    );
+  }
+
+  private async requestSessionInfo(channelId: string): Promise<SessionInfo | null> {
+    const result = await this.messageBus.send({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: this.assistantFor(channelId),
+      type: "get-session-info",
+      payload: { channelId },
+      timestamp: new Date(),
+    });
+    return result?.type === "session-info" ? result.payload as SessionInfo : null;
+  }
+
+  // Everything `!status` knows about the bot, this thread's session and the gateway
+  private buildStatusEmbed(channelId: string, info: SessionInfo | null): EmbedBuilder {
+    const streams = [...this.streamStates.values()];
+    const threadStreams = streams.filter((st) => st.channelId === channelId).length;
+    const connection = this.diagnostics?.getConnectionStatus() ??
+      `Status: ${this.client.ws.status}, Ping: ${this.client.ws.ping}ms`;
+    const activity = `${info?.running ? t("discord.status.running") : t("discord.status.idle")} ` +
+      `(${t("discord.status.queued")}: ${info?.queued ?? 0})`;
+    const cooldown = info?.cooldownUntil
+      ? `<t:${Math.floor(new Date(info.cooldownUntil).getTime() / 1000)}:R>`
+      : t("discord.status.noCooldown");
+
+    return new EmbedBuilder()
+      .setTitle(t("discord.status.title"))
+      .setColor(info?.running ? 0xf1c40f : 0x2ecc71)
+      .addFields(
+        {
+          name: t("discord.sessionInfo.mode"),
+          value: this.config.debugMode ? "Debug" : "Production",
+          inline: true,
+        },
+        {
+          name: t("discord.status.uptime"),
+          value: formatDuration(Date.now() - this.startedAt.getTime()),
+          inline: true,
+        },
+        { name: t("discord.status.connection"), value: connection, inline: true },
+        { name: t("discord.status.session"), value: this.formatSessionId(info) },
+        {
+          name: t("discord.status.backend"),
+          value: this.router?.backendFor(channelId) ?? "assistant",
+          inline: true,
+        },
+        { name: t("discord.status.activity"), value: activity, inline: true },
+        {
+          name: t("discord.status.streams"),
+          value: `${threadStreams} / ${streams.length}`,
+          inline: true,
+        },
+        { name: t("discord.status.cooldown"), value: cooldown, inline: true },
+        {
+          name: t("discord.status.threads"),
+          value: String(this.sessionThreads.size),
+          inline: true,
+        },
+        {
+          name: t("discord.status.model"),
+          value: `\`${info?.model ?? this.config.model}\``,
+          inline: true,
+        },
+        {
+          name: t("discord.status.neverSleep"),
+          value: this.config.neverSleep ? t("discord.status.enabled") : t("discord.status.disabled"),
+          inline: true,
+        },
+        {
+          name: t("discord.sessionInfo.workDir"),
+          value: `\`${info?.cwd ?? this.workDirFor(channelId)}\``,
+        },
+      )
+      .setTimestamp(new Date());
+  }
+
+  private formatSessionId(info: SessionInfo | null): string {
+    return info?.sessionId ? `\`${info.sessionId}\`` : t("discord.status.noSession");
+  }
+
+  // `!new`: open another thread in the bot channel, bound to a fresh assistant session
+  private async handleNewSession(
+    context: CommandContext,
+    title?: string,
+  ): Promise<void> {
+    let reply: string;
+    try {
+      const parent = await this.client.channels.fetch(this.config.channelId);
+      if (!parent || !parent.isTextBased() || parent.isThread()) {
+        throw new Error(`Channel ${this.config.channelId} cannot host threads`);
+      }
+      const thread = await this.openSessionThread(parent as TextChannel, title);
+      await this.messageBus.send({
+        id: crypto.randomUUID(),
+        from: this.name,
+        to: this.assistantFor(thread.id),
+        type: "open-session",
+        payload: { channelId: thread.id },
+        timestamp: new Date(),
+      });
+      reply = `${t("discord.commands.newThreadCreated")} <#${thread.id}>`;
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedCreateThread")}`, error);
+      reply = `${t("discord.failedCreateThread")} ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+    }
+
+    await withRetry(
+      () => context.reply(reply),
+      "channel.send.new-session",
+      { maxRetries: 3, initialDelay: 1000 },
+    );
+  }
+
+  // Runs `!!<command>` through the allow-listed executor; everything else is refused and audited
+  private async handleExecuteCommand(context: CommandContext, command: string): Promise<void> {
+    const { channel, userId } = context;
+    const reply = (text: string) =>
+      withRetry(() => context.reply(text), "channel.send.shell", {
+        maxRetries: 2,
+        initialDelay: 500,
+      });
+
+    // Shell execution is opt-in and limited to the allow-list
+    if (!this.config.shellEnabled) {
+      await this.auditLogger.logCommandBlocked(userId, channel.id, command, "disabled");
+      await reply(t("discord.shell.disabled"));
+      return;
+    }
+
+    const shell = new ShellExecutor({
+      rules: (this.config.shellAllowedCommands ?? []).map(parseShellRule),
+      workDir: this.workDirFor(channel.id),
+      timeoutMs: this.config.shellTimeoutMs,
+      maxOutputChars: this.config.shellMaxOutputChars,
+    });
+    const check = await shell.check(command);
+    if (!check.allowed) {
+      await this.auditLogger.logCommandBlocked(userId, channel.id, command, check.reason);
+      await reply(`${t("discord.shell.blocked")} ${check.reason}`);
+      return;
+    }
+
+    try {
+      await reply(`${t("discord.commands.executing")} \`${command}\``);
+      const result = await shell.execute(command);
+      await this.auditLogger.logCommandExecuted(
+        userId,
+        channel.id,
+        command,
+        result.code,
+        result.timedOut,
+      );
+
+      await this.sendLongMessage(context, result.output || t("discord.shell.noOutput"), {
+        codeBlock: !!result.output,
+      });
+      if (result.truncated) await reply(t("discord.shell.truncated"));
+      if (result.timedOut) {
+        await reply(t("discord.shell.timedOut"));
+      } else if (result.code !== 0) {
+        await reply(`${t("discord.shell.exitCode")} ${result.code}`);
+      }
+    } catch (error) {
+      console.error(`[${this.name}] Shell command failed`, error);
+      const reason = error instanceof Deno.errors.NotFound
+        ? t("discord.shell.notFound")
+        : error instanceof Error
+        ? error.message
+        : String(error);
+      await reply(`${t("discord.shell.failed")} ${reason}`);
+    }
+  }
+
+  // `!cd <path>` resolves against the thread's current directory, `!project <name>` against
+  // the registered projects; both must stay inside the allowed roots
+  private async handleChangeWorkdir(
+    context: CommandContext,
+    { kind, target }: { kind: "cd" | "project"; target?: string },
+  ): Promise<void> {
+    const { channel } = context;
+    const current = this.workDirFor(channel.id);
+    let reply: string;
+
+    if (!this.workspaces) {
+      reply = `${t("discord.workdir.current")} \`${current}\``;
+    } else if (!target) {
+      reply = kind === "project"
+        ? this.formatProjectList(this.workspaces, current)
+        : `${t("discord.workdir.current")} \`${current}\``;
+    } else {
+      const resolved = kind === "project"
+        ? await this.workspaces.resolveProject(target)
+        : await this.workspaces.resolve(target, current);
+
+      if (!resolved.ok) {
+        reply = `${t("discord.workdir.rejected")} ${resolved.reason}`;
+      } else {
+        this.workspaces.bind(channel.id, resolved.path);
+        const { previousSessionId } = await this.applyWorkDir(channel.id, resolved.path);
+        await this.auditLogger.logWorkdirChange(
+          context.userId,
+          channel.id,
+          resolved.path,
+          current,
+        );
+        reply = `${t("discord.workdir.changed")} \`${resolved.path}\``;
+        if (previousSessionId) {
+          reply += `\n${t("discord.workdir.sessionReset")} \`${previousSessionId}\``;
+        }
+      }
+    }
+
+    await withRetry(
+      () => context.reply(reply),
+      "channel.send.workdir",
+      { maxRetries: 3, initialDelay: 1000 },
+    );
+  }
+
+  private formatProjectList(workspaces: WorkspaceRegistry, current: string): string {
+    const projects = workspaces.listProjects();
+    const lines = [`**${t("discord.workdir.projects")}**`];
+    if (projects.length === 0) {
+      lines.push(t("discord.workdir.noProjects"));
+    } else {
+      for (const project of projects) {
+        const marker = project.path === current ? " ◀" : "";
+        lines.push(`- \`${project.name}\`: \`${project.path}\`${marker}`);
+      }
+    }
+    lines.push(`${t("discord.workdir.roots")} ${workspaces.getRoots().map((root) => `\`${root}\``).join(", ")}`);
+    lines.push(`${t("discord.workdir.current")} \`${current}\``);
+    return lines.join("\n");
+  }
+
+  // `!tasks` is served by AutoResponderActor, which owns TODO.md
+  private async handleManageTasks(
+    context: CommandContext,
+    { action, args }: { action: string; args: string[] },
+  ): Promise<void> {
+    const [first, second] = args.map((arg) => Number.parseInt(arg, 10));
+    const request = action === "move"
+      ? { type: "reorder-tasks", payload: { from: first, to: second } }
+      : action === "done"
+      ? { type: "task-completed", payload: { index: first } }
+      : action === "list"
+      ? { type: "list-tasks", payload: {} }
+      : null;
+
+    let reply: string;
+    if (!request) {
+      reply = t("discord.tasks.usage");
+    } else {
+      const result = await this.messageBus.send({
+        id: crypto.randomUUID(),
+        from: this.name,
+        to: "auto-responder",
+        type: request.type,
+        payload: request.payload,
+        timestamp: new Date(),
+      });
+
+      if (!result) {
+        reply = t("discord.tasks.disabled");
+      } else if (result.type === "error") {
+        const { error } = result.payload as { error: string };
+        reply = `${t("discord.tasks.failed")} ${error}\n${t("discord.tasks.usage")}`;
+      } else if (result.type === "task-marked-done") {
+        const { task, updated } = result.payload as { task: string; updated: boolean };
+        reply = updated
+          ? `${t("discord.tasks.completed")} ${task}`
+          : `${t("discord.tasks.failed")} ${task}`;
+      } else {
+        reply = this.formatTaskList(
+          result.payload as {
+            path: string;
+            found: boolean;
+            tasks: { index: number; text: string; section?: string }[];
+          },
+        );
+      }
+    }
+
+    await withRetry(
+      () => context.reply(reply),
+      "channel.send.tasks",
+      { maxRetries: 3, initialDelay: 1000 },
+    );
+  }
+
+  private formatTaskList(
+    list: { path: string; found: boolean; tasks: { index: number; text: string }[] },
+  ): string {
+    if (!list.found) return `${t("discord.tasks.notFound")} \`${list.path}\``;
+    if (list.tasks.length === 0) return t("discord.tasks.empty");
+    const lines = list.tasks.map((task) => `${task.index}. ${task.text}`);
+    const text = `**${t("discord.tasks.title")}**\n${lines.join("\n")}`;
+    return text.length > 1900 ? text.slice(0, 1900) + "\n…" : text;
+  }
+
+  // `!queue` / `!cancel <n>` / `!priority <n>`: the assistant owns the thread's queue
+  private async handleManageQueue(
+    context: CommandContext,
+    { action, position }: { action: QueueAction; position?: number },
+  ): Promise<void> {
+    const result = await this.messageBus.send({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: this.assistantFor(context.channel.id),
+      type: "manage-queue",
+      payload: { action, position, channelId: context.channel.id },
+      timestamp: new Date(),
+    });
+
+    let reply: string;
+    if (result?.type === "queue-state") {
+      const state = result.payload as {
+        running: boolean;
+        items: QueuedRequest[];
+        target?: QueuedRequest;
+      };
+      const lines: string[] = [];
+      if (state.target) {
+        const done = action === "cancel" ? t("discord.queue.cancelled") : t("discord.queue.prioritized");
+        lines.push(`${done} ${state.target.position}. ${state.target.preview}`);
+      }
+      lines.push(this.formatQueue(state.items));
+      reply = lines.join("\n");
+    } else if (result?.type === "error") {
+      reply = `${t("discord.queue.invalidPosition")} ${position ?? "-"}\n${t("discord.queue.usage")}`;
+    } else {
+      reply = t("discord.queue.unavailable");
+    }
+
+    await withRetry(
+      () => context.reply(reply),
+      "channel.send.queue",
+      { maxRetries: 3, initialDelay: 1000 },
+    );
+  }
+
+  private formatQueue(items: QueuedRequest[]): string {
+    if (items.length === 0) return t("discord.queue.empty");
+    const lines = items.map((item) =>
+      `${item.position}. **${item.authorName ?? item.authorId ?? "?"}** — ${item.preview}`
+    );
+    const text = `**${t("discord.queue.title")}** (${items.length})\n${lines.join("\n")}`;
+    return text.length > 1900 ? text.slice(0, 1900) + "\n…" : text;
+  }
+
+  // Tells the author their prompt is waiting behind the thread's running request
+  private async handleRequestQueued(message: RequestQueuedMessage): Promise<void> {
+    const { channelId, originalMessageId, position } = message.payload;
+    const thread = this.threadFor(channelId);
+    if (!thread) return;
+    const text = `${t("discord.queue.queued")} ${position}`;
+    try {
+      const original = await thread.messages.fetch(originalMessageId).catch(() => null);
+      await withRetry(
+        () => original ? original.reply(text) : thread.send(text),
+        "thread.send.queued",
+        { maxRetries: 2, initialDelay: 500 },
+      );
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedSendMessage")}`, error);
+    }
+  }
+
+  // `!usage`: spend is tracked by the Claude actor whichever backend the thread uses
+  private async handleShowUsage(context: CommandContext): Promise<void> {
+    const result = await this.messageBus.send({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: BACKEND_ACTORS.claude,
+      type: "get-usage",
+      payload: { userId: context.userId, channelId: context.channel.id },
+      timestamp: new Date(),
+    });
+    const reply = result?.type === "usage-report"
+      ? this.formatUsage(result.payload as UsageReport)
+      : t("discord.usage.unavailable");
+    await withRetry(
+      () => context.reply(reply),
+      "channel.send.usage",
+      { maxRetries: 3, initialDelay: 1000 },
+    );
+  }
+
+  private formatUsage(report: UsageReport): string {
+    const lines = report.budgets.map(({ scope, spentUsd, limitUsd }) =>
+      `${t(`discord.usage.${scope}`)}: $${spentUsd.toFixed(2)} / ${
+        limitUsd === undefined ? t("discord.usage.noLimit") : `$${limitUsd.toFixed(2)}`
+      }`
+    );
+    const resetsAt = Math.floor(new Date(report.resetsAt).getTime() / 1000);
+    return [
+      `**${t("discord.usage.title")}**`,
+      ...lines,
+      `${t("discord.usage.requests")}: ${report.requests} · ${t("discord.usage.tokens")}: ${
+        report.inputTokens.toLocaleString()
+      } in / ${report.outputTokens.toLocaleString()} out`,
+      `${t("discord.usage.resets")} <t:${resetsAt}:R>`,
+    ].join("\n");
+  }
+
+  // Tells the author their prompt waits for the usage limit to reset
+  private async handleRequestParked(message: RequestParkedMessage): Promise<void> {
+    const { channelId, originalMessageId, position } = message.payload;
+    const thread = this.threadFor(channelId);
+    if (!thread) return;
+    const text = `${t("discord.cooldown.parkedReply")} ${position}`;
+    try {
+      const original = await thread.messages.fetch(originalMessageId).catch(() => null);
+      await withRetry(
+        () => original ? original.reply(text) : thread.send(text),
+        "thread.send.parked",
+        { maxRetries: 2, initialDelay: 500 },
+      );
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedSendMessage")}`, error);
+    }
+  }
+
+  // One message per thread counts down to the reset (Discord renders <t:…:R> live)
+  // and is edited as requests are parked and once they resume
+  private async handleCooldownState(message: CooldownStateMessage): Promise<void> {
+    const { channelId, until, parked, resumed } = message.payload;
+    const thread = this.threadFor(channelId);
+    if (!thread) return;
+    let text: string;
+    if (until) {
+      const unix = Math.floor(new Date(until).getTime() / 1000);
+      text = `${t("discord.cooldown.waiting")} <t:${unix}:R> (<t:${unix}:t>)\n` +
+        `${t("discord.cooldown.parked")} ${parked}`;
+    } else {
+      text = `${t("discord.cooldown.resumed")} ${resumed ?? 0}`;
+    }
+
+    const existing = this.cooldownMessages.get(channelId);
+    if (!until) this.cooldownMessages.delete(channelId);
+    try {
+      if (existing) {
         await withRetry(
-          () =>
-            channel.send(
-              "⚠️ Shell command execution is disabled for security reasons.",
-            ),
-          "channel.send.shell-warning",
+          () => existing.edit(text),
+          "thread.edit.cooldown",
           { maxRetries: 2, initialDelay: 500 },
         );
-        break;
+      } else {
+        const sent = await withRetry(
+          () => thread.send(text),
+          "thread.send.cooldown",
+          { maxRetries: 2, initialDelay: 500 },
+        );
+        if (until) this.cooldownMessages.set(channelId, sent);
+      }
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedSendMessage")}`, error);
+    }
+  }
+
+  // Tells the author their prompt was not run because a daily budget is used up
+  private async handleBudgetExceeded(message: BudgetExceededMessage): Promise<void> {
+    const { channelId, originalMessageId, scope, spentUsd, limitUsd, resetsAt } = message.payload;
+    await this.auditLogger.logBudgetExceeded(channelId, { scope, spentUsd, limitUsd });
+    const thread = this.threadFor(channelId);
+    if (!thread) return;
+    const text = [
+      t("discord.usage.exceeded"),
+      `${t(`discord.usage.${scope}`)}: $${spentUsd.toFixed(2)} / $${limitUsd.toFixed(2)}`,
+      `${t("discord.usage.resets")} <t:${Math.floor(new Date(resetsAt).getTime() / 1000)}:R>`,
+    ].join("\n");
+    try {
+      const original = await thread.messages.fetch(originalMessageId).catch(() => null);
+      await withRetry(
+        () => original ? original.reply(text) : thread.send(text),
+        "thread.send.budget",
+        { maxRetries: 2, initialDelay: 500 },
+      );
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedSendMessage")}`, error);
+    }
+  }
+
+  // Posts Approve / Always allow / Deny buttons for a tool call in "ask" mode
+  private async handlePermissionRequest(message: PermissionRequestMessage): Promise<void> {
+    const { requestId, toolName, input, channelId, timeoutMs } = message.payload;
+    const channel = await this.resolveChannel(channelId);
+    if (!channel) {
+      // Nobody can answer; deny right away instead of waiting for the timeout
+      await this.emitPermissionDecision(requestId, "deny");
+      return;
+    }
+
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${PERMISSION_BUTTON_PREFIX}:allow:${requestId}`)
+        .setLabel(t("discord.permissions.approve"))
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`${PERMISSION_BUTTON_PREFIX}:always:${requestId}`)
+        .setLabel(t("discord.permissions.alwaysAllow"))
+        .setStyle(ButtonStyle.Primary),
+      new ButtonBuilder()
+        .setCustomId(`${PERMISSION_BUTTON_PREFIX}:deny:${requestId}`)
+        .setLabel(t("discord.permissions.deny"))
+        .setStyle(ButtonStyle.Danger),
+    );
+
+    const minutes = Math.max(1, Math.round(timeoutMs / 60_000));
+    const content = [
+      `${t("discord.permissions.title")} \`${toolName}\``,
+      "```",
+      formatToolInput(toolName, input),
+      "```",
+      `${t("discord.permissions.timeoutNotice")} ${minutes} min`,
+    ].join("\n");
+
+    try {
+      const prompt = await withRetry(
+        () => channel.send({ content, components: [buttons] }),
+        "channel.send.permission",
+        { maxRetries: 3, initialDelay: 1000 },
+      );
+      this.permissionPrompts.set(requestId, prompt);
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedSendMessage")}`, error);
+      await this.emitPermissionDecision(requestId, "deny");
+    }
+  }
+
+  private async handleInteraction(interaction: Interaction): Promise<void> {
+    if (interaction.isChatInputCommand()) {
+      await this.handleSlashCommand(interaction);
+      return;
+    }
+    if (!interaction.isButton()) return;
+    const [prefix, action, requestId] = interaction.customId.split(":");
+    if (prefix !== PERMISSION_BUTTON_PREFIX || !requestId) return;
+
+    try {
+      if (!this.isUserAllowed(interaction.user.id)) {
+        await this.auditLogger.logAuthFailure(interaction.user.id, interaction.channelId ?? "");
+        await interaction.reply({ content: t("discord.userNotAllowed"), ephemeral: true });
+        return;
+      }
+
+      // The prompt itself is updated once the bridge reports the outcome
+      await interaction.deferUpdate();
+      await this.emitPermissionDecision(
+        requestId,
+        action === "deny" ? "deny" : "allow",
+        action === "always",
+        interaction.user.id,
+      );
+    } catch (error) {
+      console.error(`[${this.name}] Failed to handle permission button`, error);
+    }
+  }
+
+  // Slash commands run the same bus messages as their `!` counterparts; the first
+  // reply answers the interaction and errors are shown only to the caller
+  private async handleSlashCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const ephemeral = (content: string) =>
+      interaction.deferred || interaction.replied
+        ? interaction.followUp({ content, ephemeral: true })
+        : interaction.reply({ content, ephemeral: true });
+
+    try {
+      if (!this.isUserAllowed(interaction.user.id)) {
+        await this.auditLogger.logAuthFailure(interaction.user.id, interaction.channelId ?? "");
+        await ephemeral(t("discord.userNotAllowed"));
+        return;
+      }
+      const thread = this.sessionThreads.get(interaction.channelId ?? "");
+      if (!thread) {
+        await ephemeral(t("discord.slash.notSessionThread"));
+        return;
+      }
+
+      const command = interaction.commandName;
+      const text = command === "stop" && interaction.options.getBoolean("keep")
+        ? "!stop keep"
+        : command === "model" && interaction.options.getString("name")
+        ? `!model ${interaction.options.getString("name")}`
+        : `!${command}`;
+      await this.auditLogger.logUserMessage(
+        interaction.user.id,
+        interaction.user.username,
+        thread.id,
+        `/${command}`,
+      );
+      await interaction.deferReply();
+
+      let answered = false;
+      const context: CommandContext = {
+        channel: thread,
+        userId: interaction.user.id,
+        reply: (content) => {
+          if (answered) return interaction.followUp(content);
+          answered = true;
+          return interaction.editReply(content);
+        },
+      };
+
+      if (command === "retry") {
+        await context.reply(t("discord.slash.retrying"));
+        await this.messageBus.send({
+          id: interaction.id,
+          from: "discord",
+          to: this.assistantFor(thread.id),
+          type: "discord-command",
+          payload: { text, authorId: interaction.user.id, channelId: thread.id },
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      const response = await this.messageBus.send({
+        id: interaction.id,
+        from: "discord",
+        to: "user",
+        type: "discord-message",
+        payload: { text, authorId: interaction.user.id, channelId: thread.id },
+        timestamp: new Date(),
+      });
+      if (response?.to === "system") {
+        await this.handleSystemCommand(context, response);
+      } else if (response?.type === "error") {
+        const { error } = response.payload as { error?: string };
+        await interaction.deleteReply();
+        await ephemeral(`${t("discord.slash.failed")} ${error ?? command}`);
+        return;
+      }
+      if (!answered) await interaction.deleteReply();
+    } catch (error) {
+      console.error(`[${this.name}] Slash command /${interaction.commandName} failed`, error);
+      if (interaction.deferred && !interaction.replied) {
+        await interaction.deleteReply().catch(() => {});
+      }
+      await ephemeral(
+        `${t("discord.slash.failed")} ${error instanceof Error ? error.message : String(error)}`,
+      ).catch(() => {});
+    }
+  }
+
+  private async emitPermissionDecision(
+    requestId: string,
+    behavior: "allow" | "deny",
+    always = false,
+    userId?: string,
+  ): Promise<void> {
+    await this.messageBus.emit({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: "assistant",
+      type: "permission-decision",
+      payload: { requestId, behavior, always, userId },
+      timestamp: new Date(),
+    });
+  }
+
+  private async handlePermissionResolved(message: PermissionResolvedMessage): Promise<void> {
+    const { requestId, toolName, behavior, reason, always, userId, channelId } = message.payload;
+    await this.auditLogger.logPermissionDecision(toolName, behavior, reason, userId, channelId);
+
+    const prompt = this.permissionPrompts.get(requestId);
+    if (!prompt) return;
+    this.permissionPrompts.delete(requestId);
+
+    const status = reason === "timeout"
+      ? t("discord.permissions.timedOut")
+      : reason === "aborted"
+      ? t("discord.permissions.cancelled")
+      : behavior === "deny"
+      ? t("discord.permissions.denied")
+      : always
+      ? t("discord.permissions.alwaysAllowed")
+      : t("discord.permissions.approved");
+    const by = userId ? ` (<@${userId}>)` : "";
+
+    try {
+      await withRetry(
+        () => prompt.edit({ content: `${prompt.content}\n${status}${by}`, components: [] }),
+        "message.edit.permission",
+        { maxRetries: 2, initialDelay: 500 },
+      );
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedSendMessage")}`, error);
+    }
+  }
+
+  private async resolveChannel(channelId?: string): Promise<TextChannel | ThreadChannel | null> {
+    const thread = this.threadFor(channelId);
+    if (thread || !channelId) return thread;
+    try {
+      const channel = await this.client.channels.fetch(channelId);
+      return channel && channel.isTextBased() ? channel as TextChannel | ThreadChannel : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async handleThreadNotice(message: ThreadNoticeMessage): Promise<void> {
+    if (message.to !== "discord") return;
+    const { channelId, text } = message.payload;
+    if (!text || !this.threadFor(channelId)) return;
+
+    try {
+      await this.sendLongToThread(text, channelId);
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedSendMessage")}`, error);
+    }
+  }
+
+  private async announceNewSession(channelId: string, sessionId?: string): Promise<void> {
+    const thread = this.threadFor(channelId);
+    if (!sessionId || !thread || !this.pendingSessionAnnouncements.delete(channelId)) return;
+    try {
+      await withRetry(
+        () => thread.send(`${t("discord.commands.newSession")} \`${sessionId}\``),
+        "thread.send.new-session",
+        { maxRetries: 2, initialDelay: 500 },
+      );
+    } catch (error) {
+      console.error(`[${this.name}] ${t("discord.failedSendMessage")}`, error);
     }
   }
 
   private async sendLongMessage(
-    message: Message,
+    context: CommandContext,
     content: string,
+    options: { codeBlock?: boolean } = {},
   ): Promise<void> {
-    const channel = message.channel as TextChannel | ThreadChannel;
     const messages: string[] = [];
     let currentMessage = "";
+    // Leave room for the fences when every chunk is wrapped in a code block
+    const limit = options.codeBlock ? 1900 - 8 : 1900;
 
-    const lines = content.split("\n");
+    const lines = content.split("\n").flatMap((line) =>
+      options.codeBlock && line.length > limit
+        ? (line.match(new RegExp(`.{1,${limit}}`, "g")) ?? [line])
+        : [line]
+    );
     for (const line of lines) {
-      if (currentMessage.length + line.length + 1 > 1900) {
+      if (currentMessage.length + line.length + 1 > limit) {
         messages.push(currentMessage);
         currentMessage = line;
       } else {
@@ -744,10 +2025,11 @@ ${t("discord.instructions.header")}
       messages.push(currentMessage);
     }
 
-    for (const msg of messages) {
+    for (const chunk of messages) {
+      const msg = options.codeBlock ? `\`\`\`\n${chunk}\n\`\`\`` : chunk;
       try {
         await withRetry(
-          () => channel.send(msg),
+          () => context.reply(msg),
           "channel.send.long-message",
           { maxRetries: 3, initialDelay: 1000 },
         );
@@ -766,6 +2048,19 @@ ${t("discord.instructions.header")}
     console.error(`[${this.name}] ${t("discord.clientError")}`, error);
   }
 
+  private getAttachmentConfig() {
+    return {
+      enabled: this.config.attachmentsEnabled ?? true,
+      maxTextBytes: this.config.attachMaxTextBytes ?? 1_000_000,
+      inlinePreviewBytes: this.config.attachInlinePreviewBytes ?? 8_000,
+      maxImageBytes: this.config.attachMaxImageBytes ?? 5_000_000,
+      imagePreviewEnabled: this.config.attachImagePreviewEnabled ?? true,
+      imagePreviewWidth: this.config.attachImagePreviewWidth ?? 512,
+      maxPreviewBytes: this.config.attachMaxPreviewBytes ?? 80_000,
+      baseDir: this.config.attachBaseDir,
+    };
+  }
+
   // Streaming helpers
   private getStreamingConfig() {
     return {
@@ -775,9 +2070,60 @@ ${t("discord.instructions.header")}
       showThinking: this.config.streamingShowThinking ?? true,
       showDone: this.config.streamingShowDone ?? true,
       showAbort: this.config.streamingShowAbort ?? true,
+      hiddenTools: this.config.streamingHiddenTools ?? ["TodoWrite"],
+      showDiffs: this.config.streamingShowDiffs ?? true,
     };
   }
 
+  // Per-turn summary of edited files: small diffs inline, the rest as .diff attachments
+  private async postFileChanges(thread: ThreadChannel, changes: FileChange[]): Promise<void> {
+    const added = changes.reduce((sum, change) => sum + change.added, 0);
+    const removed = changes.reduce((sum, change) => sum + change.removed, 0);
+    const summary = [
+      `**${t("discord.diff.summary")}** ${changes.length} (+${added} −${removed})`,
+      ...changes.map((change) => `- \`${change.path}\` (+${change.added} −${change.removed})`),
+    ].join("\n");
+
+    const inline = changes.filter((change) => change.diff.length <= DIFF_INLINE_MAX_CHARS);
+    const files = changes
+      .filter((change) => change.diff.length > DIFF_INLINE_MAX_CHARS)
+      .map((change, index) =>
+        new AttachmentBuilder(Buffer.from(change.diff, "utf8"), {
+          name: `${index + 1}-${basename(change.path).replace(/[^\w.-]/g, "_")}.diff`,
+        })
+      );
+
+    const batches: AttachmentBuilder[][] = [];
+    for (let i = 0; i < files.length; i += MAX_ATTACHMENTS_PER_MESSAGE) {
+      batches.push(files.slice(i, i + MAX_ATTACHMENTS_PER_MESSAGE));
+    }
+
+    try {
+      // The summary carries the first batch of attachments
+      await withRetry(
+        () => thread.send({ content: this.capContent(summary), files: batches[0] ?? [] }),
+        "thread.send.diff-summary",
+        { maxRetries: 2, initialDelay: 500 },
+      );
+      for (const batch of batches.slice(1)) {
+        await withRetry(
+          () => thread.send({ files: batch }),
+          "thread.send.diff-files",
+          { maxRetries: 2, initialDelay: 500 },
+        );
+      }
+      for (const change of inline) {
+        await withRetry(
+          () => thread.send(`\`\`\`diff\n${change.diff}\`\`\``),
+          "thread.send.diff",
+          { maxRetries: 2, initialDelay: 500 },
+        );
+      }
+    } catch (error) {
+      console.error(`[${this.name}] failed to post file changes`, error);
+    }
+  }
+
   private capContent(s: string, max = 1900): string {
     return s.length > max ? s.slice(0, max - 3) + "..." : s;
   }
@@ -789,6 +2135,7 @@ ${t("discord.instructions.header")}
     if (
       type !== "stream-started" &&
       type !== "stream-partial" &&
+      type !== "stream-tool-use" &&
       type !== "stream-completed" &&
       type !== "stream-error"
     ) {
@@ -802,11 +2149,8 @@ ${t("discord.instructions.header")}
     const channelId: string | undefined = payload?.channelId;
     const id: string | undefined = payload?.originalMessageId;
 
-    // Only handle for current thread
-    if (
-      !this.currentThread ||
-      (channelId && this.currentThread.id !== channelId)
-    ) {
+    // Only handle events for our session threads
+    if (!this.threadFor(channelId)) {
       return;
     }
     if (!id) return;
@@ -818,8 +2162,11 @@ ${t("discord.instructions.header")}
       case "stream-partial":
         void this.onStreamPartial(id, channelId, payload);
         break;
+      case "stream-tool-use":
+        this.onStreamToolUse(id, channelId, payload);
+        break;
       case "stream-completed":
-        void this.onStreamCompleted(id, channelId, payload?.fullText ?? "");
+        void this.onStreamCompleted(id, channelId, payload ?? {});
         break;
       case "stream-error":
         void this.onStreamError(id, channelId, payload ?? {});
@@ -838,13 +2185,15 @@ ${t("discord.instructions.header")}
       toolBuffer: "",
       timer: undefined as number | undefined,
       thinkingMessage: undefined as Message | undefined,
+      lastRendered: undefined as string | undefined,
       mode: cfg.mode,
       channelId,
     };
-    if (cfg.showThinking && this.currentThread?.sendable) {
+    const thread = this.threadFor(channelId);
+    if (cfg.showThinking && thread?.sendable) {
       try {
         const msg = await withRetry(
-          () => this.currentThread!.send("🤔 考え中..."),
+          () => thread.send("🤔 考え中..."),
           "thread.send.thinking",
           { maxRetries: 2, initialDelay: 500 },
         );
@@ -869,7 +2218,8 @@ ${t("discord.instructions.header")}
 
   private async flushNow(id: string): Promise<void> {
     const st = this.streamStates.get(id);
-    if (!st || !this.currentThread) return;
+    const thread = this.threadFor(st?.channelId);
+    if (!st || !thread) return;
     const out = `${st.toolBuffer}${st.toolBuffer && st.buffer ? "\n" : ""}${st.buffer}`.trim();
     if (!out) return;
 
@@ -880,10 +2230,11 @@ ${t("discord.instructions.header")}
           "message.edit.stream",
           { maxRetries: 3, initialDelay: 1000 },
         );
+        st.lastRendered = out;
       } else {
         // append mode or no thinking message available
         await withRetry(
-          () => this.currentThread!.send(this.capContent(out)),
+          () => thread.send(this.capContent(out)),
           "thread.send.stream",
           { maxRetries: 3, initialDelay: 1000 },
         );
@@ -921,8 +2272,27 @@ ${t("discord.instructions.header")}
     this.scheduleFlush(id);
   }
 
-  private async sendLongToCurrentThread(content: string): Promise<void> {
-    if (!this.currentThread) return;
+  // Tool calls share the tool buffer with tool results, one compact line each
+  private onStreamToolUse(
+    id: string,
+    channelId: string | undefined,
+    payload: StreamToolUseMessage["payload"],
+  ): void {
+    const cfg = this.getStreamingConfig();
+    if (cfg.hiddenTools.includes(payload.toolName)) return;
+    if (!this.streamStates.has(id)) {
+      void this.onStreamStarted(id, channelId);
+    }
+    const state = this.streamStates.get(id);
+    if (!state) return;
+    const line = formatToolUse(payload.toolName, payload.input);
+    state.toolBuffer += (state.toolBuffer ? "\n" : "") + line;
+    this.scheduleFlush(id);
+  }
+
+  private async sendLongToThread(content: string, channelId?: string): Promise<void> {
+    const thread = this.threadFor(channelId);
+    if (!thread) return;
     const messages: string[] = [];
     let currentMessage = "";
 
@@ -942,7 +2312,7 @@ ${t("discord.instructions.header")}
     for (const msg of messages) {
       try {
         await withRetry(
-          () => this.currentThread!.send(msg),
+          () => thread.send(msg),
           "thread.send.completed",
           { maxRetries: 3, initialDelay: 1000 },
         );
@@ -960,8 +2330,9 @@ ${t("discord.instructions.header")}
   private async onStreamCompleted(
     id: string,
     _channelId: string | undefined,
-    fullText: string,
+    payload: Partial<StreamCompletedMessage["payload"]>,
   ): Promise<void> {
+    const { fullText = "", sessionId, fileChanges = [], result } = payload;
     const st = this.streamStates.get(id);
     if (st?.timer) {
       clearTimeout(st.timer);
@@ -983,17 +2354,28 @@ ${t("discord.instructions.header")}
     // Final output using long message split
     try {
       if (st?.thinkingMessage) {
-        await this.sendLongMessage(st.thinkingMessage, fullText);
+        await this.sendLongMessage(this.messageContext(st.thinkingMessage), fullText);
       } else {
-        await this.sendLongToCurrentThread(fullText);
+        await this.sendLongToThread(fullText, st?.channelId ?? _channelId);
       }
-      if (cfg.showDone && this.currentThread) {
+      const thread = this.threadFor(st?.channelId ?? _channelId);
+      if (cfg.showDiffs && thread && fileChanges.length > 0) {
+        await this.postFileChanges(thread, fileChanges);
+      }
+      const footer = result ? formatResultFooter(result) : "";
+      if ((cfg.showDone || footer) && thread) {
+        const done = [cfg.showDone ? "✅ done" : "", footer ? `-# ${footer}` : ""]
+          .filter(Boolean).join("\n");
         await withRetry(
-          () => this.currentThread!.send("✅ done"),
+          () => thread.send(done),
           "thread.send.done",
           { maxRetries: 2, initialDelay: 500 },
         );
       }
+      if (thread) await this.announceNewSession(thread.id, sessionId);
+      if (result) {
+        await this.auditLogger.logQueryResult(st?.channelId ?? _channelId, sessionId, result);
+      }
     } catch (e) {
       console.error(`[${this.name}] failed to send final output`, e);
     } finally {
@@ -1007,13 +2389,37 @@ ${t("discord.instructions.header")}
   private async onStreamError(
     id: string,
     _channelId: string | undefined,
-    payload: { message?: string; fatal?: boolean },
+    payload: { message?: string; fatal?: boolean; aborted?: boolean },
   ): Promise<void> {
     const st = this.streamStates.get(id);
     if (st?.timer) {
       clearTimeout(st.timer);
       st.timer = undefined;
     }
+
+    // User-requested abort: keep whatever was streamed so far and finalize the
+    // thinking message in place instead of deleting it.
+    if (payload?.aborted && st) {
+      await this.flushNow(id);
+      if (st.thinkingMessage && st.mode === "edit") {
+        const notice = payload.message ?? t("discord.commands.stopComplete");
+        const finalText = st.lastRendered ? `${st.lastRendered}\n\n${notice}` : notice;
+        try {
+          await withRetry(
+            () => st.thinkingMessage!.edit(this.capContent(finalText)),
+            "message.edit.aborted",
+            { maxRetries: 2, initialDelay: 500 },
+          );
+          this.streamStates.delete(id);
+          this.completedStreamIds.add(id);
+          setTimeout(() => this.completedStreamIds.delete(id), 60_000);
+          return;
+        } catch (e) {
+          console.error(`[${this.name}] failed to finalize aborted stream`, e);
+        }
+      }
+    }
+
     // Remove thinking message
     if (st?.thinkingMessage) {
       try {
@@ -1023,7 +2429,8 @@ ${t("discord.instructions.header")}
       }
     }
     const cfg = this.getStreamingConfig();
-    if (cfg.showAbort && this.currentThread) {
+    const thread = this.threadFor(st?.channelId ?? _channelId);
+    if (cfg.showAbort && thread) {
       try {
         const fatal = payload?.fatal !== false;
         const text = fatal
@@ -1031,7 +2438,7 @@ ${t("discord.instructions.header")}
           : payload?.message ?? "";
         if (text) {
           await withRetry(
-            () => this.currentThread!.send(text),
+            () => thread.send(text),
             "thread.send.abort",
             { maxRetries: 2, initialDelay: 500 },
           );
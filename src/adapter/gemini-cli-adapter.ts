@@ -1,7 +1,72 @@
 import type { Adapter } from "../types.ts";
 import type { Config } from "../config.ts";
-import { spawn } from "node:child_process";
-import { promisify } from "node:util";
+import { type ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import { QUERY_ABORTED_MESSAGE } from "./claude-code-adapter.ts";
+
+export type GeminiErrorKind =
+  | "USAGE_LIMIT"
+  | "AUTH"
+  | "NETWORK"
+  | "CLI_NOT_FOUND"
+  | "UNKNOWN";
+
+// Starts the `gemini` CLI; injectable so tests can substitute the process
+export type GeminiSpawn = (
+  args: string[],
+  options: { env: Record<string, string | undefined>; cwd?: string },
+) => ChildProcessWithoutNullStreams;
+
+const spawnGemini: GeminiSpawn = (args, options) => spawn("gemini", args, options);
+
+function detectRetryDelay(message: string): number | undefined {
+  // "Please retry in 23.5s" / "retryDelay": "23s"
+  const match = message.match(/retry in (\d+(?:\.\d+)?)s/i) ??
+    message.match(/retryDelay"?:\s*"(\d+(?:\.\d+)?)s"/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+export function analyseGeminiError(message: string): {
+  kind: GeminiErrorKind;
+  hint: string;
+  retryAfterMs?: number;
+} {
+  const lower = message.toLowerCase();
+  if (/resource_exhausted|quota exceeded|status\s*429|rate limit/i.test(lower)) {
+    return {
+      kind: "USAGE_LIMIT",
+      hint: "Gemini API の利用上限（クォータ）に到達しました。時間を置いてから再試行してください。",
+      retryAfterMs: detectRetryDelay(message),
+    };
+  }
+
+  if (/api key not valid|api_key_invalid|permission_denied|unauthenticated|status\s*40[13]/i.test(lower)) {
+    return {
+      kind: "AUTH",
+      hint: "Gemini API の認証に失敗しました。GEMINI_API_KEY を確認してください。",
+    };
+  }
+
+  if (/eai_again|econnreset|enotfound|etimedout|network error|fetch failed/i.test(lower)) {
+    return {
+      kind: "NETWORK",
+      hint: "ネットワークエラーが発生しました。少し待ってから再試行してください。",
+    };
+  }
+
+  if (/command not found|enoent|spawn/i.test(lower)) {
+    return {
+      kind: "CLI_NOT_FOUND",
+      hint: "Gemini CLI が見つかりません。パスやインストール状態を確認してください。",
+    };
+  }
+
+  return {
+    kind: "UNKNOWN",
+    hint: "Gemini CLI がエラー終了しました。ログを確認してください。",
+  };
+}
+
+type GeminiTurn = { role: "user" | "model"; text: string };
 
 export type GeminiStreamChunk = {
   type: "text" | "tool" | "system" | "done";
@@ -16,14 +81,39 @@ export class GeminiCliAdapter implements Adapter {
   private config: Config;
   private lastResult?: string;
   private abortController?: AbortController;
-
-  constructor(config: Config) {
+  // Set by !model; falls back to config.geminiModel
+  private model?: string;
+  private workingDirectory?: string;
+  private spawnProcess: GeminiSpawn;
+  // `gemini chat` is stateless per process, so past turns are replayed into each prompt
+  private sessionId?: string;
+  private history: GeminiTurn[] = [];
+
+  constructor(config: Config, spawnProcess: GeminiSpawn = spawnGemini) {
     this.config = config;
+    this.spawnProcess = spawnProcess;
+  }
+
+  setModel(model?: string): void {
+    this.model = model;
+  }
+
+  getModel(): string {
+    return this.model || this.config.geminiModel || "gemini-pro";
+  }
+
+  // Directory the CLI runs in (undefined = the bot's own cwd)
+  setWorkingDirectory(cwd?: string): void {
+    this.workingDirectory = cwd;
+  }
+
+  getWorkingDirectory(): string | undefined {
+    return this.workingDirectory;
   }
 
   async start(): Promise<void> {
     console.log(`[${this.name}] Gemini CLI adapter started`);
-    console.log(`[${this.name}] Model: ${this.config.geminiModel || "gemini-pro"}`);
+    console.log(`[${this.name}] Model: ${this.getModel()}`);
   }
 
   async stop(): Promise<void> {
@@ -35,7 +125,7 @@ export class GeminiCliAdapter implements Adapter {
 
   // Execute Gemini CLI command and return result
   async query(prompt: string): Promise<string> {
-    const model = this.config.geminiModel || "gemini-pro";
+    const model = this.getModel();
     const apiKey = this.config.geminiApiKey;
 
     if (!apiKey) {
@@ -60,13 +150,13 @@ export class GeminiCliAdapter implements Adapter {
         args.push("--temperature", String(this.config.geminiTemperature));
       }
 
-      const geminiProcess = spawn("gemini", args, { env });
+      const geminiProcess = this.spawnProcess(args, { env, cwd: this.workingDirectory });
 
       let output = "";
       let errorOutput = "";
 
       // プロンプトを標準入力に送信
-      geminiProcess.stdin.write(prompt);
+      geminiProcess.stdin.write(this.buildPrompt(prompt));
       geminiProcess.stdin.end();
 
       geminiProcess.stdout.on("data", (data) => {
@@ -82,6 +172,7 @@ export class GeminiCliAdapter implements Adapter {
           reject(new Error(`Gemini CLI exited with code ${code}: ${errorOutput}`));
         } else {
           this.lastResult = output.trim();
+          this.remember(prompt, this.lastResult);
           resolve(output.trim());
         }
       });
@@ -100,9 +191,10 @@ export class GeminiCliAdapter implements Adapter {
     });
   }
 
-  // Stream query results using AsyncIterable
+  // Stream query results using AsyncIterable. Throws QUERY_ABORTED_MESSAGE after
+  // abort(), and an error carrying the CLI's stderr when it exits non-zero.
   async *queryStream(prompt: string): AsyncIterable<GeminiStreamChunk> {
-    const model = this.config.geminiModel || "gemini-pro";
+    const model = this.getModel();
     const apiKey = this.config.geminiApiKey;
 
     if (!apiKey) {
@@ -127,80 +219,111 @@ export class GeminiCliAdapter implements Adapter {
       args.push("--temperature", String(this.config.geminiTemperature));
     }
 
-    const geminiProcess = spawn("gemini", args, { env });
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    const geminiProcess = this.spawnProcess(args, { env, cwd: this.workingDirectory });
+    const onAbort = () => geminiProcess.kill();
+    controller.signal.addEventListener("abort", onAbort, { once: true });
+
+    let errorOutput = "";
+    geminiProcess.stderr.on("data", (data) => {
+      errorOutput += data.toString();
+    });
+    // 起動失敗（ENOENT など）は "error" で届くので、終了と合わせて待つ
+    const exited = new Promise<{ code: number | null; error?: Error }>((resolve) => {
+      geminiProcess.on("error", (error) => resolve({ code: null, error }));
+      geminiProcess.on("close", (code) => resolve({ code }));
+    });
 
     // プロンプトを標準入力に送信
-    geminiProcess.stdin.write(prompt);
+    geminiProcess.stdin.on("error", () => {/* surfaced via "error"/"close" */});
+    geminiProcess.stdin.write(this.buildPrompt(prompt));
     geminiProcess.stdin.end();
 
     let buffer = "";
-    let fullResponse = "";
-
-    // ストリーム処理
-    for await (const chunk of geminiProcess.stdout) {
-      const text = chunk.toString();
-      buffer += text;
-      fullResponse += text;
-
-      // バッファから完全な行を抽出
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (line.trim()) {
-          // JSONレスポンスの場合はパース
-          if (line.startsWith("{")) {
-            try {
-              const parsed = JSON.parse(line);
-              if (parsed.type === "text") {
-                yield {
-                  type: "text",
-                  content: parsed.content || "",
-                  raw: parsed,
-                };
-              } else if (parsed.type === "tool") {
-                yield {
-                  type: "tool",
-                  content: parsed.content || "",
-                  isToolUse: true,
-                  raw: parsed,
-                };
-              }
-            } catch {
-              // JSONパースエラーの場合は通常のテキストとして扱う
-              yield {
-                type: "text",
-                content: line,
-              };
-            }
-          } else {
-            // 通常のテキスト出力
-            yield {
-              type: "text",
-              content: line,
-            };
+    const textParts: string[] = [];
+
+    const parseLine = (line: string): GeminiStreamChunk => {
+      // JSONレスポンスの場合はパース
+      if (line.startsWith("{")) {
+        try {
+          const parsed = JSON.parse(line);
+          if (parsed.type === "tool") {
+            return { type: "tool", content: parsed.content || "", isToolUse: true, raw: parsed };
+          }
+          if (parsed.type === "text") {
+            return { type: "text", content: parsed.content || "", raw: parsed };
           }
+        } catch {
+          // JSONパースエラーの場合は通常のテキストとして扱う
         }
       }
-    }
+      return { type: "text", content: line };
+    };
+
+    try {
+      // ストリーム処理
+      for await (const chunk of geminiProcess.stdout) {
+        buffer += chunk.toString();
+
+        // バッファから完全な行を抽出
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const parsed = parseLine(line);
+          if (parsed.type === "text") textParts.push(parsed.content);
+          yield parsed;
+        }
+      }
+
+      // 残りのバッファを処理
+      if (buffer.trim()) {
+        const parsed = parseLine(buffer);
+        if (parsed.type === "text") textParts.push(parsed.content);
+        yield parsed;
+      }
 
-    // 残りのバッファを処理
-    if (buffer.trim()) {
+      const { code, error } = await exited;
+      if (controller.signal.aborted) {
+        throw new Error(QUERY_ABORTED_MESSAGE);
+      }
+      if (error) {
+        throw new Error(`Failed to start Gemini CLI: ${error.message}`);
+      }
+      if (code !== 0) {
+        throw new Error(`Gemini CLI exited with code ${code}: ${errorOutput.trim()}`);
+      }
+
+      // 最終結果を保存
+      this.lastResult = textParts.join("\n").trim();
+      this.remember(prompt, this.lastResult);
+
+      // 完了シグナル
       yield {
-        type: "text",
-        content: buffer,
+        type: "done",
+        content: "",
       };
-      fullResponse += buffer;
+    } finally {
+      controller.signal.removeEventListener("abort", onAbort);
+      // 呼び出し側が途中で反復をやめた場合もプロセスを残さない
+      if (geminiProcess.exitCode === null) geminiProcess.kill();
+      if (this.abortController === controller) {
+        this.abortController = undefined;
+      }
     }
+  }
 
-    // 最終結果を保存
-    this.lastResult = fullResponse.trim();
-
-    // 完了シグナル
-    yield {
-      type: "done",
-      content: "",
-    };
+  // Cancel the running query; returns false when nothing was running
+  abort(): boolean {
+    if (this.abortController && !this.abortController.signal.aborted) {
+      this.abortController.abort();
+      console.log(`[${this.name}] Query aborted`);
+      return true;
+    }
+    return false;
   }
 
   // Get the last query result
@@ -208,6 +331,49 @@ export class GeminiCliAdapter implements Adapter {
     return this.lastResult;
   }
 
+  // Identifier of the current conversation; assigned when its first reply completes
+  getCurrentSessionId(): string | undefined {
+    return this.sessionId;
+  }
+
+  // Reset conversation state
+  resetSession(): void {
+    this.lastResult = undefined;
+    this.sessionId = undefined;
+    this.history = [];
+    console.log(`[${this.name}] Session reset`);
+  }
+
+  // Prepends the most recent turns that fit in geminiHistoryTurns / geminiHistoryMaxChars
+  private buildPrompt(prompt: string): string {
+    const maxTurns = this.config.geminiHistoryTurns ?? 10;
+    const maxChars = this.config.geminiHistoryMaxChars ?? 20000;
+    const lines: string[] = [];
+    let used = 0;
+    for (const turn of this.recentTurns(maxTurns).reverse()) {
+      const line = `${turn.role === "user" ? "User" : "Assistant"}: ${turn.text}`;
+      if (used + line.length > maxChars) break;
+      lines.unshift(line);
+      used += line.length;
+    }
+    if (lines.length === 0) return prompt;
+    return ["[Conversation so far]", ...lines, "[End of conversation]", "", prompt].join("\n");
+  }
+
+  private remember(prompt: string, reply: string): void {
+    if (!this.sessionId) {
+      this.sessionId = crypto.randomUUID();
+      console.log(`[${this.name}] Session started: ${this.sessionId}`);
+    }
+    const maxTurns = this.config.geminiHistoryTurns ?? 10;
+    this.history.push({ role: "user", text: prompt }, { role: "model", text: reply });
+    this.history = this.recentTurns(maxTurns);
+  }
+
+  private recentTurns(maxTurns: number): GeminiTurn[] {
+    return this.history.slice(Math.max(0, this.history.length - maxTurns * 2));
+  }
+
   // Execute tool with Gemini CLI
   async executeTool(
     toolName: string,
@@ -233,7 +399,7 @@ export class GeminiCliAdapter implements Adapter {
         JSON.stringify(parameters),
       ];
 
-      const geminiProcess = spawn("gemini", args, { env });
+      const geminiProcess = this.spawnProcess(args, { env, cwd: this.workingDirectory });
 
       let output = "";
       let errorOutput = "";
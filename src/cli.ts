@@ -3,6 +3,7 @@
 import { parseArgs } from "node:util";
 import { $ } from "@david/dax";
 import { i18n, t, type Locale } from "./i18n.ts";
+import { SessionCatalog, type SessionSummary } from "./utils/session-catalog.ts";
 
 // CLI option type definitions
 export interface CliOptions {
@@ -14,6 +15,9 @@ export interface CliOptions {
   debug: boolean;
   help: boolean;
   locale?: string;
+  model?: string;
+  config?: string;
+  printConfig: boolean;
 }
 
 // Parse CLI options
@@ -57,6 +61,17 @@ export function parseCliOptions(): CliOptions {
         type: "string",
         short: "l",
       },
+      model: {
+        type: "string",
+        short: "m",
+      },
+      config: {
+        type: "string",
+      },
+      "print-config": {
+        type: "boolean",
+        default: false,
+      },
     },
   });
 
@@ -69,6 +84,9 @@ export function parseCliOptions(): CliOptions {
     debug: values.debug as boolean,
     help: values.help as boolean,
     locale: values.locale as string | undefined,
+    model: values.model as string | undefined,
+    config: values.config as string | undefined,
+    printConfig: values["print-config"] as boolean,
   };
 }
 
@@ -88,6 +106,9 @@ Options:
   -d, --debug           ${t("cli.help.options.debug")}
   -h, --help            ${t("cli.help.options.help")}
   -l, --locale <lang>   ${t("cli.help.options.locale")}
+  -m, --model <name>    ${t("cli.help.options.model")}
+  --config <path>       ${t("cli.help.options.config")}
+  --print-config        ${t("cli.help.options.printConfig")}
 
 ${t("cli.help.envVars.title")}
   CC_DISCORD_TOKEN      ${t("cli.help.envVars.token")}
@@ -135,15 +156,92 @@ export function validateOptions(options: CliOptions): void {
   }
 }
 
+function formatSessionDate(timestamp?: string): string {
+  if (!timestamp) return "N/A";
+  return new Date(timestamp).toLocaleString(i18n.getLocale() === "ja" ? "ja-JP" : "en-US");
+}
+
+function formatSessionLabel(session: SessionSummary): string {
+  let label = `${session.sessionId.slice(0, 8)}... (${formatSessionDate(session.updatedAt)})`;
+  if (session.title) {
+    label += ` | ${session.title}`;
+  } else if (session.lastQuery) {
+    label += ` | ${session.lastQuery}`;
+  }
+  return label;
+}
+
 // Session selection (interactive)
-export async function selectSession(): Promise<string | undefined> {
-  // TODO: Port implementation from session management module
-  console.log(t("cli.sessionNotImplemented"));
-  return undefined;
+export async function selectSession(
+  catalog = new SessionCatalog(),
+): Promise<string | undefined> {
+  const sessions = await catalog.list({ limit: 10 });
+  if (sessions.length === 0) {
+    console.log(t("cli.sessions.noSessions"));
+    return undefined;
+  }
+
+  console.log(t("cli.sessions.recentSessions"));
+  const selectedIndex = await $.select({
+    message: t("cli.sessions.selectPrompt"),
+    options: sessions.map(formatSessionLabel),
+  });
+
+  const selected = sessions[selectedIndex];
+  if (!selected) return undefined;
+
+  await showConversationHistory(selected.sessionId, 10, catalog);
+  return selected.sessionId;
 }
 
 // Display session list
-export async function listSessions(): Promise<void> {
-  // TODO: Port implementation from session management module
-  console.log(t("cli.sessionListNotImplemented"));
+export async function listSessions(catalog = new SessionCatalog()): Promise<void> {
+  const sessions = await catalog.list();
+  if (sessions.length === 0) {
+    console.log(t("cli.sessions.noSessions"));
+    return;
+  }
+
+  console.log(`${t("cli.sessions.listTitle")} ${Deno.cwd()}`);
+  console.log("==========================================");
+  for (const session of sessions) {
+    console.log(
+      `${session.sessionId}  ${formatSessionDate(session.updatedAt)}  (${session.messageCount})`,
+    );
+    const preview = session.title ?? session.lastQuery;
+    if (preview) {
+      console.log(`    ${preview}`);
+    }
+  }
+}
+
+// Newest session for the current working directory (-c/--continue)
+export async function findLatestSession(
+  catalog = new SessionCatalog(),
+): Promise<string | undefined> {
+  const latest = await catalog.findLatest();
+  return latest?.sessionId;
+}
+
+// Print the tail of a session transcript to the console
+export async function showConversationHistory(
+  sessionId: string,
+  limit = 10,
+  catalog = new SessionCatalog(),
+): Promise<void> {
+  const messages = await catalog.getHistory(sessionId, { limit });
+  if (messages.length === 0) {
+    console.log(t("cli.sessions.noHistory"));
+    return;
+  }
+
+  console.log(`\n${t("cli.sessions.historyTitle")}`);
+  console.log("==========================================");
+  for (const msg of messages) {
+    const role = msg.type === "user" ? "👤 User" : "🤖 Claude";
+    const time = msg.timestamp ? new Date(msg.timestamp).toLocaleTimeString() : "";
+    console.log(`\n[${time}] ${role}:`);
+    console.log(msg.content);
+  }
+  console.log("\n==========================================\n");
 }
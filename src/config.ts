@@ -1,5 +1,7 @@
 // Configuration management module
 import { showSetupInstructions, t } from "./i18n.ts";
+import { DEFAULT_SHELL_ALLOWED_COMMANDS } from "./utils/shell-executor.ts";
+import { readConfigFile } from "./utils/config-file.ts";
 
 export interface Config {
   discordToken: string;
@@ -8,10 +10,16 @@ export interface Config {
   allowedUsers?: string[]; // List of allowed user IDs
   debugMode: boolean;
   neverSleep: boolean;
+  neverSleepIdleMinutes?: number;
+  neverSleepMaxHours?: number;
   sessionId?: string;
   maxTurns: number;
   model: string;
+  // Models `!model` may switch to (the configured model is always allowed)
+  allowedModels?: string[];
   claudePermissionMode?: "bypassPermissions" | "ask";
+  // How long an "ask" mode approval waits for a button press before denying
+  permissionTimeoutMs?: number;
   // Streaming options (defaults applied in loadConfig)
   streamingEnabled?: boolean;
   streamingUpdateMode?: "edit" | "append";
@@ -21,12 +29,51 @@ export interface Config {
   streamingShowThinking?: boolean;
   streamingShowDone?: boolean;
   streamingShowAbort?: boolean;
+  // Tool calls left out of the streamed reply (e.g. "TodoWrite")
+  streamingHiddenTools?: string[];
+  // Diffs of the files edited in a turn, posted after the reply
+  streamingShowDiffs?: boolean;
+  // Discord attachments saved for the assistant (defaults applied in loadConfig)
+  attachmentsEnabled?: boolean;
+  attachMaxTextBytes?: number;
+  attachInlinePreviewBytes?: number;
+  attachMaxImageBytes?: number;
+  attachImagePreviewEnabled?: boolean;
+  attachImagePreviewWidth?: number;
+  attachMaxPreviewBytes?: number;
+  // Relative paths resolve from the thread's working directory (default: attachments/)
+  attachBaseDir?: string;
+  // Conversation recap posted to the thread when resuming a session
+  resumeHistoryTurns?: number;
+  resumeHistoryMaxChars?: number;
+  // Allow-listed shell execution for `!!<command>` (disabled unless shellEnabled)
+  shellEnabled?: boolean;
+  shellAllowedCommands?: string[];
+  shellTimeoutMs?: number;
+  shellMaxOutputChars?: number;
+  // Per-thread working directories (`!cd` / `!project`)
+  projectRoots?: string[];
+  workdirsFile?: string;
+  // Queued and running prompts, replayed after a crash (empty disables)
+  queueFile?: string;
+  // Requests parked until the usage limit resets, kept across restarts (empty = memory only)
+  cooldownFile?: string;
+  // Daily spending limits in USD, checked before each request (unset or 0 = no limit)
+  budgetUserDailyUsd?: number;
+  budgetThreadDailyUsd?: number;
+  budgetDailyUsd?: number;
+  // Today's per-request costs, kept across restarts (empty = memory only)
+  usageFile?: string;
   // Gemini configuration
   useGemini?: boolean;
   geminiApiKey?: string;
   geminiModel?: string;
+  geminiAllowedModels?: string[];
   geminiMaxTokens?: number;
   geminiTemperature?: number;
+  // Conversation memory: past turns replayed into each prompt (0 disables)
+  geminiHistoryTurns?: number;
+  geminiHistoryMaxChars?: number;
 }
 
 export interface EnvConfig {
@@ -39,12 +86,43 @@ export interface EnvConfig {
   ANTHROPIC_API_KEY?: string;
   // Claude Code permission mode
   CLAUDE_PERMISSION_MODE?: string;
+  CLAUDE_PERMISSION_TIMEOUT_SECONDS?: string;
+  // Claude model selection
+  CLAUDE_MODEL?: string;
+  CLAUDE_ALLOWED_MODELS?: string; // Comma-separated list for !model
   // Gemini configuration
   GEMINI_API_KEY?: string;
   GEMINI_MODEL?: string;
+  GEMINI_ALLOWED_MODELS?: string; // Comma-separated list for !model
   GEMINI_MAX_TOKENS?: string;
   GEMINI_TEMPERATURE?: string;
+  GEMINI_HISTORY_TURNS?: string;
+  GEMINI_HISTORY_MAX_CHARS?: string;
   USE_GEMINI?: string;
+  // Never Sleep mode
+  NEVER_SLEEP_IDLE_MINUTES?: string;
+  NEVER_SLEEP_MAX_HOURS?: string;
+  // Resume recap
+  CCDISCORD_RESUME_HISTORY_TURNS?: string;
+  CCDISCORD_RESUME_HISTORY_MAX_CHARS?: string;
+  // Shell execution
+  SHELL_COMMANDS_ENABLED?: string;
+  SHELL_ALLOWED_COMMANDS?: string; // Comma-separated "binary" or "binary:argsRegex" entries
+  SHELL_TIMEOUT_SECONDS?: string;
+  SHELL_MAX_OUTPUT_CHARS?: string;
+  // Attachments
+  CCDISCORD_ATTACH_ENABLE?: string;
+  CCDISCORD_ATTACH_MAX_TEXT_BYTES?: string;
+  CCDISCORD_ATTACH_INLINE_PREVIEW_BYTES?: string;
+  CCDISCORD_ATTACH_MAX_IMAGE_BYTES?: string;
+  CCDISCORD_ATTACH_IMAGE_PREVIEW_ENABLE?: string;
+  CCDISCORD_ATTACH_IMAGE_PREVIEW_WIDTH?: string;
+  CCDISCORD_ATTACH_MAX_PREVIEW_BYTES?: string;
+  CCDISCORD_ATTACH_BASEDIR?: string;
+  // Working directories
+  CCDISCORD_PROJECT_ROOTS?: string; // Comma-separated directories that !cd / !project may use
+  CCDISCORD_WORKDIRS_FILE?: string;
+  CCDISCORD_QUEUE_FILE?: string;
   // Legacy support
   CC_DISCORD_TOKEN?: string;
   CC_DISCORD_CHANNEL_ID?: string;
@@ -53,25 +131,324 @@ export interface EnvConfig {
   CC_ANTHROPIC_API_KEY?: string;
 }
 
-// Load configuration from environment variables
-export function loadConfig(debugMode = false): Config | null {
+export const DEFAULT_CLAUDE_MODEL = "claude-opus-4-20250514";
+export const DEFAULT_CLAUDE_MODELS = [
+  "claude-opus-4-20250514",
+  "claude-sonnet-4-20250514",
+  "opus",
+  "sonnet",
+  "haiku",
+];
+
+// Fields a config file may set; debugMode / neverSleep / sessionId come from the CLI
+export type FileConfigKey = Exclude<keyof Config, "debugMode" | "neverSleep" | "sessionId">;
+
+type FieldKind = "string" | "boolean" | "integer" | "number" | "list";
+
+interface FieldSpec {
+  kind: FieldKind;
+  // Environment variables that override the file, first match wins
+  env?: string[];
+  min?: number;
+  max?: number;
+  oneOf?: readonly string[];
+  // The env value is in other units (e.g. seconds) and multiplied into the Config value
+  envScale?: number;
+  // Redacted by --print-config
+  secret?: boolean;
+}
+
+// Every configurable field, how it is validated and which env vars override it.
+// Precedence: defaults < config file < environment < CLI options.
+export const CONFIG_SCHEMA: Record<FileConfigKey, FieldSpec> = {
+  discordToken: { kind: "string", env: ["DISCORD_BOT_TOKEN", "CC_DISCORD_TOKEN"], secret: true },
+  channelId: { kind: "string", env: ["DISCORD_CHANNEL_ID", "CC_DISCORD_CHANNEL_ID"] },
+  userId: { kind: "string", env: ["CC_DISCORD_USER_ID", "DISCORD_CLIENT_ID"] },
+  allowedUsers: { kind: "list", env: ["DISCORD_ALLOWED_USERS"] },
+  neverSleepIdleMinutes: { kind: "integer", env: ["NEVER_SLEEP_IDLE_MINUTES"], min: 0 },
+  neverSleepMaxHours: { kind: "integer", env: ["NEVER_SLEEP_MAX_HOURS"], min: 0 },
+  maxTurns: { kind: "integer", min: 1 },
+  model: { kind: "string", env: ["CLAUDE_MODEL"] },
+  allowedModels: { kind: "list", env: ["CLAUDE_ALLOWED_MODELS"] },
+  claudePermissionMode: {
+    kind: "string",
+    env: ["CLAUDE_PERMISSION_MODE"],
+    oneOf: ["default", "bypassPermissions", "ask"],
+  },
+  permissionTimeoutMs: {
+    kind: "integer",
+    env: ["CLAUDE_PERMISSION_TIMEOUT_SECONDS"],
+    envScale: 1000,
+    min: 0,
+  },
+  streamingEnabled: { kind: "boolean" },
+  streamingUpdateMode: { kind: "string", oneOf: ["edit", "append"] },
+  streamingIntervalMs: { kind: "integer", min: 0 },
+  streamingToolChunkPrefix: { kind: "string" },
+  streamingMaxChunkLength: { kind: "integer", min: 1 },
+  streamingShowThinking: { kind: "boolean" },
+  streamingShowDone: { kind: "boolean" },
+  streamingShowAbort: { kind: "boolean" },
+  streamingHiddenTools: { kind: "list" },
+  streamingShowDiffs: { kind: "boolean" },
+  attachmentsEnabled: { kind: "boolean", env: ["CCDISCORD_ATTACH_ENABLE"] },
+  attachMaxTextBytes: { kind: "integer", env: ["CCDISCORD_ATTACH_MAX_TEXT_BYTES"], min: 0 },
+  attachInlinePreviewBytes: {
+    kind: "integer",
+    env: ["CCDISCORD_ATTACH_INLINE_PREVIEW_BYTES"],
+    min: 0,
+  },
+  attachMaxImageBytes: { kind: "integer", env: ["CCDISCORD_ATTACH_MAX_IMAGE_BYTES"], min: 0 },
+  attachImagePreviewEnabled: { kind: "boolean", env: ["CCDISCORD_ATTACH_IMAGE_PREVIEW_ENABLE"] },
+  attachImagePreviewWidth: {
+    kind: "integer",
+    env: ["CCDISCORD_ATTACH_IMAGE_PREVIEW_WIDTH"],
+    min: 1,
+  },
+  attachMaxPreviewBytes: { kind: "integer", env: ["CCDISCORD_ATTACH_MAX_PREVIEW_BYTES"], min: 0 },
+  attachBaseDir: { kind: "string", env: ["CCDISCORD_ATTACH_BASEDIR"] },
+  resumeHistoryTurns: { kind: "integer", env: ["CCDISCORD_RESUME_HISTORY_TURNS"], min: 0 },
+  resumeHistoryMaxChars: { kind: "integer", env: ["CCDISCORD_RESUME_HISTORY_MAX_CHARS"], min: 0 },
+  shellEnabled: { kind: "boolean", env: ["SHELL_COMMANDS_ENABLED"] },
+  shellAllowedCommands: { kind: "list", env: ["SHELL_ALLOWED_COMMANDS"] },
+  shellTimeoutMs: { kind: "integer", env: ["SHELL_TIMEOUT_SECONDS"], envScale: 1000, min: 0 },
+  shellMaxOutputChars: { kind: "integer", env: ["SHELL_MAX_OUTPUT_CHARS"], min: 0 },
+  projectRoots: { kind: "list", env: ["CCDISCORD_PROJECT_ROOTS"] },
+  workdirsFile: { kind: "string", env: ["CCDISCORD_WORKDIRS_FILE"] },
+  queueFile: { kind: "string", env: ["CCDISCORD_QUEUE_FILE"] },
+  cooldownFile: { kind: "string", env: ["CCDISCORD_COOLDOWN_FILE"] },
+  budgetUserDailyUsd: { kind: "number", env: ["CCDISCORD_BUDGET_USER_DAILY_USD"], min: 0 },
+  budgetThreadDailyUsd: { kind: "number", env: ["CCDISCORD_BUDGET_THREAD_DAILY_USD"], min: 0 },
+  budgetDailyUsd: { kind: "number", env: ["CCDISCORD_BUDGET_DAILY_USD"], min: 0 },
+  usageFile: { kind: "string", env: ["CCDISCORD_USAGE_FILE"] },
+  useGemini: { kind: "boolean", env: ["USE_GEMINI"] },
+  geminiApiKey: { kind: "string", env: ["GEMINI_API_KEY"], secret: true },
+  geminiModel: { kind: "string", env: ["GEMINI_MODEL"] },
+  geminiAllowedModels: { kind: "list", env: ["GEMINI_ALLOWED_MODELS"] },
+  geminiMaxTokens: { kind: "integer", env: ["GEMINI_MAX_TOKENS"], min: 1 },
+  geminiTemperature: { kind: "number", env: ["GEMINI_TEMPERATURE"], min: 0, max: 2 },
+  geminiHistoryTurns: { kind: "integer", env: ["GEMINI_HISTORY_TURNS"], min: 0 },
+  geminiHistoryMaxChars: { kind: "integer", env: ["GEMINI_HISTORY_MAX_CHARS"], min: 0 },
+};
+
+const CONFIG_DEFAULTS: Partial<Record<FileConfigKey, unknown>> = {
+  neverSleepIdleMinutes: 5,
+  neverSleepMaxHours: 6,
+  maxTurns: 300,
+  model: DEFAULT_CLAUDE_MODEL,
+  allowedModels: DEFAULT_CLAUDE_MODELS,
+  permissionTimeoutMs: 300_000,
+  streamingEnabled: true,
+  streamingUpdateMode: "edit",
+  streamingIntervalMs: 1000,
+  streamingToolChunkPrefix: "📋 ツール実行結果:",
+  streamingMaxChunkLength: 1800,
+  streamingShowThinking: true,
+  streamingShowDone: true,
+  streamingShowAbort: true,
+  streamingHiddenTools: ["TodoWrite"],
+  streamingShowDiffs: true,
+  attachmentsEnabled: true,
+  attachMaxTextBytes: 1_000_000,
+  attachInlinePreviewBytes: 8_000,
+  attachMaxImageBytes: 5_000_000,
+  attachImagePreviewEnabled: true,
+  attachImagePreviewWidth: 512,
+  attachMaxPreviewBytes: 80_000,
+  resumeHistoryTurns: 6,
+  resumeHistoryMaxChars: 200,
+  shellEnabled: false,
+  shellAllowedCommands: DEFAULT_SHELL_ALLOWED_COMMANDS,
+  shellTimeoutMs: 30_000,
+  shellMaxOutputChars: 8000,
+  queueFile: "./logs/pending-jobs.json",
+  cooldownFile: "./logs/cooldown.json",
+  usageFile: "./logs/usage.json",
+  useGemini: false,
+  geminiModel: "gemini-pro",
+  geminiHistoryTurns: 10,
+  geminiHistoryMaxChars: 20000,
+};
+
+export type ConfigProblem =
+  | "unknownKey"
+  | "expectedString"
+  | "expectedBoolean"
+  | "expectedInteger"
+  | "expectedNumber"
+  | "expectedList"
+  | "tooSmall"
+  | "tooLarge"
+  | "notOneOf";
+
+export interface ConfigIssue {
+  key: string;
+  // Config file path or environment variable name
+  source: string;
+  problem: ConfigProblem;
+  value?: unknown;
+  limit?: number | readonly string[];
+}
+
+export interface ConfigSources {
+  env: Record<string, string | undefined>;
+  file?: { path?: string; data: Record<string, unknown> };
+}
+
+const TRUE_VALUES = ["true", "1", "yes", "on"];
+const FALSE_VALUES = ["false", "0", "no", "off"];
+
+function isConfigKey(key: string): key is FileConfigKey {
+  return Object.hasOwn(CONFIG_SCHEMA, key);
+}
+
+// Converts an env string to the field's type; file values must already have it
+function coerceEnv(raw: string, spec: FieldSpec): unknown {
+  const trimmed = raw.trim();
+  switch (spec.kind) {
+    case "boolean": {
+      const lower = trimmed.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return true;
+      if (FALSE_VALUES.includes(lower)) return false;
+      return raw;
+    }
+    case "integer":
+    case "number":
+      return trimmed === "" ? raw : Number(trimmed);
+    case "list":
+      return trimmed.split(",").map((entry) => entry.trim()).filter((entry) => entry);
+    default:
+      return trimmed;
+  }
+}
+
+function checkValue(
+  key: FileConfigKey,
+  value: unknown,
+  source: string,
+  original: unknown = value,
+): ConfigIssue | null {
+  const spec = CONFIG_SCHEMA[key];
+  const issue = (problem: ConfigProblem, limit?: number | readonly string[]): ConfigIssue => ({
+    key,
+    source,
+    problem,
+    value: original,
+    limit,
+  });
+
+  switch (spec.kind) {
+    case "string":
+      if (typeof value !== "string") return issue("expectedString");
+      if (spec.oneOf && !spec.oneOf.includes(value)) return issue("notOneOf", spec.oneOf);
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : issue("expectedBoolean");
+    case "list":
+      return Array.isArray(value) && value.every((entry) => typeof entry === "string")
+        ? null
+        : issue("expectedList");
+    case "integer":
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return issue(spec.kind === "integer" ? "expectedInteger" : "expectedNumber");
+      }
+      if (spec.kind === "integer" && !Number.isInteger(value)) return issue("expectedInteger");
+      if (spec.min !== undefined && value < spec.min) return issue("tooSmall", spec.min);
+      if (spec.max !== undefined && value > spec.max) return issue("tooLarge", spec.max);
+      return null;
+  }
+}
+
+// Merges defaults, the config file and the environment, collecting every invalid value
+export function resolveConfig(
+  sources: ConfigSources,
+): { values: Partial<Record<FileConfigKey, unknown>>; issues: ConfigIssue[] } {
+  const values: Partial<Record<FileConfigKey, unknown>> = { ...CONFIG_DEFAULTS };
+  const issues: ConfigIssue[] = [];
+  const fileSource = sources.file?.path ?? "config";
+
+  for (const [key, value] of Object.entries(sources.file?.data ?? {})) {
+    if (!isConfigKey(key)) {
+      issues.push({ key, source: fileSource, problem: "unknownKey" });
+      continue;
+    }
+    const issue = checkValue(key, value, fileSource);
+    if (issue) {
+      issues.push(issue);
+    } else {
+      values[key] = value;
+    }
+  }
+
+  for (const key of Object.keys(CONFIG_SCHEMA) as FileConfigKey[]) {
+    const spec = CONFIG_SCHEMA[key];
+    const name = spec.env?.find((candidate) => sources.env[candidate]);
+    if (!name) continue;
+    const raw = sources.env[name]!;
+    const value = coerceEnv(raw, spec);
+    const issue = checkValue(key, value, name, raw);
+    if (issue) {
+      issues.push(issue);
+    } else {
+      values[key] = typeof value === "number" && spec.envScale ? value * spec.envScale : value;
+    }
+  }
+
+  return { values, issues };
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  let detail = t(`config.errors.${issue.problem}`);
+  if (Array.isArray(issue.limit)) {
+    detail += ` ${issue.limit.join(", ")}`;
+  } else if (issue.limit !== undefined) {
+    detail += ` ${issue.limit}`;
+  }
+  const got = issue.value === undefined ? "" : ` (${JSON.stringify(issue.value)})`;
+  return `  ❌ ${issue.source}: ${issue.key} - ${detail}${got}`;
+}
+
+// Copy of the config with secrets masked, for --print-config
+export function redactConfig(config: Config): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...config };
+  for (const [key, spec] of Object.entries(CONFIG_SCHEMA)) {
+    if (spec.secret && redacted[key]) redacted[key] = "***";
+  }
+  return redacted;
+}
+
+// Load configuration from the config file and environment variables
+export function loadConfig(
+  debugMode = false,
+  options: { configPath?: string } = {},
+): Config | null {
   const env = Deno.env.toObject() as EnvConfig;
 
-  // Support both new and legacy environment variable names
-  const discordToken = env.DISCORD_BOT_TOKEN || env.CC_DISCORD_TOKEN;
-  const channelId = env.DISCORD_CHANNEL_ID || env.CC_DISCORD_CHANNEL_ID;
-  const clientId = env.DISCORD_CLIENT_ID;
-  const userId = env.CC_DISCORD_USER_ID || clientId;
-  const claudeApiKey =
-    env.ANTHROPIC_API_KEY || env.CC_CLAUDE_API_KEY || env.CC_ANTHROPIC_API_KEY;
+  const file = readConfigFile(options.configPath);
+  if (!file.ok) {
+    console.error(`❌ ${t(`config.errors.file.${file.reason}`)}: ${file.path}`);
+    if (file.detail) console.error(`  ${file.detail}`);
+    return null;
+  }
+
+  const { values, issues } = resolveConfig({
+    env: env as Record<string, string | undefined>,
+    file,
+  });
+  if (issues.length > 0) {
+    console.error(t("config.errors.invalid"));
+    for (const issue of issues) console.error(formatConfigIssue(issue));
+    return null;
+  }
+  const resolved = values as Partial<Config>;
 
-  // Check which variables are missing
+  // Check which required values are missing (named after their env vars)
   const missingVars: string[] = [];
 
-  if (!discordToken) missingVars.push("DISCORD_BOT_TOKEN");
-  if (!clientId && !env.CC_DISCORD_USER_ID)
-    missingVars.push("DISCORD_CLIENT_ID");
-  if (!channelId) missingVars.push("DISCORD_CHANNEL_ID");
+  if (!resolved.discordToken) missingVars.push("DISCORD_BOT_TOKEN");
+  if (!resolved.userId) missingVars.push("DISCORD_CLIENT_ID");
+  if (!resolved.channelId) missingVars.push("DISCORD_CHANNEL_ID");
 
   // Show setup instructions if any required variables are missing
   if (missingVars.length > 0) {
@@ -80,6 +457,8 @@ export function loadConfig(debugMode = false): Config | null {
   }
 
   // Warn if ANTHROPIC_API_KEY is set (Claude Code uses internal auth)
+  const claudeApiKey =
+    env.ANTHROPIC_API_KEY || env.CC_CLAUDE_API_KEY || env.CC_ANTHROPIC_API_KEY;
   if (claudeApiKey && !debugMode) {
     console.log("\n" + "⚠️ ".repeat(25));
     console.log(t("config.warnings.apiKeyNotNeeded"));
@@ -88,71 +467,135 @@ export function loadConfig(debugMode = false): Config | null {
     console.log("⚠️ ".repeat(25) + "\n");
   }
 
-  // Parse permission mode from env
-  let claudePermissionMode: "bypassPermissions" | "ask" | undefined;
-  const rawMode = env.CLAUDE_PERMISSION_MODE?.trim();
-  if (rawMode) {
-    if (rawMode === "default") {
-      // keep undefined to use existing default behavior (backward compatible)
-    } else if (rawMode === "ask" || rawMode === "bypassPermissions") {
-      claudePermissionMode = rawMode;
-    } else {
-      console.warn(
-        `[config] Invalid CLAUDE_PERMISSION_MODE="${rawMode}" - falling back to default`
-      );
-    }
-  }
-
-  // Parse allowed users from env
-  let allowedUsers: string[] | undefined;
-  if (env.DISCORD_ALLOWED_USERS) {
-    allowedUsers = env.DISCORD_ALLOWED_USERS.split(",").map(id => id.trim()).filter(id => id.length > 0);
-    if (allowedUsers.length === 0) {
-      allowedUsers = undefined;
-    }
-  }
-
-  // Parse Gemini configuration
-  const useGemini = env.USE_GEMINI === "true" || env.USE_GEMINI === "1";
-  const geminiApiKey = env.GEMINI_API_KEY;
-  const geminiModel = env.GEMINI_MODEL || "gemini-pro";
-  const geminiMaxTokens = env.GEMINI_MAX_TOKENS ? parseInt(env.GEMINI_MAX_TOKENS) : undefined;
-  const geminiTemperature = env.GEMINI_TEMPERATURE ? parseFloat(env.GEMINI_TEMPERATURE) : undefined;
-
   // Warn if Gemini is enabled but API key is missing
-  if (useGemini && !geminiApiKey) {
+  if (resolved.useGemini && !resolved.geminiApiKey) {
     console.error(t("config.errors.geminiApiKeyMissing"));
     return null;
   }
 
+  return finalizeConfig(resolved, debugMode);
+}
+
+function finalizeConfig(resolved: Partial<Config>, debugMode: boolean): Config {
+  // "default" keeps the existing default behavior (backward compatible)
+  const claudePermissionMode = (resolved.claudePermissionMode as string) === "default"
+    ? undefined
+    : resolved.claudePermissionMode;
+
+  // The configured model is always part of its allow-list
+  const model = resolved.model!;
+  const geminiModel = resolved.geminiModel!;
+
   return {
-    discordToken: discordToken!,
-    channelId: channelId!,
-    userId: userId!,
-    allowedUsers,
+    discordToken: resolved.discordToken!,
+    channelId: resolved.channelId!,
+    userId: resolved.userId!,
+    ...resolved,
+    allowedUsers: resolved.allowedUsers?.length ? resolved.allowedUsers : undefined,
     debugMode,
     neverSleep: false, // Set from CLI options
-    maxTurns: 300,
-    model: "claude-opus-4-20250514",
+    maxTurns: resolved.maxTurns!,
+    model,
+    allowedModels: withModel(resolved.allowedModels ?? [], model),
     claudePermissionMode,
-    // Streaming defaults
-    streamingEnabled: true,
-    streamingUpdateMode: "edit",
-    streamingIntervalMs: 1000,
-    streamingToolChunkPrefix: "📋 ツール実行結果:",
-    streamingMaxChunkLength: 1800,
-    streamingShowThinking: true,
-    streamingShowDone: true,
-    streamingShowAbort: true,
-    // Gemini configuration
-    useGemini,
-    geminiApiKey,
+    projectRoots: resolved.projectRoots?.length ? resolved.projectRoots : undefined,
+    workdirsFile: resolved.workdirsFile || undefined,
+    queueFile: resolved.queueFile || undefined,
+    cooldownFile: resolved.cooldownFile || undefined,
+    usageFile: resolved.usageFile || undefined,
     geminiModel,
-    geminiMaxTokens,
-    geminiTemperature,
+    geminiAllowedModels: withModel(resolved.geminiAllowedModels ?? [], geminiModel),
   };
 }
 
+// Settings read at the point of use, so a reload can change them in place.
+// Everything else (token, channel, backends, permission mode, ...) needs a restart.
+export const LIVE_RELOAD_KEYS: readonly FileConfigKey[] = [
+  "allowedUsers",
+  "maxTurns",
+  "model",
+  "allowedModels",
+  "streamingEnabled",
+  "streamingUpdateMode",
+  "streamingIntervalMs",
+  "streamingToolChunkPrefix",
+  "streamingMaxChunkLength",
+  "streamingShowThinking",
+  "streamingShowDone",
+  "streamingShowAbort",
+  "streamingHiddenTools",
+  "streamingShowDiffs",
+  "attachmentsEnabled",
+  "attachMaxTextBytes",
+  "attachInlinePreviewBytes",
+  "attachMaxImageBytes",
+  "attachImagePreviewEnabled",
+  "attachImagePreviewWidth",
+  "attachMaxPreviewBytes",
+  "attachBaseDir",
+  "resumeHistoryTurns",
+  "resumeHistoryMaxChars",
+  "shellEnabled",
+  "shellAllowedCommands",
+  "shellTimeoutMs",
+  "shellMaxOutputChars",
+  "budgetUserDailyUsd",
+  "budgetThreadDailyUsd",
+  "budgetDailyUsd",
+  "geminiModel",
+  "geminiAllowedModels",
+  "geminiMaxTokens",
+  "geminiTemperature",
+  "geminiHistoryTurns",
+  "geminiHistoryMaxChars",
+];
+
+export type ConfigReload =
+  | { ok: false; errors: string[] }
+  | { ok: true; applied: FileConfigKey[]; rejected: FileConfigKey[] };
+
+// Re-reads the config file and environment and applies live-reloadable changes to
+// `config` in place. `pinned` keys were set on the command line and keep that value.
+export function reloadConfig(
+  config: Config,
+  options: { configPath?: string; pinned?: FileConfigKey[] } = {},
+): ConfigReload {
+  const file = readConfigFile(options.configPath);
+  if (!file.ok) {
+    const detail = file.detail ? ` (${file.detail})` : "";
+    return {
+      ok: false,
+      errors: [`${t(`config.errors.file.${file.reason}`)}: ${file.path}${detail}`],
+    };
+  }
+
+  const { values, issues } = resolveConfig({ env: Deno.env.toObject(), file });
+  if (issues.length > 0) {
+    return { ok: false, errors: issues.map(formatConfigIssue) };
+  }
+
+  const resolved = values as Partial<Config>;
+  for (const key of options.pinned ?? []) {
+    Object.assign(resolved, { [key]: config[key] });
+  }
+  const next = finalizeConfig(resolved, config.debugMode);
+  const applied: FileConfigKey[] = [];
+  const rejected: FileConfigKey[] = [];
+  for (const key of Object.keys(CONFIG_SCHEMA) as FileConfigKey[]) {
+    if (JSON.stringify(next[key]) === JSON.stringify(config[key])) continue;
+    (LIVE_RELOAD_KEYS.includes(key) ? applied : rejected).push(key);
+  }
+
+  for (const key of applied) {
+    Object.assign(config, { [key]: next[key] });
+  }
+  return { ok: true, applied, rejected };
+}
+
+export function withModel(models: string[], model: string): string[] {
+  return models.includes(model) ? models : [model, ...models];
+}
+
 // Validate configuration
 export function validateConfig(config: Config): boolean {
   if (!config.discordToken || !config.channelId || !config.userId) {
@@ -165,6 +608,6 @@ export function validateConfig(config: Config): boolean {
 // Default configuration
 export const DEFAULT_CONFIG = {
   maxTurns: 300,
-  model: "claude-opus-4-20250514",
+  model: DEFAULT_CLAUDE_MODEL,
   permissionMode: "ask",
 } as const;
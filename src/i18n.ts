@@ -41,6 +41,21 @@ interface LocaleMessages {
     };
     errors: {
       geminiApiKeyMissing: string;
+      invalid: string;
+      file: {
+        notFound: string;
+        parse: string;
+        notObject: string;
+      };
+      unknownKey: string;
+      expectedString: string;
+      expectedBoolean: string;
+      expectedInteger: string;
+      expectedNumber: string;
+      expectedList: string;
+      tooSmall: string;
+      tooLarge: string;
+      notOneOf: string;
     };
   };
 
@@ -58,6 +73,9 @@ interface LocaleMessages {
         debug: string;
         help: string;
         locale: string;
+        model: string;
+        config: string;
+        printConfig: string;
       };
       envVars: {
         title: string;
@@ -80,8 +98,16 @@ interface LocaleMessages {
       sessionNotSelected: string;
       configLoadFailed: string;
     };
-    sessionNotImplemented: string;
-    sessionListNotImplemented: string;
+    sessions: {
+      noSessions: string;
+      listTitle: string;
+      recentSessions: string;
+      selectPrompt: string;
+      historyTitle: string;
+      noHistory: string;
+      continueLatest: string;
+      continueNone: string;
+    };
   };
 
   // Main messages
@@ -133,17 +159,179 @@ interface LocaleMessages {
       header: string;
       reset: string;
       stop: string;
+      stopKeep: string;
+      newSession: string;
+      tasks: string;
+      queue: string;
+      workdir: string;
+      project: string;
+      backend: string;
+      status: string;
+      usage: string;
+      slashCommands: string;
       exit: string;
       shellCommand: string;
       normalMessage: string;
     };
     receivedMessage: string;
+    resume: {
+      historyTitle: string;
+      failedRecap: string;
+    };
     commands: {
       resetComplete: string;
+      previousSession: string;
+      newSession: string;
+      newSessionPending: string;
+      newThreadCreated: string;
       stopComplete: string;
+      aborted: string;
+      stopNothingRunning: string;
+      stopQueueCleared: string;
+      stopQueueKept: string;
       exitMessage: string;
       executing: string;
     };
+    permissions: {
+      title: string;
+      timeoutNotice: string;
+      approve: string;
+      alwaysAllow: string;
+      deny: string;
+      approved: string;
+      alwaysAllowed: string;
+      denied: string;
+      timedOut: string;
+      cancelled: string;
+    };
+    shell: {
+      disabled: string;
+      blocked: string;
+      noOutput: string;
+      truncated: string;
+      timedOut: string;
+      exitCode: string;
+      notFound: string;
+      failed: string;
+    };
+    diff: {
+      summary: string;
+    };
+    result: {
+      turns: string;
+    };
+    cooldown: {
+      waiting: string;
+      parked: string;
+      parkedReply: string;
+      resumed: string;
+    };
+    usage: {
+      title: string;
+      user: string;
+      thread: string;
+      day: string;
+      noLimit: string;
+      requests: string;
+      tokens: string;
+      resets: string;
+      exceeded: string;
+      unavailable: string;
+    };
+    queue: {
+      title: string;
+      empty: string;
+      queued: string;
+      cancelled: string;
+      prioritized: string;
+      invalidPosition: string;
+      usage: string;
+      unavailable: string;
+      replayed: string;
+      attachments: string;
+    };
+    tasks: {
+      title: string;
+      empty: string;
+      notFound: string;
+      disabled: string;
+      completed: string;
+      failed: string;
+      usage: string;
+    };
+    neverSleep: {
+      started: string;
+      idleMinutes: string;
+      maxHours: string;
+      stopped: string;
+      shutdown: string;
+      maxTimeReached: string;
+      noTasks: string;
+      dispatching: string;
+      dispatchingNext: string;
+      taskUpdated: string;
+      remaining: string;
+    };
+    workdir: {
+      current: string;
+      changed: string;
+      sessionReset: string;
+      rejected: string;
+      projects: string;
+      noProjects: string;
+      roots: string;
+    };
+    status: {
+      title: string;
+      uptime: string;
+      connection: string;
+      threads: string;
+      session: string;
+      noSession: string;
+      activity: string;
+      running: string;
+      idle: string;
+      queued: string;
+      streams: string;
+      cooldown: string;
+      noCooldown: string;
+      model: string;
+      backend: string;
+      neverSleep: string;
+      enabled: string;
+      disabled: string;
+    };
+    model: {
+      changed: string;
+      rejected: string;
+      allowed: string;
+    };
+    config: {
+      reloaded: string;
+      restartRequired: string;
+      invalid: string;
+    };
+    backend: {
+      current: string;
+      changed: string;
+      rejected: string;
+      available: string;
+    };
+    slash: {
+      reset: string;
+      stop: string;
+      stopKeep: string;
+      retry: string;
+      status: string;
+      model: string;
+      session: string;
+      modelName: string;
+      registered: string;
+      registerFailed: string;
+      notSessionThread: string;
+      retrying: string;
+      failed: string;
+    };
   };
 
   // Actor messages
@@ -197,6 +385,21 @@ const messages: Record<Locale, LocaleMessages> = {
       },
       errors: {
         geminiApiKeyMissing: "❌ Gemini が有効になっていますが、GEMINI_API_KEY が設定されていません",
+        invalid: "❌ 設定に不正な値があります:",
+        file: {
+          notFound: "設定ファイルが見つかりません",
+          parse: "設定ファイルを解析できません",
+          notObject: "設定ファイルの最上位はオブジェクト（テーブル）である必要があります",
+        },
+        unknownKey: "不明な設定項目です",
+        expectedString: "文字列を指定してください",
+        expectedBoolean: "true / false を指定してください",
+        expectedInteger: "整数を指定してください",
+        expectedNumber: "数値を指定してください",
+        expectedList: "文字列の配列（環境変数ではカンマ区切り）を指定してください",
+        tooSmall: "次の値以上を指定してください:",
+        tooLarge: "次の値以下を指定してください:",
+        notOneOf: "次のいずれかを指定してください:",
       },
     },
     cli: {
@@ -213,6 +416,9 @@ const messages: Record<Locale, LocaleMessages> = {
             "デバッグモードを有効化（ClaudeCodeの代わりにDebugActorを使用）",
           help: "このヘルプメッセージを表示",
           locale: "言語を設定 (ja/en)",
+          model: "使用する Claude モデル（既定: CLAUDE_MODEL または claude-opus-4-20250514）",
+          config: "設定ファイル（JSON / TOML、既定: ccdiscord.config.json / .toml）",
+          printConfig: "実際に使われる設定を表示して終了（秘密情報は伏せ字）",
         },
         envVars: {
           title: "環境変数:",
@@ -237,8 +443,16 @@ const messages: Record<Locale, LocaleMessages> = {
         sessionNotSelected: "セッションが選択されませんでした",
         configLoadFailed: "設定の読み込みに失敗しました",
       },
-      sessionNotImplemented: "セッション選択機能は後で実装します",
-      sessionListNotImplemented: "セッション一覧機能は後で実装します",
+      sessions: {
+        noSessions: "現在のプロジェクトに resume 可能なセッションがありません",
+        listTitle: "Resume 可能なセッション一覧 - プロジェクト:",
+        recentSessions: "最近のセッション:",
+        selectPrompt: "resume するセッションを選択してください:",
+        historyTitle: "直近の会話履歴:",
+        noHistory: "会話履歴がありません",
+        continueLatest: "最新のセッションを継続します:",
+        continueNone: "継続できるセッションがないため、新規セッションを開始します",
+      },
     },
     main: {
       startup: {
@@ -286,18 +500,180 @@ const messages: Record<Locale, LocaleMessages> = {
         header:
           "このスレッドでメッセージを送信すると、Claude Code が応答します。",
         reset: "会話をリセット",
-        stop: "実行中のタスクを中断",
+        stop: "実行中のタスクを中断し、待機中のリクエストを破棄",
+        stopKeep: "実行中のタスクのみ中断（待機中のリクエストは保持）",
+        newSession: "新しいスレッドを作成し、別のセッションで並行作業",
+        tasks: "TODO.md の未完了タスクを表示（`!tasks move <from> <to>` / `!tasks done <n>`）",
+        queue: "順番待ちのリクエストを表示（`!cancel <n>` で取り消し、`!priority <n>` で先頭へ）",
+        workdir: "このスレッドの作業ディレクトリを表示・変更",
+        project: "登録済みプロジェクトの一覧表示・切り替え",
+        backend: "このスレッドの応答バックエンドを表示・切り替え",
+        status: "状態・セッション ID・使用中のモデルを表示",
+        usage: "今日の利用額と日次予算を表示",
+        slashCommands: "`/reset` `/stop` `/retry` `/status` `/model` `/session` のスラッシュコマンドも使えます",
         exit: "ボットを終了",
-        shellCommand: "シェルコマンドを実行",
+        shellCommand: "許可リストにあるシェルコマンドを実行",
         normalMessage: "通常のメッセージ: Claude に問い合わせ",
       },
       receivedMessage: "メッセージ受信:",
+      resume: {
+        historyTitle: "直近の会話履歴",
+        failedRecap: "会話履歴の投稿に失敗しました:",
+      },
       commands: {
         resetComplete: "💫 会話をリセットしました。新しい会話を始めましょう！",
+        previousSession: "旧セッション:",
+        newSession: "🆕 新セッション:",
+        newSessionPending: "🆕 新しいセッション ID は次のメッセージ送信時に通知します。",
+        newThreadCreated: "🧵 新しいセッションのスレッドを作成しました:",
         stopComplete: "⛔ 実行中のタスクを停止しました。",
+        aborted: "⛔ 実行を中断しました。",
+        stopNothingRunning: "ℹ️ 実行中のタスクはありません。",
+        stopQueueCleared: "🗑️ 破棄した待機中のリクエスト:",
+        stopQueueKept: "⏳ 待機中のリクエスト（保持）:",
         exitMessage: "👋 ボットを終了します。",
         executing: "実行中:",
       },
+      permissions: {
+        title: "🔐 ツールの実行許可を求めています:",
+        timeoutNotice: "⏱️ 応答がない場合は自動的に拒否します:",
+        approve: "許可",
+        alwaysAllow: "常に許可",
+        deny: "拒否",
+        approved: "✅ 許可しました",
+        alwaysAllowed: "✅ 許可しました（このスレッドではこのツールを以後確認しません）",
+        denied: "🚫 拒否しました",
+        timedOut: "⏱️ タイムアウトのため拒否しました",
+        cancelled: "⛔ 実行が中断されたため取り消しました",
+      },
+      shell: {
+        disabled: "⚠️ シェルコマンドの実行は無効です（SHELL_COMMANDS_ENABLED=true で有効化）。",
+        blocked: "🚫 このコマンドは許可されていません:",
+        noOutput: "✅ コマンドが正常に実行されました（出力なし）",
+        truncated: "⚠️ 出力が長すぎるため、先頭のみ表示しています。",
+        timedOut: "⏱️ タイムアウトしたためコマンドを停止しました。",
+        exitCode: "⚠️ 終了コード:",
+        notFound: "コマンドが見つかりません",
+        failed: "❌ コマンドの実行に失敗しました:",
+      },
+      diff: {
+        summary: "📄 変更したファイル:",
+      },
+      result: {
+        turns: "ターン",
+      },
+      cooldown: {
+        waiting: "⏳ Claude の使用制限に達しました。リセット:",
+        parked: "リセット後に実行するリクエスト:",
+        parkedReply: "⏸️ 使用制限中のため、リセット後に実行します。順番:",
+        resumed: "▶️ 使用制限がリセットされました。再開するリクエスト:",
+      },
+      usage: {
+        title: "💰 今日の利用額",
+        user: "あなた",
+        thread: "このスレッド",
+        day: "ボット全体",
+        noLimit: "上限なし",
+        requests: "あなたのリクエスト数",
+        tokens: "トークン",
+        resets: "予算のリセット:",
+        exceeded: "🚫 日次予算を使い切ったため、このリクエストは実行しません。",
+        unavailable: "⚠️ 利用額を取得できません（Claude バックエンドが無効です）。",
+      },
+      queue: {
+        title: "⏳ 順番待ちのリクエスト",
+        empty: "✅ 順番待ちのリクエストはありません。",
+        queued: "⏳ 実行中のリクエストが終わるまで待機します。順番:",
+        cancelled: "🗑️ 取り消しました:",
+        prioritized: "⏫ 先頭に移動しました:",
+        invalidPosition: "⚠️ その番号のリクエストはありません:",
+        usage: "使い方: `!queue` / `!cancel <n>` / `!priority <n>`",
+        unavailable: "⚠️ このスレッドのバックエンドは順番待ちを管理していません。",
+        replayed: "♻️ 前回の終了時に完了していなかったリクエストを再開します:",
+        attachments: "添付ファイル:",
+      },
+      tasks: {
+        title: "📝 TODO.md の未完了タスク",
+        empty: "✅ TODO.md の未完了タスクはありません。",
+        notFound: "⚠️ TODO.md が見つかりません:",
+        disabled: "⚠️ タスク管理は無効です（ENABLE_AUTO_RESPONDER=true または --never-sleep で有効化）。",
+        completed: "✅ 完了にしました:",
+        failed: "⚠️ タスクを更新できませんでした:",
+        usage: "使い方: `!tasks` / `!tasks move <from> <to>` / `!tasks done <n>`",
+      },
+      neverSleep: {
+        started: "🌙 Never Sleep モードを開始しました。アイドル時に TODO.md の次のタスクを実行します。",
+        idleMinutes: "アイドル判定（分）:",
+        maxHours: "最大実行時間（時間）:",
+        stopped: "☀️ Never Sleep モードを終了しました:",
+        shutdown: "ボットの終了",
+        maxTimeReached: "最大実行時間に到達",
+        noTasks: "TODO.md の未完了タスクなし",
+        dispatching: "🤖 アイドル状態のため、TODO.md の次のタスクに取り掛かります:",
+        dispatchingNext: "🤖 アイドル状態のため、TODO.md の次のタスクに取り掛かります…",
+        taskUpdated: "✅ TODO.md を更新しました:",
+        remaining: "残りのタスク:",
+      },
+      workdir: {
+        current: "📁 作業ディレクトリ:",
+        changed: "📁 作業ディレクトリを変更しました:",
+        sessionReset: "🆕 ディレクトリが変わったため、次のメッセージから新しいセッションで開始します。前のセッション:",
+        rejected: "⛔ 作業ディレクトリを変更できません:",
+        projects: "📚 プロジェクト一覧",
+        noProjects: "登録済みのプロジェクトはありません（ccdiscord.workdirs.json の projects で設定）。",
+        roots: "許可されたルート:",
+      },
+      status: {
+        title: "📊 ステータス",
+        uptime: "稼働時間",
+        connection: "接続",
+        threads: "セッションスレッド",
+        session: "セッション ID",
+        noSession: "（次のメッセージで開始）",
+        activity: "このスレッド",
+        running: "⏳ 実行中",
+        idle: "💤 待機中",
+        queued: "待ち",
+        streams: "ストリーミング中",
+        cooldown: "クールダウン",
+        noCooldown: "なし",
+        model: "モデル",
+        backend: "バックエンド",
+        neverSleep: "Never Sleep",
+        enabled: "有効",
+        disabled: "無効",
+      },
+      model: {
+        changed: "🧠 このスレッドのモデルを変更しました（次のメッセージから有効）:",
+        rejected: "⛔ モデルを変更できません:",
+        allowed: "使用できるモデル:",
+      },
+      config: {
+        reloaded: "🔄 設定を再読み込みしました:",
+        restartRequired: "⚠️ 再起動するまで反映されない設定があります:",
+        invalid: "❌ 設定ファイルが不正なため、再読み込みを見送りました",
+      },
+      backend: {
+        current: "🔀 このスレッドのバックエンド:",
+        changed: "🔀 このスレッドのバックエンドを切り替えました:",
+        rejected: "⛔ 使用できないバックエンドです:",
+        available: "使用できるバックエンド:",
+      },
+      slash: {
+        reset: "このスレッドの会話をリセット",
+        stop: "実行中のタスクを中断",
+        stopKeep: "待機中のリクエストを保持する",
+        retry: "直前のリクエストを再実行",
+        status: "ボットとセッションの状態を表示",
+        model: "使用中のモデルを表示・変更",
+        session: "このスレッドのセッション ID を表示",
+        modelName: "このスレッドで使うモデル（省略時は現在のモデルを表示）",
+        registered: "スラッシュコマンドを登録しました:",
+        registerFailed: "スラッシュコマンドを登録できませんでした（applications.commands スコープを確認してください）",
+        notSessionThread: "⚠️ このコマンドはボットのセッションスレッド内で使用してください。",
+        retrying: "🔁 直前のリクエストを再実行します…",
+        failed: "❌ コマンドを実行できませんでした:",
+      },
     },
     actors: {
       starting: "起動中",
@@ -347,6 +723,21 @@ const messages: Record<Locale, LocaleMessages> = {
       },
       errors: {
         geminiApiKeyMissing: "❌ Gemini is enabled but GEMINI_API_KEY is not set",
+        invalid: "❌ Invalid configuration:",
+        file: {
+          notFound: "Config file not found",
+          parse: "Could not parse config file",
+          notObject: "The top level of the config file must be an object (table)",
+        },
+        unknownKey: "unknown setting",
+        expectedString: "must be a string",
+        expectedBoolean: "must be true or false",
+        expectedInteger: "must be an integer",
+        expectedNumber: "must be a number",
+        expectedList: "must be an array of strings (comma-separated in env vars)",
+        tooSmall: "must be at least",
+        tooLarge: "must be at most",
+        notOneOf: "must be one of:",
       },
     },
     cli: {
@@ -362,6 +753,9 @@ const messages: Record<Locale, LocaleMessages> = {
           debug: "Enable debug mode (use DebugActor instead of ClaudeCode)",
           help: "Show this help message",
           locale: "Set language (ja/en)",
+          model: "Claude model to use (default: CLAUDE_MODEL or claude-opus-4-20250514)",
+          config: "Config file (JSON / TOML, default: ccdiscord.config.json / .toml)",
+          printConfig: "Print the effective configuration with secrets redacted and exit",
         },
         envVars: {
           title: "Environment Variables:",
@@ -386,10 +780,16 @@ const messages: Record<Locale, LocaleMessages> = {
         sessionNotSelected: "No session was selected",
         configLoadFailed: "Failed to load configuration",
       },
-      sessionNotImplemented:
-        "Session selection feature will be implemented later",
-      sessionListNotImplemented:
-        "Session list feature will be implemented later",
+      sessions: {
+        noSessions: "No resumable sessions found for the current project",
+        listTitle: "Resumable sessions - project:",
+        recentSessions: "Recent sessions:",
+        selectPrompt: "Select a session to resume:",
+        historyTitle: "Recent conversation history:",
+        noHistory: "No conversation history",
+        continueLatest: "Continuing the latest session:",
+        continueNone: "No session to continue; starting a new session",
+      },
     },
     main: {
       startup: {
@@ -436,18 +836,180 @@ const messages: Record<Locale, LocaleMessages> = {
       instructions: {
         header: "Send a message in this thread and Claude Code will respond.",
         reset: "Reset conversation",
-        stop: "Stop running tasks",
+        stop: "Stop running tasks and discard queued requests",
+        stopKeep: "Stop the running task only (queued requests are kept)",
+        newSession: "Open a new thread with its own session for parallel work",
+        tasks: "Show pending TODO.md tasks (`!tasks move <from> <to>` / `!tasks done <n>`)",
+        queue: "List waiting requests (`!cancel <n>` drops one, `!priority <n>` moves it to the front)",
+        workdir: "Show or change this thread's working directory",
+        project: "List registered projects or switch to one",
+        backend: "Show or switch this thread's assistant backend",
+        status: "Show the status, session ID and model in use",
+        usage: "Show today's spend against the daily budgets",
+        slashCommands: "Slash commands are available too: `/reset` `/stop` `/retry` `/status` `/model` `/session`",
         exit: "Exit bot",
-        shellCommand: "Execute shell command",
+        shellCommand: "Execute an allow-listed shell command",
         normalMessage: "Regular message: Ask Claude",
       },
       receivedMessage: "Received message from",
+      resume: {
+        historyTitle: "Recent conversation",
+        failedRecap: "Failed to post conversation recap:",
+      },
       commands: {
         resetComplete: "💫 Conversation reset. Let's start a new conversation!",
+        previousSession: "Previous session:",
+        newSession: "🆕 New session:",
+        newSessionPending: "🆕 The new session ID will be posted after your next message.",
+        newThreadCreated: "🧵 Opened a new session thread:",
         stopComplete: "⛔ Stopped running tasks.",
+        aborted: "⛔ The run was stopped.",
+        stopNothingRunning: "ℹ️ No task is currently running.",
+        stopQueueCleared: "🗑️ Discarded queued requests:",
+        stopQueueKept: "⏳ Queued requests kept:",
         exitMessage: "👋 Shutting down bot.",
         executing: "Executing:",
       },
+      permissions: {
+        title: "🔐 Permission requested for tool:",
+        timeoutNotice: "⏱️ Denied automatically if unanswered within",
+        approve: "Approve",
+        alwaysAllow: "Always allow",
+        deny: "Deny",
+        approved: "✅ Approved",
+        alwaysAllowed: "✅ Approved (this tool will no longer ask in this thread)",
+        denied: "🚫 Denied",
+        timedOut: "⏱️ Denied after timing out",
+        cancelled: "⛔ Cancelled because the run was stopped",
+      },
+      shell: {
+        disabled: "⚠️ Shell command execution is disabled (enable with SHELL_COMMANDS_ENABLED=true).",
+        blocked: "🚫 Command not allowed:",
+        noOutput: "✅ Command completed (no output)",
+        truncated: "⚠️ Output was too long; only the beginning is shown.",
+        timedOut: "⏱️ Command stopped after timing out.",
+        exitCode: "⚠️ Exit code:",
+        notFound: "command not found",
+        failed: "❌ Command failed:",
+      },
+      diff: {
+        summary: "📄 Files changed:",
+      },
+      result: {
+        turns: "turns",
+      },
+      cooldown: {
+        waiting: "⏳ Claude's usage limit was reached. It resets",
+        parked: "Requests waiting for the reset:",
+        parkedReply: "⏸️ Usage limit in effect; this will run after the reset. Position:",
+        resumed: "▶️ The usage limit has reset. Resuming requests:",
+      },
+      usage: {
+        title: "💰 Today's usage",
+        user: "You",
+        thread: "This thread",
+        day: "Whole bot",
+        noLimit: "no limit",
+        requests: "Your requests",
+        tokens: "Tokens",
+        resets: "Budgets reset",
+        exceeded: "🚫 A daily budget is used up, so this request was not run.",
+        unavailable: "⚠️ Usage is not available (the Claude backend is disabled).",
+      },
+      queue: {
+        title: "⏳ Waiting requests",
+        empty: "✅ No requests are waiting.",
+        queued: "⏳ Waiting for the running request to finish. Position:",
+        cancelled: "🗑️ Cancelled:",
+        prioritized: "⏫ Moved to the front:",
+        invalidPosition: "⚠️ No waiting request at position",
+        usage: "Usage: `!queue` / `!cancel <n>` / `!priority <n>`",
+        unavailable: "⚠️ This thread's backend does not keep a queue.",
+        replayed: "♻️ Resuming requests left unfinished when the bot last stopped:",
+        attachments: "Attachments:",
+      },
+      tasks: {
+        title: "📝 Pending TODO.md tasks",
+        empty: "✅ No pending tasks in TODO.md.",
+        notFound: "⚠️ TODO.md not found:",
+        disabled: "⚠️ Task management is disabled (enable with ENABLE_AUTO_RESPONDER=true or --never-sleep).",
+        completed: "✅ Marked as done:",
+        failed: "⚠️ Could not update tasks:",
+        usage: "Usage: `!tasks` / `!tasks move <from> <to>` / `!tasks done <n>`",
+      },
+      neverSleep: {
+        started: "🌙 Never Sleep mode started. The next TODO.md task runs whenever the thread is idle.",
+        idleMinutes: "Idle after (minutes):",
+        maxHours: "Runs for at most (hours):",
+        stopped: "☀️ Never Sleep mode stopped:",
+        shutdown: "the bot is shutting down",
+        maxTimeReached: "maximum run time reached",
+        noTasks: "no open tasks left in TODO.md",
+        dispatching: "🤖 The thread is idle, starting the next TODO.md task:",
+        dispatchingNext: "🤖 The thread is idle, starting the next TODO.md task…",
+        taskUpdated: "✅ Updated TODO.md:",
+        remaining: "Tasks left:",
+      },
+      workdir: {
+        current: "📁 Working directory:",
+        changed: "📁 Working directory changed to",
+        sessionReset: "🆕 The directory changed, so the next message starts a new session. Previous session:",
+        rejected: "⛔ Cannot change the working directory:",
+        projects: "📚 Projects",
+        noProjects: "No projects registered (configure them under projects in ccdiscord.workdirs.json).",
+        roots: "Allowed roots:",
+      },
+      status: {
+        title: "📊 Status",
+        uptime: "Uptime",
+        connection: "Connection",
+        threads: "Session threads",
+        session: "Session ID",
+        noSession: "(starts with the next message)",
+        activity: "This thread",
+        running: "⏳ Running",
+        idle: "💤 Idle",
+        queued: "queued",
+        streams: "Streaming",
+        cooldown: "Cooldown",
+        noCooldown: "none",
+        model: "Model",
+        backend: "Backend",
+        neverSleep: "Never Sleep",
+        enabled: "enabled",
+        disabled: "disabled",
+      },
+      model: {
+        changed: "🧠 Model for this thread changed (applies from the next message):",
+        rejected: "⛔ Cannot change the model:",
+        allowed: "Available models:",
+      },
+      config: {
+        reloaded: "🔄 Reloaded settings:",
+        restartRequired: "⚠️ These settings take effect after a restart:",
+        invalid: "❌ The config file is invalid; keeping the current settings",
+      },
+      backend: {
+        current: "🔀 Backend for this thread:",
+        changed: "🔀 Switched this thread's backend:",
+        rejected: "⛔ Backend not available:",
+        available: "Available backends:",
+      },
+      slash: {
+        reset: "Reset this thread's conversation",
+        stop: "Stop the running task",
+        stopKeep: "Keep queued requests",
+        retry: "Re-run the previous request",
+        status: "Show the bot and session status",
+        model: "Show or change the model in use",
+        session: "Show this thread's session ID",
+        modelName: "Model for this thread (omit to show the current one)",
+        registered: "Registered slash commands in",
+        registerFailed: "Could not register slash commands (check the applications.commands scope)",
+        notSessionThread: "⚠️ Use this command inside one of the bot's session threads.",
+        retrying: "🔁 Re-running the previous request…",
+        failed: "❌ Command failed:",
+      },
     },
     actors: {
       starting: "Starting",
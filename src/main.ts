@@ -6,8 +6,10 @@ import {
   validateOptions,
   listSessions,
   selectSession,
+  findLatestSession,
+  showConversationHistory,
 } from "./cli.ts";
-import { loadConfig } from "./config.ts";
+import { loadConfig, redactConfig, reloadConfig, withModel } from "./config.ts";
 import { t } from "./i18n.ts";
 import { SimpleMessageBus } from "./message-bus.ts";
 import { UserActor } from "./actors/user-actor.ts";
@@ -16,8 +18,11 @@ import { GeminiCliActor } from "./actors/gemini-cli-actor.ts";
 import { DebugActor } from "./actors/debug-actor.ts";
 import { AutoResponderActor } from "./actors/auto-responder-actor.ts";
 import { DiscordAdapter } from "./adapter/discord-adapter.ts";
-import type { ActorMessage } from "./types.ts";
+import type { Actor, ActorMessage } from "./types.ts";
 import { applyDenoWebSocketShim } from "./utils/deno-ws-shim.ts";
+import { NeverSleepScheduler } from "./utils/never-sleep-scheduler.ts";
+import { type Backend, BackendRouter } from "./utils/backend-router.ts";
+import { ConfigWatcher } from "./utils/config-watcher.ts";
 
 async function main() {
   // Deno WebSocket互換性対策（Discord.jsより前に実行）
@@ -52,8 +57,20 @@ async function main() {
     options.resume = sessionId;
   }
 
+  // Continue the newest session for the current working directory
+  if (options.continue) {
+    const sessionId = await findLatestSession();
+    if (sessionId) {
+      console.log(`${t("cli.sessions.continueLatest")} ${sessionId}`);
+      await showConversationHistory(sessionId, 5);
+      options.resume = sessionId;
+    } else {
+      console.log(t("cli.sessions.continueNone"));
+    }
+  }
+
   // Load configuration
-  const config = loadConfig(options.debug);
+  const config = loadConfig(options.debug, { configPath: options.config });
   if (!config) {
     Deno.exit(1);
   }
@@ -64,30 +81,39 @@ async function main() {
   if (options.resume) {
     config.sessionId = options.resume;
   }
+  if (options.model) {
+    config.model = options.model;
+    config.allowedModels = withModel(config.allowedModels ?? [], options.model);
+  }
+
+  // Show the merged configuration (file < env < CLI) without starting the bot
+  if (options.printConfig) {
+    console.log(JSON.stringify(redactConfig(config), null, 2));
+    Deno.exit(0);
+  }
 
   // Initialize message bus and Actors
   const bus = new SimpleMessageBus();
 
-  // Create each Actor
-  const userActor = new UserActor();
-
-  // Select assistant Actor based on configuration
-  let assistantActor;
-  if (config.debugMode) {
-    assistantActor = new DebugActor("assistant");
-  } else if (config.useGemini) {
-    assistantActor = new GeminiCliActor(config, "assistant");
-  } else {
-    assistantActor = new ClaudeCodeActor(config, "assistant");
+  // Register every configured backend under its own name; threads switch with !backend
+  const backends = new Map<Backend, Actor>();
+  if (!config.debugMode) {
+    const claude = new ClaudeCodeActor(config);
+    claude.setMessageBus(bus);
+    backends.set("claude", claude);
+    if (config.geminiApiKey) {
+      const gemini = new GeminiCliActor(config);
+      gemini.setMessageBus(bus);
+      backends.set("gemini", gemini);
+    }
   }
+  backends.set("debug", new DebugActor());
 
-  // Streaming用に MessageBus を注入（後方互換: DebugActor へは未注入）
-  if (
-    assistantActor instanceof ClaudeCodeActor ||
-    assistantActor instanceof GeminiCliActor
-  ) {
-    assistantActor.setMessageBus(bus);
-  }
+  const defaultBackend: Backend = config.debugMode ? "debug" : config.useGemini ? "gemini" : "claude";
+  const router = new BackendRouter([...backends.keys()], defaultBackend);
+
+  // Create each Actor
+  const userActor = new UserActor("user", router);
 
   // Register Actors
   bus.register(userActor);
@@ -105,7 +131,9 @@ async function main() {
     console.log("[auto-responder] disabled");
   }
   
-  bus.register(assistantActor);
+  for (const actor of backends.values()) {
+    bus.register(actor);
+  }
 
   // Start all Actors
   await bus.startAll();
@@ -173,15 +201,40 @@ ${
 
   // Discord connection (when not in debug mode)
   if (!config.debugMode) {
-    const discordAdapter = new DiscordAdapter(config, bus);
+    const discordAdapter = new DiscordAdapter(config, bus, router);
+
+    // Never Sleep: drive the auto-responder from a timer once the thread is ready
+    const neverSleep = config.neverSleep
+      ? new NeverSleepScheduler(bus, {
+        idleTimeoutMs: (config.neverSleepIdleMinutes ?? 5) * 60 * 1000,
+        maxExecutionTimeMs: (config.neverSleepMaxHours ?? 6) * 60 * 60 * 1000,
+        assistantFor: (channelId) => router.actorFor(channelId),
+      })
+      : undefined;
+    neverSleep?.start();
+
+    // Hot-reload: apply live-safe edits to the config file without a restart
+    const configWatcher = new ConfigWatcher({
+      configPath: options.config,
+      onChange: async () => {
+        const result = reloadConfig(config, {
+          configPath: options.config,
+          pinned: options.model ? ["model"] : [],
+        });
+        await discordAdapter.announceConfigReload(result);
+      },
+    });
 
     try {
       await discordAdapter.start();
       console.log(`\n${t("main.discord.connected")}`);
+      configWatcher.start();
 
       // Handle process termination
       Deno.addSignalListener("SIGINT", async () => {
         console.log(`\n${t("main.discord.shutdown")}`);
+        configWatcher.stop();
+        await neverSleep?.stop();
         await discordAdapter.stop();
         await bus.stopAll();
         Deno.exit(0);
@@ -0,0 +1,52 @@
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { BackendRouter } from "../utils/backend-router.ts";
+import { UserActor } from "../actors/user-actor.ts";
+import type { ActorMessage } from "../types.ts";
+
+function userMessage(text: string, channelId: string): ActorMessage {
+  return {
+    id: crypto.randomUUID(),
+    from: "discord",
+    to: "user",
+    type: "discord-message",
+    payload: { text, channelId },
+    timestamp: new Date(),
+  };
+}
+
+Deno.test("BackendRouter", async (t) => {
+  await t.step("スレッドごとにバックエンドを切り替える", () => {
+    const router = new BackendRouter(["claude", "debug"], "claude");
+    assertEquals(router.actorFor("thread-a"), "claude-code");
+
+    assert(router.set("thread-a", "debug"));
+    assertEquals(router.actorFor("thread-a"), "debug");
+    assertEquals(router.actorFor("thread-b"), "claude-code");
+    assertEquals(router.actorFor(), "claude-code");
+
+    assert(router.set("thread-a", "claude"));
+    assertEquals(router.backendFor("thread-a"), "claude");
+  });
+
+  await t.step("rejects backends that are not configured", () => {
+    const router = new BackendRouter(["claude", "debug"], "claude");
+    assertEquals(router.set("thread-a", "gemini"), false);
+    assertEquals(router.set("thread-a", "gpt"), false);
+    assertEquals(router.isBackendActor("gemini-cli"), false);
+    assertEquals(router.isBackendActor("debug"), true);
+  });
+
+  await t.step("UserActor routes messages by the thread's backend", async () => {
+    const router = new BackendRouter(["claude", "debug"], "claude");
+    router.set("thread-a", "debug");
+    const actor = new UserActor("user", router);
+
+    const routed = await actor.handleMessage(userMessage("debug this task", "thread-b"));
+    assertEquals(routed?.to, "claude-code");
+    assertEquals((await actor.handleMessage(userMessage("hello", "thread-a")))?.to, "debug");
+
+    const command = await actor.handleMessage(userMessage("!backend Debug", "thread-b"));
+    assertEquals(command?.type, "switch-backend");
+    assertEquals(command?.payload, { backend: "debug" });
+  });
+});
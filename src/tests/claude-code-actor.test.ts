@@ -1,9 +1,15 @@
 import {
   assertEquals,
   assertExists,
+  assertStringIncludes,
 } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { join } from "@std/path";
 import { ClaudeCodeActor } from "../actors/claude-code-actor.ts";
+import type { ClaudeClient } from "../adapter/claude-code-adapter.ts";
+import { SimpleMessageBus } from "../message-bus.ts";
+import { SessionPersistence } from "../utils/resilient-connection.ts";
 import type { Config } from "../config.ts";
+import type { ActorMessage, FileChange } from "../types.ts";
 
 // Helper to create minimal config
 function createConfig(overrides: Partial<Config> = {}): Config {
@@ -125,7 +131,678 @@ Deno.test("ClaudeCodeActor", async (t) => {
 
       const res = await actor.handleMessage(message);
       assertExists(res); // 応答自体は返る（空応答でもよい）
-      assertEquals(capturedPermissionMode, "ask"); // permissionMode が正しく伝播
+      // ask は SDK が受け付ける default として伝播する
+      assertEquals(capturedPermissionMode, "default");
     }
   );
+
+  await t.step(
+    "case4: stop-tasks が実行中クエリを中断し、待機キューを破棄する",
+    async () => {
+      // 中断されるまで待機し続ける fake client
+      const fakeClient: ClaudeClient = {
+        query: ({ abortController }) =>
+          (async function* () {
+            yield {
+              type: "assistant",
+              message: { content: [{ type: "text", text: "working" }] },
+            };
+            await new Promise<void>((resolve) =>
+              abortController?.signal.addEventListener("abort", () => resolve())
+            );
+            yield {
+              type: "assistant",
+              message: { content: [{ type: "text", text: "late" }] },
+            };
+          })(),
+      };
+      const actor = new ClaudeCodeActor(createConfig(), "claude-actor-test-4", fakeClient);
+      const bus = new SimpleMessageBus();
+      actor.setMessageBus(bus);
+
+      const events: ActorMessage[] = [];
+      bus.addListener((msg) => events.push(msg));
+
+      const makeMessage = (id: string): ActorMessage => ({
+        id,
+        from: "tester",
+        to: "claude-actor-test-4",
+        type: "user-message",
+        payload: { text: id, channelId: "thread-1", originalMessageId: id },
+        timestamp: new Date(),
+      });
+
+      const running = actor.handleMessage(makeMessage("msg-running"));
+      await actor.handleMessage(makeMessage("msg-queued"));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const res = await actor.handleMessage({
+        id: "stop-1",
+        from: "discord",
+        to: "claude-actor-test-4",
+        type: "stop-tasks",
+        payload: { clearQueue: true },
+        timestamp: new Date(),
+      });
+      await running;
+
+      assertExists(res);
+      assertEquals(res.type, "tasks-stopped");
+      assertEquals(res.payload, { aborted: true, dropped: 1, remaining: 0 });
+
+      const errorEvent = events.find((e) => e.type === "stream-error");
+      assertExists(errorEvent);
+      const payload = errorEvent.payload as { aborted?: boolean; fatal?: boolean };
+      assertEquals(payload.aborted, true);
+      assertEquals(payload.fatal, false);
+      // 待機に回ったことは通知されるが、破棄されたリクエストは実行されない
+      const queued = events.find((e) => e.type === "request-queued");
+      assertEquals(queued?.payload, {
+        channelId: "thread-1",
+        originalMessageId: "msg-queued",
+        position: 1,
+      });
+      assertEquals(
+        events.some((e) =>
+          e.type.startsWith("stream-") &&
+          (e.payload as { originalMessageId?: string }).originalMessageId === "msg-queued"
+        ),
+        false,
+      );
+    },
+  );
+
+  await t.step(
+    "case5: スレッドごとに独立したセッションとキューで処理される",
+    async () => {
+      const config = createConfig({ sessionId: "resumed-session" });
+      const calls: Array<{ prompt: string; resume?: string; continue?: boolean }> = [];
+      let sessionCounter = 0;
+
+      // スレッド B の 1 件目は A の完了を待たずに始まることを確認するため、A だけ待たせる
+      let releaseA!: () => void;
+      const gateA = new Promise<void>((resolve) => (releaseA = resolve));
+      const fakeClient: ClaudeClient = {
+        query: ({ prompt, options }) => {
+          calls.push({ prompt, resume: options.resume, continue: options.continue });
+          const sessionId = options.resume ?? `session-${++sessionCounter}`;
+          return (async function* () {
+            yield { type: "system", subtype: "init", session_id: sessionId };
+            if (prompt === "a-1") await gateA;
+            yield { type: "assistant", message: { content: [{ type: "text", text: prompt }] } };
+            yield { type: "result", session_id: sessionId };
+          })();
+        },
+      };
+      const actor = new ClaudeCodeActor(config, "claude-actor-test-5", fakeClient);
+      const bus = new SimpleMessageBus();
+      actor.setMessageBus(bus);
+
+      const completed: Array<{ channelId: string; fullText: string; sessionId?: string }> = [];
+      bus.addListener((msg) => {
+        if (msg.type === "stream-completed") {
+          completed.push(msg.payload as (typeof completed)[number]);
+        }
+      });
+
+      const makeMessage = (text: string, channelId: string): ActorMessage => ({
+        id: text,
+        from: "tester",
+        to: "claude-actor-test-5",
+        type: "user-message",
+        payload: { text, channelId, originalMessageId: text },
+        timestamp: new Date(),
+      });
+
+      const opened = await actor.handleMessage({
+        id: "open-b",
+        from: "discord",
+        to: "claude-actor-test-5",
+        type: "open-session",
+        payload: { channelId: "thread-b" },
+        timestamp: new Date(),
+      });
+      assertEquals(opened?.type, "session-opened");
+
+      const a1 = actor.handleMessage(makeMessage("a-1", "thread-a"));
+      await actor.handleMessage(makeMessage("b-1", "thread-b"));
+      assertEquals(completed.map((c) => c.fullText), ["b-1"]);
+
+      releaseA();
+      await a1;
+      await actor.handleMessage(makeMessage("b-2", "thread-b"));
+
+      // A（最初のスレッド）は再開セッションを引き継ぎ、B は新しいセッション
+      assertEquals(completed.find((c) => c.fullText === "a-1")?.sessionId, "resumed-session");
+      assertEquals(completed.find((c) => c.fullText === "b-1")?.sessionId, "session-1");
+      assertEquals(calls.find((c) => c.prompt === "a-1")?.resume, "resumed-session");
+      assertEquals(calls.find((c) => c.prompt === "b-2")?.continue, undefined);
+      assertEquals(calls.find((c) => c.prompt === "b-2")?.resume, "session-1");
+
+      // stop はそのスレッドのセッションにだけ作用する
+      const stopped = await actor.handleMessage({
+        id: "stop-b",
+        from: "discord",
+        to: "claude-actor-test-5",
+        type: "stop-tasks",
+        payload: { channelId: "thread-b" },
+        timestamp: new Date(),
+      });
+      assertEquals(stopped?.payload, { aborted: false, dropped: 0, remaining: 0 });
+    },
+  );
+
+  await t.step(
+    "case6: set-workdir は cwd を渡し、ディレクトリが変わるとセッションを作り直す",
+    async () => {
+      const config = createConfig();
+      const calls: Array<{ prompt: string; cwd?: string; resume?: string }> = [];
+      const fakeClient: ClaudeClient = {
+        query: ({ prompt, options }) => {
+          calls.push({ prompt, cwd: options.cwd, resume: options.resume });
+          return (async function* () {
+            yield { type: "system", subtype: "init", session_id: `session-${calls.length}` };
+            yield { type: "result", result: prompt, session_id: `session-${calls.length}` };
+          })();
+        },
+      };
+      const actor = new ClaudeCodeActor(config, "claude-actor-test-6", fakeClient);
+      const send = (type: string, payload: unknown) =>
+        actor.handleMessage({
+          id: crypto.randomUUID(),
+          from: "discord",
+          to: "claude-actor-test-6",
+          type,
+          payload,
+          timestamp: new Date(),
+        });
+
+      await send("user-message", { text: "first", channelId: "thread-a" });
+      const changed = await send("set-workdir", { channelId: "thread-a", cwd: "/tmp" });
+      assertEquals(changed?.type, "workdir-changed");
+      assertEquals(changed?.payload, { cwd: "/tmp", changed: true, previousSessionId: "session-1" });
+
+      await send("user-message", { text: "second", channelId: "thread-a" });
+      assertEquals(calls[0].cwd, undefined);
+      assertEquals(calls[1], { prompt: "second", cwd: "/tmp", resume: undefined });
+
+      const unchanged = await send("set-workdir", { channelId: "thread-a", cwd: "/tmp" });
+      assertEquals(unchanged?.payload, { cwd: "/tmp", changed: false, previousSessionId: undefined });
+
+      const info = await send("get-session-info", { channelId: "thread-a" });
+      assertEquals(info?.type, "session-info");
+      assertEquals(info?.payload, {
+        sessionId: "session-2",
+        running: false,
+        queued: 0,
+        cwd: "/tmp",
+        model: "test-model",
+        sessions: 1,
+        cooldownUntil: undefined,
+      });
+    },
+  );
+
+  await t.step("case7: set-model は許可リストで検証し、そのスレッドの次のクエリから反映する", async () => {
+    const config = { ...createConfig(), allowedModels: ["test-model", "sonnet"] };
+    const models: Array<string | undefined> = [];
+    const fakeClient: ClaudeClient = {
+      query: ({ options }) => {
+        models.push(options.model);
+        return (async function* () {
+          yield { type: "result", result: "ok", session_id: "s" };
+        })();
+      },
+    };
+    const actor = new ClaudeCodeActor(config, "claude-actor-test-7", fakeClient);
+    const send = (type: string, payload: unknown) =>
+      actor.handleMessage({
+        id: crypto.randomUUID(),
+        from: "discord",
+        to: "claude-actor-test-7",
+        type,
+        payload,
+        timestamp: new Date(),
+      });
+
+    const rejected = await send("set-model", { channelId: "thread-a", model: "gpt" });
+    assertEquals(rejected?.type, "error");
+
+    const changed = await send("set-model", { channelId: "thread-a", model: "sonnet" });
+    assertEquals(changed?.payload, { model: "sonnet", previousModel: "test-model" });
+
+    await send("user-message", { text: "a", channelId: "thread-a" });
+    await send("user-message", { text: "b", channelId: "thread-b" });
+    assertEquals(models, ["sonnet", "test-model"]);
+  });
+
+  await t.step("case8: 完了前に終了したリクエストを次の起動時に新しいスレッドで再開する", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "ccdiscord-queue-" });
+    const config = { ...createConfig(), queueFile: join(dir, "pending-jobs.json") };
+    const queueFile = new SessionPersistence("test", config.queueFile);
+
+    // 1 回目の起動: クエリが終わらないうちにプロセスが落ちた状態を再現する
+    const hangingClient: ClaudeClient = {
+      query: ({ abortController }) =>
+        (async function* () {
+          await new Promise<void>((resolve) =>
+            abortController?.signal.addEventListener("abort", () => resolve())
+          );
+          yield { type: "result", result: "aborted", session_id: "s" };
+        })(),
+    };
+    const crashed = new ClaudeCodeActor(config, "claude-actor-test-8", hangingClient);
+    const running = crashed.handleMessage({
+      id: "msg-unfinished",
+      from: "user",
+      to: "claude-actor-test-8",
+      type: "user-message",
+      payload: { text: "unfinished work", channelId: "thread-old" },
+      timestamp: new Date(),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assertEquals((await queueFile.getPendingJobs()).map((job) => job.status), ["sent"]);
+
+    // 2 回目の起動: thread-ready を受けて再開し、完了したら ack する
+    const prompts: string[] = [];
+    const client: ClaudeClient = {
+      query: ({ prompt }) => {
+        prompts.push(prompt);
+        return (async function* () {
+          yield { type: "result", result: "done", session_id: "s" };
+        })();
+      },
+    };
+    const restarted = new ClaudeCodeActor(config, "claude-actor-test-8", client);
+    const bus = new SimpleMessageBus();
+    const events: ActorMessage[] = [];
+    bus.addListener((msg) => events.push(msg));
+    restarted.setMessageBus(bus);
+    await bus.emit({
+      id: "ready",
+      from: "discord",
+      to: "all",
+      type: "thread-ready",
+      payload: { channelId: "thread-new" },
+      timestamp: new Date(),
+    });
+    for (let i = 0; i < 50 && !events.some((e) => e.type === "stream-completed"); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    const notice = events.find((e) => e.type === "thread-notice");
+    assertExists(notice);
+    assertEquals((notice.payload as { channelId: string }).channelId, "thread-new");
+    assertEquals((notice.payload as { text: string }).text.includes("1. unfinished work"), true);
+    assertEquals(prompts, ["unfinished work"]);
+    const completed = events.find((e) => e.type === "stream-completed");
+    assertEquals((completed?.payload as { channelId?: string })?.channelId, "thread-new");
+    assertEquals(await queueFile.getPendingJobs(), []);
+
+    await crashed.handleMessage({
+      id: "stop",
+      from: "discord",
+      to: "claude-actor-test-8",
+      type: "stop-tasks",
+      payload: { channelId: "thread-old" },
+      timestamp: new Date(),
+    });
+    await running;
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  await t.step("case9: 日次予算を使い切ったユーザーのリクエストは実行せずに断る", async () => {
+    const config = { ...createConfig(), budgetUserDailyUsd: 1 };
+    const prompts: string[] = [];
+    const fakeClient: ClaudeClient = {
+      query: ({ prompt }) => {
+        prompts.push(prompt);
+        return (async function* () {
+          yield { type: "result", result: "ok", session_id: "s", total_cost_usd: 0.6 };
+        })();
+      },
+    };
+    const actor = new ClaudeCodeActor(config, "claude-actor-test-9", fakeClient);
+    const bus = new SimpleMessageBus();
+    const events: ActorMessage[] = [];
+    bus.addListener((msg) => events.push(msg));
+    actor.setMessageBus(bus);
+    const send = (id: string, type: string, payload: unknown) =>
+      actor.handleMessage({
+        id,
+        from: "user",
+        to: "claude-actor-test-9",
+        type,
+        payload,
+        timestamp: new Date(),
+      });
+
+    const requests = [["a1", "alice"], ["a2", "alice"], ["a3", "alice"], ["b1", "bob"]];
+    for (const [id, authorId] of requests) {
+      await send(id, "user-message", { text: id, authorId, channelId: "thread-a" });
+    }
+    assertEquals(prompts, ["a1", "a2", "b1"]);
+
+    const rejected = events.find((e) => e.type === "budget-exceeded");
+    assertExists(rejected);
+    const payload = rejected.payload as Record<string, unknown>;
+    assertEquals([payload.originalMessageId, payload.scope, payload.limitUsd], ["a3", "user", 1]);
+    assertEquals((payload.spentUsd as number).toFixed(2), "1.20");
+
+    const usage = await send("u", "get-usage", { userId: "alice", channelId: "thread-a" });
+    assertEquals(usage?.type, "usage-report");
+    const report = usage?.payload as {
+      requests: number;
+      budgets: Array<{ scope: string; limitUsd?: number }>;
+    };
+    assertEquals(report.requests, 2);
+    assertEquals(report.budgets.map((b) => [b.scope, b.limitUsd]), [
+      ["user", 1],
+      ["thread", undefined],
+      ["day", undefined],
+    ]);
+  });
+  await t.step("case10: 使用制限中のリクエストを保留し、再起動後もリセット後に順番どおり再開する", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "ccdiscord-cooldown-" });
+    const config = { ...createConfig(), cooldownFile: join(dir, "cooldown.json") };
+    const resetsAt = Math.floor(Date.now() / 1000) + 2 * 60 * 60;
+    let limited = true;
+    const prompts: string[] = [];
+    const client: ClaudeClient = {
+      query: ({ prompt }) => {
+        prompts.push(prompt);
+        return (async function* () {
+          if (limited) throw new Error(`Claude AI usage limit reached|${resetsAt}`);
+          yield { type: "result", result: prompt, session_id: "s" };
+        })();
+      },
+    };
+    const send = (actor: ClaudeCodeActor, id: string, type: string, payload: unknown) =>
+      actor.handleMessage({
+        id,
+        from: "user",
+        to: "claude-actor-test-10",
+        type,
+        payload,
+        timestamp: new Date(),
+      });
+
+    const before = new ClaudeCodeActor(config, "claude-actor-test-10", client);
+    const beforeBus = new SimpleMessageBus();
+    const beforeEvents: ActorMessage[] = [];
+    beforeBus.addListener((msg) => beforeEvents.push(msg));
+    before.setMessageBus(beforeBus);
+
+    await send(before, "a", "user-message", { text: "a", channelId: "thread-old" });
+    await send(before, "b", "user-message", { text: "b", channelId: "thread-old" });
+    assertEquals(prompts, ["a"]);
+    const parked = beforeEvents.find((e) => e.type === "request-parked");
+    assertEquals(parked?.payload, {
+      channelId: "thread-old",
+      originalMessageId: "b",
+      position: 2,
+      until: new Date(resetsAt * 1000).toISOString(),
+    });
+    const countdown = beforeEvents.filter((e) => e.type === "cooldown-state").at(-1);
+    assertEquals((countdown?.payload as { parked: number }).parked, 2);
+    const info = await send(before, "info", "get-session-info", { channelId: "thread-old" });
+    assertEquals(
+      (info?.payload as { cooldownUntil?: string }).cooldownUntil,
+      new Date(resetsAt * 1000).toISOString(),
+    );
+    await before.stop();
+
+    // 停止中にリセット時刻を過ぎた状態で再起動する
+    const saved = JSON.parse(await Deno.readTextFile(config.cooldownFile));
+    saved.until = new Date(Date.now() - 1000).toISOString();
+    await Deno.writeTextFile(config.cooldownFile, JSON.stringify(saved));
+    limited = false;
+
+    const after = new ClaudeCodeActor(config, "claude-actor-test-10", client);
+    const bus = new SimpleMessageBus();
+    const events: ActorMessage[] = [];
+    bus.addListener((msg) => events.push(msg));
+    after.setMessageBus(bus);
+    await bus.emit({
+      id: "ready",
+      from: "discord",
+      to: "all",
+      type: "thread-ready",
+      payload: { channelId: "thread-new" },
+      timestamp: new Date(),
+    });
+    for (let i = 0; i < 50 && events.filter((e) => e.type === "stream-completed").length < 2; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    assertEquals(prompts, ["a", "a", "b"]);
+    const resumed = events.find((e) => e.type === "cooldown-state");
+    assertEquals(resumed?.payload, {
+      channelId: "thread-new",
+      until: undefined,
+      parked: 0,
+      resumed: 2,
+    });
+    assertEquals(
+      events.filter((e) => e.type === "stream-completed")
+        .map((e) => (e.payload as { channelId: string }).channelId),
+      ["thread-new", "thread-new"],
+    );
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  await t.step("case11: 同じ cwd の 2 スレッドはそれぞれ自分のセッション ID を resume する", async () => {
+    const calls: Array<{ prompt: string; resume?: string; continue?: boolean }> = [];
+    const client: ClaudeClient = {
+      query: ({ prompt, options }) => {
+        calls.push({ prompt, resume: options.resume, continue: options.continue });
+        const sessionId = options.resume ?? `session-${prompt.split(" ")[0]}`;
+        return (async function* () {
+          yield { type: "system", subtype: "init", session_id: sessionId };
+          yield { type: "result", result: prompt, session_id: sessionId };
+        })();
+      },
+    };
+    const actor = new ClaudeCodeActor(createConfig(), "claude-actor-test-11", client);
+    const send = (channelId: string, text: string) =>
+      actor.handleMessage({
+        id: crypto.randomUUID(),
+        from: "discord",
+        to: "claude-actor-test-11",
+        type: "user-message",
+        payload: { text, channelId },
+        timestamp: new Date(),
+      });
+
+    await send("thread-a", "a first");
+    await send("thread-b", "b first");
+    await send("thread-a", "a second");
+    await send("thread-b", "b second");
+
+    assertEquals(calls, [
+      { prompt: "a first", resume: undefined, continue: undefined },
+      { prompt: "b first", resume: undefined, continue: undefined },
+      { prompt: "a second", resume: "session-a", continue: undefined },
+      { prompt: "b second", resume: "session-b", continue: undefined },
+    ]);
+  });
+
+  await t.step("case12: 長時間使われていないスレッドのセッションは新しいセッションを開くときに解放される", async () => {
+    const calls: Array<{ prompt: string; resume?: string }> = [];
+    const client: ClaudeClient = {
+      query: ({ prompt, options }) => {
+        calls.push({ prompt, resume: options.resume });
+        return (async function* () {
+          yield { type: "system", subtype: "init", session_id: `session-${calls.length}` };
+          yield { type: "result", result: prompt, session_id: `session-${calls.length}` };
+        })();
+      },
+    };
+    const actor = new ClaudeCodeActor(createConfig(), "claude-actor-test-12", client);
+    const send = (type: string, payload: unknown) =>
+      actor.handleMessage({
+        id: crypto.randomUUID(),
+        from: "discord",
+        to: "claude-actor-test-12",
+        type,
+        payload,
+        timestamp: new Date(),
+      });
+
+    await send("user-message", { text: "main", channelId: "thread-main" });
+    await send("user-message", { text: "b first", channelId: "thread-b" });
+    await send("user-message", { text: "c first", channelId: "thread-c" });
+
+    // thread-b だけ 1 日以上前に使われたことにする（メインスレッドは対象外）
+    const sessions = actor["sessions"];
+    sessions.get("thread-b")!.lastActiveAt = Date.now() - 25 * 60 * 60_000;
+    sessions.get("thread-main")!.lastActiveAt = Date.now() - 25 * 60 * 60_000;
+
+    const opened = await send("open-session", { channelId: "thread-d" });
+    assertEquals(opened?.payload, { channelId: "thread-d", sessions: 3 });
+    assertEquals([...sessions.keys()].sort(), ["thread-c", "thread-d", "thread-main"]);
+
+    // 解放されたスレッドに再び書き込むと新しいセッションで始まる
+    await send("user-message", { text: "b again", channelId: "thread-b" });
+    assertEquals(calls.at(-1), { prompt: "b again", resume: undefined });
+  });
+
+  await t.step("case13: 失敗したリクエストの利用額も記録する（ストリーミングあり・なし）", async () => {
+    const fakeClient: ClaudeClient = {
+      query: () =>
+        (async function* () {
+          yield {
+            type: "result",
+            subtype: "error_during_execution",
+            is_error: true,
+            session_id: "s",
+            total_cost_usd: 0.4,
+          };
+          throw new Error("Claude Code process exited with code 1");
+        })(),
+    };
+    const spentBy = async (actor: ClaudeCodeActor) => {
+      const message = { text: "fails", authorId: "alice", channelId: "thread-a" };
+      await actor.handleMessage({
+        id: "fail",
+        from: "user",
+        to: actor.name,
+        type: "user-message",
+        payload: message,
+        timestamp: new Date(),
+      });
+      const usage = await actor.handleMessage({
+        id: "u",
+        from: "user",
+        to: actor.name,
+        type: "get-usage",
+        payload: { userId: "alice", channelId: "thread-a" },
+        timestamp: new Date(),
+      });
+      const report = usage?.payload as { requests: number; budgets: Array<{ spentUsd: number }> };
+      return [report.requests, report.budgets[0].spentUsd];
+    };
+
+    const streaming = new ClaudeCodeActor(createConfig(), "claude-actor-test-13a", fakeClient);
+    streaming.setMessageBus(new SimpleMessageBus());
+    assertEquals(await spentBy(streaming), [1, 0.4]);
+
+    const plain = new ClaudeCodeActor(createConfig(), "claude-actor-test-13b", fakeClient);
+    assertEquals(await spentBy(plain), [1, 0.4]);
+  });
+
+  await t.step("case14: 単なる 429 は使用制限の待機を始めず、次のリクエストはそのまま実行する", async () => {
+    const prompts: string[] = [];
+    const client: ClaudeClient = {
+      query: ({ prompt }) => {
+        prompts.push(prompt);
+        return (async function* () {
+          if (prompt === "first") throw new Error("API Error: status 429 Too Many Requests");
+          yield { type: "result", result: prompt, session_id: "s" };
+        })();
+      },
+    };
+    const actor = new ClaudeCodeActor(createConfig(), "claude-actor-test-14", client);
+    const bus = new SimpleMessageBus();
+    const events: ActorMessage[] = [];
+    bus.addListener((msg) => events.push(msg));
+    actor.setMessageBus(bus);
+    for (const text of ["first", "second"]) {
+      await actor.handleMessage({
+        id: text,
+        from: "user",
+        to: "claude-actor-test-14",
+        type: "user-message",
+        payload: { text, channelId: "thread-a" },
+        timestamp: new Date(),
+      });
+    }
+
+    assertEquals(prompts, ["first", "second"]);
+    const notice = events.find((e) => e.type === "stream-error");
+    assertStringIncludes((notice?.payload as { message: string }).message, "!retry");
+    assertEquals(events.some((e) => e.type === "cooldown-state" || e.type === "request-parked"), false);
+    await actor.stop();
+  });
+
+  await t.step("case15: 差分の変更前の内容は PreToolUse フックで読み、CLI の書き込みと競合しない", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "ccdiscord-diff-" });
+    const file = join(dir, "main.ts");
+    await Deno.writeTextFile(file, "const a = 1;\n");
+    const edit = { file_path: "main.ts", old_string: "a = 1", new_string: "a = 2" };
+    const client: ClaudeClient = {
+      query: ({ options }) =>
+        (async function* () {
+          // CLI と同様にフックの応答を待ってからツールを実行する
+          const hook = options.hooks?.PreToolUse?.[0]?.hooks?.[0];
+          await hook?.(
+            {
+              hook_event_name: "PreToolUse",
+              tool_name: "Edit",
+              tool_input: edit,
+              session_id: "s",
+              transcript_path: "",
+              cwd: dir,
+            },
+            "tool-1",
+            { signal: new AbortController().signal },
+          );
+          await Deno.writeTextFile(file, "const a = 2;\n");
+          // tool_use はファイルが書き換わった後に届くことがある
+          yield {
+            type: "assistant",
+            message: { content: [{ type: "tool_use", id: "tool-1", name: "Edit", input: edit }] },
+          };
+          yield { type: "result", result: "done", session_id: "s" };
+        })(),
+    };
+    const actor = new ClaudeCodeActor(createConfig(), "claude-actor-test-15", client);
+    const bus = new SimpleMessageBus();
+    const events: ActorMessage[] = [];
+    bus.addListener((msg) => events.push(msg));
+    actor.setMessageBus(bus);
+    await actor.handleMessage({
+      id: "m",
+      from: "discord",
+      to: "claude-actor-test-15",
+      type: "set-workdir",
+      payload: { channelId: "thread-a", cwd: dir },
+      timestamp: new Date(),
+    });
+    await actor.handleMessage({
+      id: "edit",
+      from: "discord",
+      to: "claude-actor-test-15",
+      type: "user-message",
+      payload: { text: "edit", channelId: "thread-a" },
+      timestamp: new Date(),
+    });
+
+    const completed = events.find((e) => e.type === "stream-completed");
+    const changes = (completed?.payload as { fileChanges: FileChange[] }).fileChanges;
+    assertEquals(changes.map((c) => [c.path, c.added, c.removed]), [["main.ts", 1, 1]]);
+    assertStringIncludes(changes[0].diff, "-const a = 1;\n+const a = 2;");
+    await Deno.remove(dir, { recursive: true });
+  });
 });
+
@@ -5,7 +5,9 @@ import {
 import {
   ClaudeCodeAdapter,
   type ClaudeClient,
+  createClaudeClient,
 } from "../adapter/claude-code-adapter.ts";
+import type { CanUseTool, Options, query as sdkQuery } from "@anthropic-ai/claude-code";
 import type { Config } from "../config.ts";
 
 // Helper to create minimal config
@@ -24,7 +26,7 @@ function createConfig(overrides: Partial<Config> = {}): Config {
 }
 
 Deno.test(
-  "ClaudeCodeAdapter: permissionMode が client.query(...) へ渡る",
+  "ClaudeCodeAdapter: permissionMode が client.query(...) へ渡る（ask は SDK の default へ）",
   async () => {
     const config = createConfig({ claudePermissionMode: "ask" });
 
@@ -41,7 +43,194 @@ Deno.test(
     const adapter = new ClaudeCodeAdapter(config, fakeClient);
     await adapter.query("hello"); // 実行して options をキャプチャ
 
-    assertEquals(capturedOptions?.permissionMode, "ask");
+    assertEquals(capturedOptions?.permissionMode, "default");
+
+    const bypass = new ClaudeCodeAdapter(
+      createConfig({ claudePermissionMode: "bypassPermissions" }),
+      fakeClient,
+    );
+    await bypass.query("hello");
+    assertEquals(capturedOptions?.permissionMode, "bypassPermissions");
+  }
+);
+
+Deno.test(
+  "ClaudeCodeAdapter: ask モードでは permission handler が canUseTool として渡る",
+  async () => {
+    const captured: Options[] = [];
+    const fakeClient: ClaudeClient = {
+      query: ({ options }) => {
+        captured.push(options);
+        return (async function* () {})();
+      },
+    };
+    const handler: CanUseTool = (_tool, input) =>
+      Promise.resolve({ behavior: "allow", updatedInput: input });
+
+    const askAdapter = new ClaudeCodeAdapter(
+      createConfig({ claudePermissionMode: "ask" }),
+      fakeClient,
+    );
+    askAdapter.setPermissionHandler(handler);
+    await askAdapter.query("hello");
+
+    const bypassAdapter = new ClaudeCodeAdapter(
+      createConfig({ claudePermissionMode: "bypassPermissions" }),
+      fakeClient,
+    );
+    bypassAdapter.setPermissionHandler(handler);
+    await bypassAdapter.query("hello");
+
+    assertEquals(captured[0]?.canUseTool, handler);
+    assertEquals(captured[0]?.permissionMode, "default");
+    assertEquals(captured[1]?.canUseTool, undefined);
+  }
+);
+
+Deno.test(
+  "createClaudeClient: canUseTool があると SDK にはストリームの prompt を渡し、result まで閉じない",
+  async () => {
+    const calls: Array<{ prompt: unknown; options?: Options }> = [];
+    const events: string[] = [];
+    const fakeSdk = (({ prompt, options }: Parameters<typeof sdkQuery>[0]) => {
+      calls.push({ prompt, options });
+      return (async function* () {
+        if (typeof prompt === "string") {
+          yield { type: "result", subtype: "success", session_id: "s0" };
+          return;
+        }
+        // SDK 1.0.89 は canUseTool に AsyncIterable<SDKUserMessage> の prompt を要求する
+        const iterator = prompt[Symbol.asyncIterator]();
+        events.push(JSON.stringify((await iterator.next()).value));
+        const inputDone = iterator.next().then((r: IteratorResult<unknown>) =>
+          events.push(`input-done:${r.done}`)
+        );
+        await Promise.resolve();
+        events.push("result");
+        yield { type: "result", subtype: "success", session_id: "s1" };
+        await inputDone;
+      })();
+    }) as unknown as typeof sdkQuery;
+
+    const adapter = new ClaudeCodeAdapter(
+      createConfig({ claudePermissionMode: "ask" }),
+      createClaudeClient(fakeSdk),
+    );
+    const handler: CanUseTool = (_tool, input) =>
+      Promise.resolve({ behavior: "allow", updatedInput: input });
+    adapter.setPermissionHandler(handler);
+    await adapter.query("hello");
+
+    assertEquals(calls[0].options?.canUseTool, handler);
+    assertEquals(calls[0].options?.permissionMode, "default");
+    assertEquals(calls[0].options?.abortController instanceof AbortController, true);
+    assertEquals(events, [
+      JSON.stringify({
+        type: "user",
+        message: { role: "user", content: "hello" },
+        parent_tool_use_id: null,
+        session_id: "",
+      }),
+      "result",
+      "input-done:true",
+    ]);
+
+    // canUseTool もフックもなければ文字列のまま渡す
+    await new ClaudeCodeAdapter(createConfig(), createClaudeClient(fakeSdk)).query("plain");
+    assertEquals(calls[1].prompt, "plain");
+
+    // フック（PreToolUse）もストリーム入力が必要
+    await new ClaudeCodeAdapter(createConfig(), createClaudeClient(fakeSdk))
+      .query("hooked", undefined, () => {});
+    assertEquals(typeof calls[2].prompt, "object");
+  }
+);
+
+Deno.test(
+  "ClaudeCodeAdapter: beforeToolUse は PreToolUse フックとして渡り、ツール名・入力・ID を受け取る",
+  async () => {
+    const seen: unknown[] = [];
+    const hookResults: unknown[] = [];
+    const fakeClient: ClaudeClient = {
+      query: ({ options }) =>
+        (async function* () {
+          const hook = options.hooks?.PreToolUse?.[0]?.hooks[0];
+          const signal = new AbortController().signal;
+          hookResults.push(
+            await hook?.(
+              {
+                hook_event_name: "PreToolUse",
+                session_id: "s",
+                transcript_path: "",
+                cwd: "",
+                tool_name: "Write",
+                tool_input: { file_path: "a.txt" },
+              },
+              "tool-1",
+              { signal },
+            ),
+          );
+          yield { type: "result", subtype: "success", session_id: "s" };
+        })(),
+    };
+
+    const adapter = new ClaudeCodeAdapter(createConfig(), fakeClient);
+    await adapter.query("hello", undefined, (toolName, input, toolUseId) => {
+      seen.push([toolName, input, toolUseId]);
+    });
+    assertEquals(seen, [["Write", { file_path: "a.txt" }, "tool-1"]]);
+    assertEquals(hookResults, [{}]);
+
+    // フックを使わないクエリには hooks を付けない
+    let hooks: unknown = "unset";
+    await new ClaudeCodeAdapter(createConfig(), {
+      query: ({ options }) => {
+        hooks = options.hooks;
+        return (async function* () {})();
+      },
+    }).query("hello");
+    assertEquals(hooks, undefined);
+  }
+);
+
+Deno.test(
+  "ClaudeCodeAdapter: result メッセージのコスト・トークン・ターン数を getLastResult() で返す",
+  async () => {
+    const fakeClient: ClaudeClient = {
+      query: () =>
+        (async function* () {
+          yield {
+            type: "result",
+            subtype: "success",
+            is_error: false,
+            num_turns: 12,
+            duration_ms: 221_000,
+            duration_api_ms: 180_000,
+            total_cost_usd: 0.84,
+            result: "done",
+            usage: { input_tokens: 1200, output_tokens: 340, cache_read_input_tokens: 5000 },
+          };
+        })(),
+    };
+
+    const adapter = new ClaudeCodeAdapter(createConfig(), fakeClient);
+    assertEquals(adapter.getLastResult(), undefined);
+    await adapter.query("hello");
+
+    assertEquals(adapter.getLastResult(), {
+      subtype: "success",
+      isError: false,
+      numTurns: 12,
+      durationMs: 221_000,
+      durationApiMs: 180_000,
+      costUsd: 0.84,
+      usage: {
+        inputTokens: 1200,
+        outputTokens: 340,
+        cacheReadInputTokens: 5000,
+        cacheCreationInputTokens: 0,
+      },
+    });
   }
 );
 
@@ -97,3 +286,58 @@ Deno.test(
     }
   }
 );
+
+Deno.test(
+  "ClaudeCodeAdapter: 単なる 429 は RATE_LIMIT、利用上限のメッセージだけが USAGE_LIMIT になる",
+  async () => {
+    const kindOf = async (message: string) => {
+      const adapter = new ClaudeCodeAdapter(createConfig(), {
+        query: () => {
+          throw new Error(message);
+        },
+      });
+      try {
+        await adapter.query("hello");
+      } catch (e) {
+        return JSON.parse((e as Error).message) as { kind: string; retryAfterMs?: number };
+      }
+      throw new Error("should not reach");
+    };
+
+    const throttled = await kindOf("API Error: status 429 Too Many Requests, retry-after: 20");
+    assertEquals([throttled.kind, throttled.retryAfterMs], ["RATE_LIMIT", 20_000]);
+    assertEquals((await kindOf("HTTP 429: rate limit exceeded")).kind, "RATE_LIMIT");
+    assertEquals((await kindOf("Claude AI usage limit reached|1792310400")).kind, "USAGE_LIMIT");
+    assertEquals((await kindOf("5-hour limit reached ∙ resets 3pm")).kind, "USAGE_LIMIT");
+  }
+);
+
+Deno.test(
+  "ClaudeCodeAdapter: sessionId 指定時は resume し、resetSession 後は新規セッションで問い合わせる",
+  async () => {
+    const config = createConfig({ sessionId: "sess-old" });
+
+    const captured: Options[] = [];
+    const fakeClient: ClaudeClient = {
+      query: ({ options }) => {
+        captured.push(options);
+        return (async function* () {
+          yield { type: "system", subtype: "init", session_id: "sess-resumed" };
+        })();
+      },
+    };
+
+    const adapter = new ClaudeCodeAdapter(config, fakeClient);
+    await adapter.query("first");
+    await adapter.query("second");
+    adapter.resetSession();
+    assertEquals(adapter.getCurrentSessionId(), undefined);
+    await adapter.query("third");
+
+    assertEquals(captured[0]?.resume, "sess-old");
+    assertEquals(captured[1]?.resume, "sess-resumed");
+    assertEquals(captured[1]?.continue, undefined);
+    assertEquals(captured[2]?.resume, undefined);
+    assertEquals(captured[2]?.continue, undefined);
+  }
+);
@@ -0,0 +1,131 @@
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { join } from "@std/path";
+import {
+  type Config,
+  formatConfigIssue,
+  redactConfig,
+  reloadConfig,
+  resolveConfig,
+} from "../config.ts";
+import { readConfigFile } from "../utils/config-file.ts";
+
+Deno.test("config", async (t) => {
+  await t.step("ファイル < 環境変数 の順に上書きする", () => {
+    const { values, issues } = resolveConfig({
+      file: {
+        path: "ccdiscord.config.json",
+        data: { channelId: "from-file", streamingIntervalMs: 500, shellAllowedCommands: ["ls"] },
+      },
+      env: {
+        DISCORD_CHANNEL_ID: "from-env",
+        SHELL_TIMEOUT_SECONDS: "5",
+        CCDISCORD_ATTACH_ENABLE: "false",
+      },
+    });
+    assertEquals(issues, []);
+    assertEquals(values.channelId, "from-env");
+    assertEquals(values.streamingIntervalMs, 500);
+    assertEquals(values.shellAllowedCommands, ["ls"]);
+    assertEquals(values.shellTimeoutMs, 5000);
+    assertEquals(values.attachmentsEnabled, false);
+    assertEquals(values.streamingMaxChunkLength, 1800);
+  });
+
+  await t.step("reports every invalid value with its source", () => {
+    const { issues } = resolveConfig({
+      file: {
+        path: "ccdiscord.config.toml",
+        data: { streamingIntervalMs: "fast", streamingUpdateMode: "replace", colour: "blue" },
+      },
+      env: { GEMINI_TEMPERATURE: "3", USE_GEMINI: "maybe" },
+    });
+    assertEquals(
+      issues.map((issue) => [issue.source, issue.key, issue.problem]),
+      [
+        ["ccdiscord.config.toml", "streamingIntervalMs", "expectedInteger"],
+        ["ccdiscord.config.toml", "streamingUpdateMode", "notOneOf"],
+        ["ccdiscord.config.toml", "colour", "unknownKey"],
+        ["USE_GEMINI", "useGemini", "expectedBoolean"],
+        ["GEMINI_TEMPERATURE", "geminiTemperature", "tooLarge"],
+      ],
+    );
+    const message = formatConfigIssue(issues[1]);
+    assert(message.includes("streamingUpdateMode"));
+    assert(message.includes("edit, append"));
+  });
+
+  await t.step("reads a JSON config file and rejects a missing --config path", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "ccdiscord-config-" });
+    try {
+      await Deno.writeTextFile(
+        join(dir, "ccdiscord.config.json"),
+        JSON.stringify({ model: "sonnet" }),
+      );
+      const found = readConfigFile(undefined, dir);
+      assert(found.ok);
+      assertEquals(found.data, { model: "sonnet" });
+
+      const missing = readConfigFile("other.json", dir);
+      assertEquals(missing.ok ? null : missing.reason, "notFound");
+
+      await Deno.writeTextFile(join(dir, "broken.json"), "{ model: ");
+      const broken = readConfigFile("broken.json", dir);
+      assertEquals(broken.ok ? null : broken.reason, "parse");
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  await t.step("applies live-safe changes on reload and refuses the rest", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "ccdiscord-config-" });
+    const path = join(dir, "ccdiscord.config.json");
+    const write = (data: Record<string, unknown>) =>
+      Deno.writeTextFile(path, JSON.stringify({ discordToken: "TOKEN", userId: "USER", ...data }));
+    try {
+      const config: Config = {
+        discordToken: "TOKEN",
+        channelId: "CHANNEL",
+        userId: "USER",
+        debugMode: false,
+        neverSleep: false,
+        maxTurns: 300,
+        model: "cli-model",
+      };
+      await write({ channelId: "CHANNEL" });
+      reloadConfig(config, { configPath: path, pinned: ["model"] });
+
+      await write({ channelId: "OTHER", streamingIntervalMs: 2500, model: "file-model" });
+      const result = reloadConfig(config, { configPath: path, pinned: ["model"] });
+      assert(result.ok);
+      assertEquals(result.applied, ["streamingIntervalMs"]);
+      assert(result.rejected.includes("channelId"));
+      assertEquals(config.streamingIntervalMs, 2500);
+      assertEquals(config.channelId, "CHANNEL");
+      assertEquals(config.model, "cli-model");
+
+      await write({ channelId: "CHANNEL", streamingIntervalMs: "slow" });
+      const invalid = reloadConfig(config, { configPath: path });
+      assertEquals(invalid.ok, false);
+      assertEquals(config.streamingIntervalMs, 2500);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  await t.step("--print-config は秘密情報を伏せる", () => {
+    const config = {
+      discordToken: "secret-token",
+      channelId: "CHANNEL",
+      userId: "USER",
+      debugMode: false,
+      neverSleep: false,
+      maxTurns: 300,
+      model: "opus",
+      geminiApiKey: "secret-key",
+    } satisfies Config;
+    const redacted = redactConfig(config);
+    assertEquals(redacted.discordToken, "***");
+    assertEquals(redacted.geminiApiKey, "***");
+    assertEquals(redacted.channelId, "CHANNEL");
+  });
+});
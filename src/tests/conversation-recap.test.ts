@@ -0,0 +1,69 @@
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { formatConversationRecap } from "../adapter/discord-adapter.ts";
+import { i18n } from "../i18n.ts";
+import type { ConversationMessage } from "../utils/session-catalog.ts";
+
+Deno.test("formatConversationRecap", async (t) => {
+  const originalLocale = i18n.getLocale();
+  const timestamp = "2025-02-01T15:04:00.000Z";
+
+  await t.step("履歴がなければ何も投稿しない", () => {
+    assertEquals(formatConversationRecap([], "sess-1234567890"), []);
+    assertEquals(
+      formatConversationRecap([{ type: "assistant", content: "  \n" }], "sess-1234567890"),
+      [],
+    );
+  });
+
+  await t.step("見出しとスポイラーで囲んだ発言を返し、| はエスケープする", () => {
+    i18n.setLocale("en");
+    const [chunk] = formatConversationRecap([
+      { type: "user", content: "a | b\nsecond line" },
+      { type: "assistant", content: "ok" },
+    ], "abcdef1234567890");
+
+    assertEquals(chunk.startsWith("## 📋 "), true);
+    assertStringIncludes(chunk, "(`abcdef12`, 2)");
+    assertStringIncludes(
+      chunk,
+      "||👤 **User**\n> a ¦ b\n> second line\n\n🤖 **Assistant**\n> ok||",
+    );
+  });
+
+  await t.step("テキストのない発言は飛ばして件数にも数えない", () => {
+    const messages: ConversationMessage[] = [
+      { type: "user", content: "question" },
+      { type: "assistant", content: "" },
+      { type: "assistant", content: " \n " },
+      { type: "assistant", content: "answer" },
+    ];
+    const [chunk] = formatConversationRecap(messages, "sess-1234567890");
+    assertStringIncludes(chunk, ", 2)");
+    assertEquals(chunk.split("> ").length - 1, 2);
+  });
+
+  await t.step("時刻は現在のロケールで表示する", () => {
+    const message: ConversationMessage[] = [{ type: "user", content: "hi", timestamp }];
+    for (const [locale, tag] of [["en", "en-US"], ["ja", "ja-JP"]] as const) {
+      i18n.setLocale(locale);
+      const [chunk] = formatConversationRecap(message, "sess-1234567890");
+      assertStringIncludes(chunk, `\`${new Date(timestamp).toLocaleTimeString(tag)}\``);
+    }
+    i18n.setLocale("en");
+    assertEquals(/[AP]M`/.test(formatConversationRecap(message, "sess-1234567890")[0]), true);
+  });
+
+  await t.step("長い履歴は maxLength ごとに分割し、見出しは最初だけ", () => {
+    const messages: ConversationMessage[] = Array.from({ length: 6 }, (_, i) => ({
+      type: i % 2 === 0 ? "user" : "assistant",
+      content: `${i}`.repeat(80),
+    }));
+    const chunks = formatConversationRecap(messages, "sess-1234567890", 300);
+    assertEquals(chunks.length > 1, true);
+    assertEquals(chunks.every((chunk) => chunk.length <= 300), true);
+    assertEquals(chunks.filter((chunk) => chunk.startsWith("## ")).length, 1);
+    assertEquals(chunks.every((chunk) => chunk.endsWith("||")), true);
+  });
+
+  i18n.setLocale(originalLocale);
+});
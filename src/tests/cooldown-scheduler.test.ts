@@ -0,0 +1,87 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { join } from "@std/path";
+import {
+  CooldownScheduler,
+  cooldownUntil,
+  parseUsageLimitReset,
+} from "../utils/cooldown-scheduler.ts";
+import type { ActorMessage } from "../types.ts";
+
+function request(text: string, channelId: string): ActorMessage {
+  return {
+    id: text,
+    from: "user",
+    to: "claude-code",
+    type: "user-message",
+    payload: { text, channelId },
+    timestamp: new Date(),
+  };
+}
+
+Deno.test("cooldown scheduler", async (t) => {
+  await t.step("リセット時刻をタイムゾーン込みで解釈する", () => {
+    // 14:00 in Tokyo
+    const now = new Date("2026-10-18T05:00:00Z");
+    const iso = (message: string, at = now) => parseUsageLimitReset(message, at)?.toISOString();
+
+    assertEquals(iso("Claude AI usage limit reached|1792310400"), "2026-10-18T08:00:00.000Z");
+    assertEquals(iso("5-hour limit reached ∙ resets 3pm (Asia/Tokyo)"), "2026-10-18T06:00:00.000Z");
+    assertEquals(iso("5-hour limit reached ∙ resets 1pm (Asia/Tokyo)"), "2026-10-19T04:00:00.000Z");
+    // New York leaves daylight saving time overnight
+    assertEquals(
+      iso("resets 9am (America/New_York)", new Date("2026-10-31T20:00:00Z")),
+      "2026-11-01T14:00:00.000Z",
+    );
+
+    const local = parseUsageLimitReset("resets 3:30am", now)!;
+    assertEquals([local.getHours(), local.getMinutes(), local > now], [3, 30, true]);
+    assertEquals(iso("resets 3pm (Mars/Olympus)"), iso("resets 3pm"));
+    assertEquals(iso("5-hour limit reached"), undefined);
+  });
+
+  await t.step("clamps the cooldown to between one minute and six hours", () => {
+    const now = new Date("2026-10-18T05:00:00Z");
+    const minutes = (resetsAt?: Date) =>
+      (cooldownUntil(resetsAt, now).getTime() - now.getTime()) / 60_000;
+    assertEquals(minutes(undefined), 30);
+    assertEquals(minutes(new Date("2026-10-18T04:00:00Z")), 1);
+    assertEquals(minutes(new Date("2026-10-18T07:00:00Z")), 120);
+    assertEquals(minutes(new Date("2026-10-19T05:00:00Z")), 360);
+  });
+
+  await t.step("保留したリクエストは再起動後も残り、リセット後に順番どおり再開する", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "ccdiscord-cooldown-" });
+    try {
+      const file = join(dir, "cooldown.json");
+      const before = new CooldownScheduler(file, () => Promise.resolve());
+      await before.start(new Date(Date.now() + 3_600_000), request("limited", "thread-old"));
+      assertEquals(await before.park(request("later", "thread-old")), 2);
+      await before.start(new Date(Date.now() + 60_000), request("first", "thread-old"));
+      assertEquals(before.countParked("thread-old"), 3);
+      before.stop();
+
+      // The reset time passed while the bot was down
+      const saved = JSON.parse(await Deno.readTextFile(file));
+      assertEquals(new Date(saved.until) > new Date(Date.now() + 3_000_000), true);
+      saved.until = new Date(Date.now() - 1000).toISOString();
+      await Deno.writeTextFile(file, JSON.stringify(saved));
+
+      let resume!: (parked: ActorMessage[]) => void;
+      const resumed = new Promise<ActorMessage[]>((resolve) => resume = resolve);
+      const after = new CooldownScheduler(file, (parked) => Promise.resolve(resume(parked)));
+      assertEquals(await after.restore("thread-new"), 3);
+      const parked = await resumed;
+
+      assertEquals(parked.map((m) => m.id), ["first", "limited", "later"]);
+      assertEquals(parked.map((m) => (m.payload as { channelId: string }).channelId), [
+        "thread-new",
+        "thread-new",
+        "thread-new",
+      ]);
+      assertEquals(after.isActive(), false);
+      assertEquals(await Deno.stat(file).then(() => true, () => false), false);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
@@ -94,4 +94,25 @@ Deno.test("DebugActor", async (t) => {
     assertEquals(response2?.from, "debug1");
     assertEquals(response2?.to, "debug2");
   });
+
+  await t.step("should report the simulated session for get-session-info", async () => {
+    const actor = new DebugActor();
+    const info = await actor.handleMessage({
+      id: "info-1",
+      from: "discord",
+      to: "debug",
+      type: "get-session-info",
+      payload: { channelId: "thread-1" },
+      timestamp: new Date(),
+    });
+    assertEquals(info?.type, "session-info");
+    const { sessionId, running, queued } = info?.payload as {
+      sessionId: string;
+      running: boolean;
+      queued: number;
+    };
+    assertExists(sessionId);
+    assertEquals(running, false);
+    assertEquals(queued, 0);
+  });
 });
\ No newline at end of file
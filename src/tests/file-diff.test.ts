@@ -0,0 +1,61 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { join } from "@std/path";
+import { FileChangeTracker, unifiedDiff } from "../utils/file-diff.ts";
+
+Deno.test("file diff", async (t) => {
+  await t.step("unified diff with context and line numbers", () => {
+    const before = "abcdefghijklmn".split("").join("\n") + "\n";
+    const after = before.replace("b\n", "B\n").replace("l\n", "");
+    assertEquals(unifiedDiff("x.txt", before, after), {
+      diff: [
+        "--- a/x.txt",
+        "+++ b/x.txt",
+        "@@ -1,5 +1,5 @@",
+        " a",
+        "-b",
+        "+B",
+        " c",
+        " d",
+        " e",
+        "@@ -9,6 +9,5 @@",
+        " i",
+        " j",
+        " k",
+        "-l",
+        " m",
+        " n",
+        "",
+      ].join("\n"),
+      added: 1,
+      removed: 2,
+    });
+    assertEquals(unifiedDiff("x.txt", before, before), null);
+  });
+
+  await t.step("Edit/MultiEdit/Write をターン単位でまとめ、失敗した呼び出しは取り消す", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "ccdiscord-diff-" });
+    try {
+      await Deno.writeTextFile(join(dir, "main.ts"), "const a = 1;\nconst b = 2;\n");
+      const tracker = new FileChangeTracker(dir);
+      tracker.record("Edit", { file_path: "main.ts", old_string: "a = 1", new_string: "a = 10" });
+      tracker.record("MultiEdit", {
+        file_path: join(dir, "main.ts"),
+        edits: [{ old_string: "b = 2", new_string: "b = 20" }],
+      }, "tool-2");
+      tracker.discard("tool-2");
+      tracker.record("Write", { file_path: "new.md", content: "# New\n" });
+      tracker.record("Bash", { command: "rm -rf /" });
+
+      const changes = tracker.changes();
+      assertEquals(changes.map((c) => [c.path, c.added, c.removed]), [
+        ["main.ts", 1, 1],
+        ["new.md", 1, 0],
+      ]);
+      assertEquals(changes[0].diff.includes("+const a = 10;"), true);
+      assertEquals(changes[0].diff.includes("b = 20"), false);
+      assertEquals(changes[1].diff.startsWith("--- /dev/null\n+++ b/new.md\n@@ -0,0 +1,1 @@"), true);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,137 @@
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { spawn } from "node:child_process";
+import { GeminiCliActor } from "../actors/gemini-cli-actor.ts";
+import { analyseGeminiError, type GeminiSpawn } from "../adapter/gemini-cli-adapter.ts";
+import { SimpleMessageBus } from "../message-bus.ts";
+import type { Config } from "../config.ts";
+import type { ActorMessage } from "../types.ts";
+
+function createConfig(): Config {
+  return {
+    discordToken: "DUMMY",
+    channelId: "CHANNEL",
+    userId: "USER",
+    debugMode: false,
+    neverSleep: false,
+    maxTurns: 3,
+    model: "test-model",
+    geminiApiKey: "test-key",
+    geminiModel: "gemini-test",
+  };
+}
+
+// Runs a shell script in place of the gemini CLI; the prompt arrives on stdin
+function fakeGemini(script: string, calls: string[][] = []): GeminiSpawn {
+  return (args, options) => {
+    calls.push(args);
+    return spawn("sh", ["-c", script], options);
+  };
+}
+
+function userMessage(text: string, channelId = "thread-1"): ActorMessage {
+  return {
+    id: crypto.randomUUID(),
+    from: "user",
+    to: "gemini-cli",
+    type: "user-message",
+    payload: { text, channelId },
+    timestamp: new Date(),
+  };
+}
+
+Deno.test("GeminiCliActor", async (t) => {
+  await t.step("user-message をストリーミングで処理する", async () => {
+    const bus = new SimpleMessageBus();
+    const events: ActorMessage[] = [];
+    bus.addListener((message) => events.push(message));
+    const calls: string[][] = [];
+    const actor = new GeminiCliActor(
+      createConfig(),
+      "gemini-cli",
+      fakeGemini(`cat >/dev/null; printf 'Hello\\n{"type":"tool","content":"ls"}\\nWorld\\n'`, calls),
+    );
+    actor.setMessageBus(bus);
+
+    assertEquals(await actor.handleMessage(userMessage("hi")), null);
+
+    assertEquals(events.map((event) => event.type), [
+      "stream-started",
+      "stream-partial",
+      "stream-partial",
+      "stream-partial",
+      "stream-completed",
+    ]);
+    const partials = events.filter((event) => event.type === "stream-partial")
+      .map((event) => event.payload as { textDelta?: string; toolChunk?: string });
+    assertEquals(partials[0].textDelta, "Hello\n");
+    assert(partials[1].toolChunk?.includes("ls"));
+    assertEquals((events.at(-1)!.payload as { fullText: string }).fullText, "Hello\nWorld");
+    assertEquals(calls[0].slice(0, 3), ["chat", "--model", "gemini-test"]);
+  });
+
+  await t.step("classifies CLI failures and retries the last request", async () => {
+    const bus = new SimpleMessageBus();
+    const events: ActorMessage[] = [];
+    bus.addListener((message) => events.push(message));
+    const actor = new GeminiCliActor(
+      createConfig(),
+      "gemini-cli",
+      fakeGemini(`cat >/dev/null; echo 'RESOURCE_EXHAUSTED: Please retry in 20s' >&2; exit 1`),
+    );
+    actor.setMessageBus(bus);
+
+    await actor.handleMessage(userMessage("hi"));
+    const error = events.find((event) => event.type === "stream-error")!;
+    const payload = error.payload as { message: string; fatal: boolean };
+    assert(payload.fatal);
+    assert(payload.message.includes("!retry"));
+
+    events.length = 0;
+    await actor.handleMessage({
+      ...userMessage("!retry"),
+      type: "discord-command",
+    });
+    assertEquals(events.filter((event) => event.type === "stream-started").length, 1);
+  });
+
+  await t.step("会話履歴をプロンプトに含め、リセットで破棄する", async () => {
+    // The fake CLI echoes its prompt, so each reply shows what was sent
+    const actor = new GeminiCliActor(createConfig(), "gemini-cli", fakeGemini("cat"));
+    const bus = new SimpleMessageBus();
+    const replies: Array<{ text: string; sessionId?: string }> = [];
+    bus.register({
+      name: "user",
+      start: async () => {},
+      stop: async () => {},
+      handleMessage: (message) => {
+        replies.push(message.payload as { text: string; sessionId?: string });
+        return Promise.resolve(null);
+      },
+    });
+    actor.setMessageBus(bus);
+
+    await actor.handleMessage(userMessage("first"));
+    await actor.handleMessage(userMessage("second"));
+    assertEquals(replies[0].text, "first");
+    assert(replies[1].text.includes("User: first\nAssistant: first"));
+    assert(replies[1].text.endsWith("second"));
+    assertEquals(replies[0].sessionId, replies[1].sessionId);
+
+    const reset = await actor.handleMessage({ ...userMessage(""), type: "reset-session" });
+    assertEquals((reset?.payload as { previousSessionId?: string }).previousSessionId, replies[0].sessionId);
+
+    await actor.handleMessage(userMessage("third"));
+    assertEquals(replies[2].text, "third");
+    assert(replies[2].sessionId && replies[2].sessionId !== replies[0].sessionId);
+  });
+
+  await t.step("analyseGeminiError", () => {
+    assertEquals(analyseGeminiError("status 429 Please retry in 2.5s"), {
+      kind: "USAGE_LIMIT",
+      hint: analyseGeminiError("quota exceeded").hint,
+      retryAfterMs: 2500,
+    });
+    assertEquals(analyseGeminiError("API key not valid").kind, "AUTH");
+    assertEquals(analyseGeminiError("spawn gemini ENOENT").kind, "CLI_NOT_FOUND");
+  });
+});
@@ -0,0 +1,148 @@
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { SimpleMessageBus } from "../message-bus.ts";
+import { AutoResponderActor } from "../actors/auto-responder-actor.ts";
+import { NeverSleepScheduler } from "../utils/never-sleep-scheduler.ts";
+import type { Actor, ActorMessage, ActorResponse } from "../types.ts";
+
+// Assistant stub that records what it was asked to do
+class RecordingAssistant implements Actor {
+  name = "assistant";
+  received: ActorMessage[] = [];
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+  handleMessage(message: ActorMessage): Promise<ActorResponse | null> {
+    this.received.push(message);
+    return Promise.resolve(null);
+  }
+}
+
+function threadReady(channelId: string): ActorMessage {
+  return {
+    id: crypto.randomUUID(),
+    from: "discord",
+    to: "all",
+    type: "thread-ready",
+    payload: { channelId },
+    timestamp: new Date(),
+  };
+}
+
+Deno.test("NeverSleepScheduler", async (t) => {
+  await t.step("dispatches a TODO.md prompt to the assistant when idle", async () => {
+    const bus = new SimpleMessageBus();
+    const assistant = new RecordingAssistant();
+    bus.register(new AutoResponderActor("auto-responder", { todoPath: "/nonexistent/TODO.md" }));
+    bus.register(assistant);
+
+    const notices: string[] = [];
+    bus.addListener((msg) => {
+      if (msg.type === "thread-notice") notices.push((msg.payload as { text: string }).text);
+    });
+
+    const scheduler = new NeverSleepScheduler(bus, {
+      idleTimeoutMs: 10,
+      checkIntervalMs: 20,
+      prompt: "continue TODO.md",
+    });
+    scheduler.start();
+    await bus.emit(threadReady("thread-1"));
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    await scheduler.stop();
+
+    assert(assistant.received.length > 0, "assistant should receive a prompt");
+    const first = assistant.received[0];
+    assertEquals(first.type, "user-message");
+    const payload = first.payload as { text: string; channelId: string; autonomous: boolean };
+    assertEquals(payload.text, "continue TODO.md");
+    assertEquals(payload.channelId, "thread-1");
+    assertEquals(payload.autonomous, true);
+    assert(notices.length >= 2, "start and stop should be announced");
+    assertEquals(scheduler.isActive(), false);
+  });
+
+  await t.step("dispatches the next TODO.md item and checks it off on TASK_DONE", async () => {
+    const dir = await Deno.makeTempDir();
+    const todoPath = `${dir}/TODO.md`;
+    await Deno.writeTextFile(
+      todoPath,
+      "# TODO\n\n## タスクリスト\n\n- [ ] first task\n- [ ] second task\n\n## 完了したタスク\n\n- [x] old task\n",
+    );
+
+    const bus = new SimpleMessageBus();
+    const assistant = new RecordingAssistant();
+    bus.register(new AutoResponderActor("auto-responder", { todoPath }));
+    bus.register(assistant);
+
+    const scheduler = new NeverSleepScheduler(bus, { idleTimeoutMs: 10, checkIntervalMs: 20 });
+    scheduler.start();
+    await bus.emit(threadReady("thread-4"));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    assert(assistant.received.length > 0, "assistant should receive a prompt");
+    const dispatched = assistant.received[0];
+    const payload = dispatched.payload as { text: string; originalMessageId: string };
+    assert(payload.text.includes("first task"));
+
+    await bus.emit({
+      id: crypto.randomUUID(),
+      from: "assistant",
+      to: "discord",
+      type: "stream-completed",
+      payload: {
+        originalMessageId: payload.originalMessageId,
+        channelId: "thread-4",
+        fullText: "Done.\nTASK_DONE",
+      },
+      timestamp: new Date(),
+    });
+    await scheduler.stop();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const content = await Deno.readTextFile(todoPath);
+    assertEquals(
+      content,
+      "# TODO\n\n## タスクリスト\n\n- [ ] second task\n\n## 完了したタスク\n\n- [x] old task\n- [x] first task\n",
+    );
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  await t.step("does not dispatch while a stream is running", async () => {
+    const bus = new SimpleMessageBus();
+    const assistant = new RecordingAssistant();
+    bus.register(new AutoResponderActor());
+    bus.register(assistant);
+
+    const scheduler = new NeverSleepScheduler(bus, { idleTimeoutMs: 10, checkIntervalMs: 20 });
+    scheduler.start();
+    await bus.emit(threadReady("thread-2"));
+    await bus.emit({
+      id: crypto.randomUUID(),
+      from: "assistant",
+      to: "discord",
+      type: "stream-started",
+      payload: { originalMessageId: "busy-1", channelId: "thread-2" },
+      timestamp: new Date(),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    await scheduler.stop();
+
+    assertEquals(assistant.received.length, 0);
+  });
+
+  await t.step("stops once the maximum execution time is exceeded", async () => {
+    const bus = new SimpleMessageBus();
+    bus.register(new AutoResponderActor());
+    bus.register(new RecordingAssistant());
+
+    const scheduler = new NeverSleepScheduler(bus, {
+      idleTimeoutMs: 60_000,
+      checkIntervalMs: 20,
+      maxExecutionTimeMs: 1,
+    });
+    scheduler.start();
+    await bus.emit(threadReady("thread-3"));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assertEquals(scheduler.isActive(), false);
+    await scheduler.stop();
+  });
+});
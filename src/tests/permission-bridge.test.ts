@@ -0,0 +1,129 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { SimpleMessageBus } from "../message-bus.ts";
+import { PermissionBridge } from "../utils/permission-bridge.ts";
+import type { ActorMessage } from "../types.ts";
+
+// Answers every permission-request with the given decision, like a Discord button press
+function autoAnswer(bus: SimpleMessageBus, behavior: "allow" | "deny", always = false) {
+  const requests: ActorMessage[] = [];
+  bus.addListener((message) => {
+    if (message.type !== "permission-request") return;
+    requests.push(message);
+    const { requestId } = message.payload as { requestId: string };
+    queueMicrotask(() =>
+      bus.emit({
+        id: crypto.randomUUID(),
+        from: "discord",
+        to: "assistant",
+        type: "permission-decision",
+        payload: { requestId, behavior, always, userId: "user-1" },
+        timestamp: new Date(),
+      })
+    );
+  });
+  return requests;
+}
+
+function collectResolved(bus: SimpleMessageBus) {
+  const resolved: Array<Record<string, unknown>> = [];
+  bus.addListener((message) => {
+    if (message.type === "permission-resolved") {
+      resolved.push(message.payload as Record<string, unknown>);
+    }
+  });
+  return resolved;
+}
+
+Deno.test("PermissionBridge", async (t) => {
+  await t.step("ボタンの決定が SDK の PermissionResult として返る", async () => {
+    const bus = new SimpleMessageBus();
+    const requests = autoAnswer(bus, "deny");
+    const resolved = collectResolved(bus);
+    const bridge = new PermissionBridge(bus, { timeoutMs: 1000 });
+    bridge.start();
+
+    const result = await bridge.request("Bash", { command: "rm -rf /" }, { channelId: "thread-1" });
+    bridge.stop();
+
+    assertEquals(result.behavior, "deny");
+    assertEquals(requests.length, 1);
+    assertEquals((requests[0].payload as { channelId: string }).channelId, "thread-1");
+    assertEquals(resolved, [{
+      requestId: (requests[0].payload as { requestId: string }).requestId,
+      toolName: "Bash",
+      behavior: "deny",
+      reason: "user",
+      channelId: "thread-1",
+      always: false,
+      userId: "user-1",
+    }]);
+  });
+
+  await t.step("always-allow skips the prompt for the same tool", async () => {
+    const bus = new SimpleMessageBus();
+    const requests = autoAnswer(bus, "allow", true);
+    const resolved = collectResolved(bus);
+    const bridge = new PermissionBridge(bus, { timeoutMs: 1000 });
+    bridge.start();
+
+    const first = await bridge.request("Edit", { file_path: "a.ts" });
+    const second = await bridge.request("Edit", { file_path: "b.ts" });
+    bridge.stop();
+
+    assertEquals(first, { behavior: "allow", updatedInput: { file_path: "a.ts" } });
+    assertEquals(second, { behavior: "allow", updatedInput: { file_path: "b.ts" } });
+    assertEquals(requests.length, 1);
+    assertEquals(resolved.map((r) => r.reason), ["user", "always-allow"]);
+  });
+
+  await t.step("always-allow は許可したスレッドにだけ効く", async () => {
+    const bus = new SimpleMessageBus();
+    const requests = autoAnswer(bus, "allow", true);
+    const bridge = new PermissionBridge(bus, { timeoutMs: 1000 });
+    bridge.start();
+
+    await bridge.request("Bash", { command: "ls" }, { channelId: "thread-1" });
+    await bridge.request("Bash", { command: "pwd" }, { channelId: "thread-1" });
+    await bridge.request("Bash", { command: "ls" }, { channelId: "thread-2" });
+    bridge.stop();
+
+    assertEquals(
+      requests.map((r) => (r.payload as { channelId: string }).channelId),
+      ["thread-1", "thread-2"],
+    );
+    assertEquals(bridge.isAlwaysAllowed("Bash", "thread-1"), true);
+    assertEquals(bridge.isAlwaysAllowed("Bash", "thread-2"), true);
+    assertEquals(bridge.isAlwaysAllowed("Bash", "thread-3"), false);
+    assertEquals(bridge.isAlwaysAllowed("Bash"), false);
+  });
+
+  await t.step("unanswered requests are denied after the timeout", async () => {
+    const bus = new SimpleMessageBus();
+    const resolved = collectResolved(bus);
+    const bridge = new PermissionBridge(bus, { timeoutMs: 20 });
+    bridge.start();
+
+    const result = await bridge.request("Write", { file_path: "x" });
+    bridge.stop();
+
+    assertEquals(result.behavior, "deny");
+    assertEquals(resolved.map((r) => r.reason), ["timeout"]);
+  });
+
+  await t.step("aborting the query cancels the pending request", async () => {
+    const bus = new SimpleMessageBus();
+    const resolved = collectResolved(bus);
+    const bridge = new PermissionBridge(bus, { timeoutMs: 10_000 });
+    bridge.start();
+
+    const controller = new AbortController();
+    const pending = bridge.request("Bash", { command: "ls" }, { signal: controller.signal });
+    controller.abort();
+    const result = await pending;
+    bridge.stop();
+
+    assertEquals(result.behavior, "deny");
+    assertEquals(resolved.map((r) => r.reason), ["aborted"]);
+    assertEquals(bridge.getPendingCount(), 0);
+  });
+});
@@ -0,0 +1,51 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { i18n } from "../i18n.ts";
+import { describeRequest, editQueue, listQueue } from "../utils/request-queue.ts";
+import type { ActorMessage } from "../types.ts";
+
+function request(text: string, authorName = "alice"): ActorMessage {
+  return {
+    id: text,
+    from: "user",
+    to: "claude-code",
+    type: "user-message",
+    payload: { text, authorId: "1", authorName, channelId: "thread" },
+    timestamp: new Date(),
+  };
+}
+
+Deno.test("request queue", async (t) => {
+  await t.step("lists waiting requests with position and author", () => {
+    const queue = [request("first"), request("second\nmore", "bob")];
+    assertEquals(listQueue(queue), [
+      { position: 1, authorId: "1", authorName: "alice", preview: "first" },
+      { position: 2, authorId: "1", authorName: "bob", preview: "second" },
+    ]);
+  });
+
+  await t.step("!cancel と !priority は番号で指定したリクエストを操作する", () => {
+    const queue = [request("a"), request("b"), request("c")];
+    assertEquals(editQueue(queue, "priority", 3)?.request.preview, "c");
+    assertEquals(queue.map((m) => m.id), ["c", "a", "b"]);
+
+    assertEquals(editQueue(queue, "cancel", 2)?.message.id, "a");
+    assertEquals(queue.map((m) => m.id), ["c", "b"]);
+
+    assertEquals(editQueue(queue, "cancel", 3), undefined);
+    assertEquals(editQueue(queue, "cancel", Number("x")), undefined);
+  });
+
+  await t.step("describeRequest summarises attachment-only requests", () => {
+    const message = request("");
+    message.payload = { attachments: [{}, {}] };
+    const locale = i18n.getLocale();
+    try {
+      i18n.setLocale("ja");
+      assertEquals(describeRequest(message), "[添付ファイル: 2]");
+      i18n.setLocale("en");
+      assertEquals(describeRequest(message), "[Attachments: 2]");
+    } finally {
+      i18n.setLocale(locale);
+    }
+  });
+});
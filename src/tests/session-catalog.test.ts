@@ -0,0 +1,122 @@
+import { assertEquals, assertExists } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { SessionCatalog } from "../utils/session-catalog.ts";
+
+function line(data: Record<string, unknown>): string {
+  return JSON.stringify(data);
+}
+
+async function writeTranscript(dir: string, sessionId: string, lines: string[]) {
+  await Deno.writeTextFile(`${dir}/${sessionId}.jsonl`, lines.join("\n") + "\n");
+}
+
+Deno.test("SessionCatalog", async (t) => {
+  const projectsDir = await Deno.makeTempDir();
+  const cwd = "/work/my.project";
+  const projectDir = `${projectsDir}/${SessionCatalog.projectKey(cwd)}`;
+  await Deno.mkdir(projectDir, { recursive: true });
+
+  await writeTranscript(projectDir, "sess-old", [
+    line({ type: "summary", summary: "Old refactoring" }),
+    line({
+      type: "user",
+      sessionId: "sess-old",
+      cwd,
+      timestamp: "2025-01-01T10:00:00.000Z",
+      message: { role: "user", content: "Refactor the parser" },
+    }),
+    line({
+      type: "assistant",
+      sessionId: "sess-old",
+      cwd,
+      timestamp: "2025-01-01T10:01:00.000Z",
+      message: { content: [{ type: "text", text: "Done." }] },
+    }),
+  ]);
+  await writeTranscript(projectDir, "sess-new", [
+    line({
+      type: "user",
+      sessionId: "sess-new",
+      cwd,
+      timestamp: "2025-02-01T09:00:00.000Z",
+      message: { role: "user", content: [{ type: "text", text: "Add tests" }] },
+    }),
+    line({
+      type: "assistant",
+      sessionId: "sess-new",
+      cwd,
+      timestamp: "2025-02-01T09:00:30.000Z",
+      message: {
+        content: [{ type: "text", text: "Running" }, { type: "tool_use", name: "Bash" }],
+      },
+    }),
+    line({
+      type: "user",
+      sessionId: "sess-new",
+      cwd,
+      timestamp: "2025-02-01T09:01:00.000Z",
+      message: { role: "user", content: [{ type: "tool_result", content: "ok" }] },
+    }),
+  ]);
+  // Same project key but recorded from another directory
+  await writeTranscript(projectDir, "sess-other", [
+    line({
+      type: "user",
+      sessionId: "sess-other",
+      cwd: "/work/my-project",
+      timestamp: "2025-03-01T09:00:00.000Z",
+      message: { role: "user", content: "elsewhere" },
+    }),
+  ]);
+
+  const catalog = new SessionCatalog({ projectsDir });
+
+  await t.step("lists sessions for the cwd, newest first", async () => {
+    const sessions = await catalog.list({ cwd });
+    assertEquals(sessions.map((s) => s.sessionId), ["sess-new", "sess-old"]);
+    assertEquals(sessions[0].lastQuery, "Add tests");
+    assertEquals(sessions[1].title, "Old refactoring");
+  });
+
+  await t.step("findLatest returns the newest session", async () => {
+    const latest = await catalog.findLatest(cwd);
+    assertExists(latest);
+    assertEquals(latest.sessionId, "sess-new");
+  });
+
+  await t.step("allProjects ignores the cwd filter", async () => {
+    const sessions = await catalog.list({ cwd, allProjects: true });
+    assertEquals(sessions.length, 3);
+    assertEquals(sessions[0].sessionId, "sess-other");
+  });
+
+  await t.step("getHistory returns the last user/assistant turns", async () => {
+    const history = await catalog.getHistory("sess-new", { cwd, limit: 5 });
+    assertEquals(history.map((m) => m.type), ["user", "assistant"]);
+    assertEquals(history[1].content, "Running [tool: Bash]");
+  });
+
+  await t.step("textOnly skips tool-only turns before applying the limit", async () => {
+    await writeTranscript(projectDir, "sess-tools", [
+      line({
+        type: "assistant",
+        sessionId: "sess-tools",
+        cwd,
+        message: { content: [{ type: "text", text: "Done" }] },
+      }),
+      ...["Read", "Edit", "Bash"].map((name) =>
+        line({
+          type: "assistant",
+          sessionId: "sess-tools",
+          cwd,
+          message: { content: [{ type: "text", text: "\n" }, { type: "tool_use", name }] },
+        })
+      ),
+    ]);
+    const all = await catalog.getHistory("sess-tools", { cwd, limit: 2 });
+    assertEquals(all.map((m) => m.content), ["[tool: Edit]", "[tool: Bash]"]);
+    const text = await catalog.getHistory("sess-tools", { cwd, limit: 2, textOnly: true });
+    assertEquals(text.map((m) => m.content), ["Done"]);
+  });
+
+  await Deno.remove(projectsDir, { recursive: true });
+});
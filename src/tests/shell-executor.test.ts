@@ -0,0 +1,137 @@
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  DEFAULT_SHELL_ALLOWED_COMMANDS,
+  parseShellRule,
+  ShellExecutor,
+  tokenizeCommand,
+} from "../utils/shell-executor.ts";
+import { UserActor } from "../actors/user-actor.ts";
+
+function executor(workDir: string, options: { timeoutMs?: number; maxOutputChars?: number } = {}) {
+  return new ShellExecutor({
+    rules: ["ls", "cat", "echo", "sleep", "git:^(status|log|show)\\b"].map(parseShellRule),
+    workDir,
+    ...options,
+  });
+}
+
+Deno.test("ShellExecutor", async (t) => {
+  const dir = await Deno.makeTempDir();
+
+  await t.step("tokenizeCommand はクォートを扱う", () => {
+    assertEquals(tokenizeCommand(`echo "a  b" 'c' d`), ["echo", "a  b", "c", "d"]);
+    assertEquals(tokenizeCommand(`echo "unterminated`), null);
+  });
+
+  const allowed = async (shell: ShellExecutor, command: string) =>
+    (await shell.check(command)).allowed;
+
+  await t.step("許可リスト外のバイナリと引数を拒否する", async () => {
+    const shell = executor(dir);
+    assertEquals(await allowed(shell, "rm -rf ."), false);
+    assertEquals(await allowed(shell, "git push"), false);
+    assertEquals(await allowed(shell, "git status"), true);
+    assertEquals(await allowed(shell, "/bin/ls"), false);
+  });
+
+  await t.step("シェルのメタ文字と作業ディレクトリ外のパスを拒否する", async () => {
+    const shell = executor(dir);
+    assertEquals(await allowed(shell, "ls; rm x"), false);
+    assertEquals(await allowed(shell, "ls | cat"), false);
+    assertEquals(await allowed(shell, "echo $(id)"), false);
+    assertEquals(await allowed(shell, "ls .."), false);
+    assertEquals(await allowed(shell, "ls /etc"), false);
+    assertEquals(await allowed(shell, "ls --color=../x"), false);
+    assertEquals(await allowed(shell, "ls ./sub/dir -la"), true);
+  });
+
+  await t.step("ドットファイルと認証情報のファイルを拒否する", async () => {
+    const shell = executor(dir);
+    assertEquals(await allowed(shell, "cat .env"), false);
+    assertEquals(await allowed(shell, "cat config/.env.local"), false);
+    assertEquals(await allowed(shell, "cat .git/config"), false);
+    assertEquals(await allowed(shell, "cat prod.env"), false);
+    assertEquals(await allowed(shell, "cat keys/server.pem"), false);
+    assertEquals(await allowed(shell, "cat id_rsa"), false);
+    assertEquals(await allowed(shell, "cat credentials.json"), false);
+    assertEquals(await allowed(shell, "git show HEAD:.env"), false);
+    assertEquals(await allowed(shell, "ls --ignore=.env"), false);
+    assertEquals(await allowed(shell, "cat ./src/main.ts"), true);
+    assertEquals(await allowed(shell, "ls -la ."), true);
+  });
+
+  await t.step("シンボリックリンクを解決してから作業ディレクトリ内か判定する", async () => {
+    const outside = await Deno.makeTempDir();
+    await Deno.writeTextFile(`${outside}/secret.txt`, "secret");
+    await Deno.symlink(`${outside}/secret.txt`, `${dir}/link.txt`);
+    await Deno.symlink(outside, `${dir}/linked-dir`);
+    await Deno.writeTextFile(`${dir}/inside.txt`, "ok");
+    await Deno.symlink(`${dir}/inside.txt`, `${dir}/inside-link.txt`);
+
+    const shell = executor(dir);
+    assertEquals(await allowed(shell, "cat link.txt"), false);
+    assertEquals(await allowed(shell, "cat linked-dir/secret.txt"), false);
+    assertEquals(await allowed(shell, "ls linked-dir/missing/file"), false);
+    assertEquals(await allowed(shell, "cat inside-link.txt"), true);
+    assertEquals(await allowed(shell, "ls not-yet/created"), true);
+    await Deno.remove(outside, { recursive: true });
+  });
+
+  await t.step("既定の許可リストでは git branch は一覧表示のみ", async () => {
+    const shell = new ShellExecutor({
+      rules: DEFAULT_SHELL_ALLOWED_COMMANDS.map(parseShellRule),
+      workDir: dir,
+    });
+    assertEquals(await allowed(shell, "git branch"), true);
+    assertEquals(await allowed(shell, "git branch -a -v"), true);
+    assertEquals(await allowed(shell, "git branch --show-current"), true);
+    assertEquals(await allowed(shell, "git branch -D main"), false);
+    assertEquals(await allowed(shell, "git branch -m old new"), false);
+    assertEquals(await allowed(shell, "git branch feature"), false);
+    assertEquals(await allowed(shell, "git branch --delete main"), false);
+    assertEquals(await allowed(shell, "git log --oneline"), true);
+  });
+
+  await t.step("UserActor passes !! commands through with their spacing intact", async () => {
+    const response = await new UserActor().handleMessage({
+      id: "m1",
+      from: "discord",
+      to: "user",
+      type: "discord-message",
+      payload: { text: '!!git log --grep="a  b"' },
+      timestamp: new Date(),
+    });
+    assertEquals(response?.type, "execute-command");
+    assertEquals(response?.payload, { command: 'git log --grep="a  b"' });
+    assertEquals(tokenizeCommand('git log --grep="a  b"'), ["git", "log", "--grep=a  b"]);
+  });
+
+  await t.step("git のリビジョン指定 (~ と @{}) は許可する", async () => {
+    const shell = new ShellExecutor({
+      rules: DEFAULT_SHELL_ALLOWED_COMMANDS.map(parseShellRule),
+      workDir: dir,
+    });
+    assertEquals(await allowed(shell, "git diff HEAD~1"), true);
+    assertEquals(await allowed(shell, "git show HEAD~2:src/main.ts"), true);
+    assertEquals(await allowed(shell, "git log main@{1}"), true);
+    assertEquals(await allowed(shell, "ls *.ts"), false);
+  });
+
+  await t.step("runs the command in the working directory and truncates output", async () => {
+    await Deno.writeTextFile(`${dir}/marker.txt`, "");
+    const listed = await executor(dir).execute("ls");
+    assertEquals(listed.code, 0);
+    assert(listed.output.includes("marker.txt"));
+
+    const long = await executor(dir, { maxOutputChars: 5 }).execute("echo 1234567890");
+    assertEquals(long.output, "12345");
+    assertEquals(long.truncated, true);
+  });
+
+  await t.step("stops commands that exceed the timeout", async () => {
+    const result = await executor(dir, { timeoutMs: 50 }).execute("sleep 5");
+    assertEquals(result.timedOut, true);
+  });
+
+  await Deno.remove(dir, { recursive: true });
+});
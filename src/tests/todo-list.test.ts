@@ -0,0 +1,42 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { markTodoDone, moveTodo, parseTodo, pendingTodos } from "../utils/todo-list.ts";
+
+const SAMPLE = `# TODO
+
+## タスクリスト
+
+- [ ] first
+- [ ] second
+- [ ] third
+
+## 完了したタスク
+
+- [x] done already
+`;
+
+Deno.test("todo-list", async (t) => {
+  await t.step("未完了タスクだけを順番に取り出す", () => {
+    assertEquals(parseTodo(SAMPLE).length, 4);
+    assertEquals(pendingTodos(SAMPLE).map((item) => item.text), ["first", "second", "third"]);
+    assertEquals(pendingTodos(SAMPLE)[0].section, "タスクリスト");
+  });
+
+  await t.step("完了したタスクを完了セクションの末尾へ移動する", () => {
+    const updated = markTodoDone(SAMPLE, "second");
+    assertEquals(pendingTodos(updated!).map((item) => item.text), ["first", "third"]);
+    assertEquals(updated!.trimEnd().split("\n").at(-1), "- [x] second");
+    assertEquals(markTodoDone(SAMPLE, "missing"), null);
+  });
+
+  await t.step("完了セクションがなければその場でチェックする", () => {
+    const updated = markTodoDone("- [ ] a\n- [ ] b\n", "a");
+    assertEquals(updated, "- [x] a\n- [ ] b\n");
+  });
+
+  await t.step("move reorders pending items", () => {
+    assertEquals(pendingTodos(moveTodo(SAMPLE, 1, 3)!).map((i) => i.text), ["second", "third", "first"]);
+    assertEquals(pendingTodos(moveTodo(SAMPLE, 3, 1)!).map((i) => i.text), ["third", "first", "second"]);
+    assertEquals(moveTodo(SAMPLE, 0, 2), null);
+    assertEquals(moveTodo(SAMPLE, 1, 4), null);
+  });
+});
@@ -0,0 +1,28 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { formatToolUse, summarizeToolInput } from "../utils/tool-formatters.ts";
+
+Deno.test("tool formatters", async (t) => {
+  await t.step("ツールごとに 1 行で表示する", () => {
+    assertEquals(formatToolUse("Edit", { file_path: "src/main.ts" }), "✏️ Edit src/main.ts");
+    assertEquals(formatToolUse("Bash", { command: "deno test\ndeno lint" }), "▶ Bash: deno test …");
+    assertEquals(formatToolUse("Grep", { pattern: "TODO", path: "src" }), "🔍 Grep TODO in src");
+    assertEquals(formatToolUse("mcp__github__search", { query: "bug" }), "🔧 mcp__github__search: bug");
+    assertEquals(formatToolUse("Bash", { command: "x".repeat(300) }).length, 120);
+  });
+
+  await t.step("summarizes input before it goes on the bus", () => {
+    const summary = summarizeToolInput({
+      file_path: "a.ts",
+      content: "y".repeat(1000),
+      todos: [{ content: "a" }, { content: "b" }],
+      options: { nested: true },
+      replace_all: false,
+    });
+    assertEquals(summary.file_path, "a.ts");
+    assertEquals((summary.content as string).length, 201);
+    assertEquals(summary.todos, 2);
+    assertEquals("options" in summary, false);
+    assertEquals(summary.replace_all, false);
+    assertEquals(formatToolUse("TodoWrite", summary), "🗒️ TodoWrite (2)");
+  });
+});
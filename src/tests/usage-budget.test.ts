@@ -0,0 +1,47 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { join } from "@std/path";
+import { exceededBudget, UsageLedger } from "../utils/usage-budget.ts";
+
+Deno.test("usage budget", async (t) => {
+  await t.step("adds up today's spend per user, thread and bot", async () => {
+    const ledger = new UsageLedger();
+    const usage = {
+      inputTokens: 100,
+      outputTokens: 20,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+    };
+    await ledger.record({ userId: "alice", channelId: "t1" }, { costUsd: 0.5, usage });
+    await ledger.record({ userId: "alice", channelId: "t2" }, { costUsd: 0.25, usage });
+    await ledger.record({ userId: "bob", channelId: "t1" }, { costUsd: 1 });
+
+    const report = await ledger.report({ user: 1, day: 1.5 }, "alice", "t1");
+    assertEquals([report.requests, report.inputTokens, report.outputTokens], [2, 200, 40]);
+    assertEquals(report.budgets, [
+      { scope: "user", spentUsd: 0.75, limitUsd: 1 },
+      { scope: "thread", spentUsd: 1.5, limitUsd: undefined },
+      { scope: "day", spentUsd: 1.75, limitUsd: 1.5 },
+    ]);
+    assertEquals(exceededBudget(report)?.scope, "day");
+    assertEquals(exceededBudget(await ledger.report({ user: 1 }, "alice", "t1")), undefined);
+  });
+
+  await t.step("日付が変わると予算がリセットされ、ファイルは再起動後も引き継がれる", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "ccdiscord-usage-" });
+    try {
+      const file = join(dir, "usage.json");
+      let now = new Date(2026, 0, 1, 23, 0);
+      await new UsageLedger(file, () => now).record({ userId: "alice" }, { costUsd: 2 });
+
+      const restarted = new UsageLedger(file, () => now);
+      const before = await restarted.report({ user: 1 }, "alice");
+      assertEquals(before.budgets[0].spentUsd, 2);
+      assertEquals(before.resetsAt, new Date(2026, 0, 2).toISOString());
+
+      now = new Date(2026, 0, 2, 0, 5);
+      assertEquals(exceededBudget(await restarted.report({ user: 1 }, "alice")), undefined);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
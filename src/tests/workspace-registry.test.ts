@@ -0,0 +1,78 @@
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { join } from "@std/path";
+import { WorkspaceRegistry } from "../utils/workspace-registry.ts";
+
+Deno.test("workspace-registry", async (t) => {
+  const base = await Deno.realPath(await Deno.makeTempDir({ prefix: "ccdiscord-workspace-" }));
+  const root = join(base, "projects");
+  const outside = join(base, "outside");
+  await Deno.mkdir(join(root, "app", "src"), { recursive: true });
+  await Deno.mkdir(join(root, "lib"), { recursive: true });
+  await Deno.mkdir(outside, { recursive: true });
+  await Deno.writeTextFile(
+    join(base, "workdirs.json"),
+    JSON.stringify({
+      roots: ["projects"],
+      projects: { app: "projects/app", escape: "outside" },
+      channels: { "channel-1": "app", "channel-2": "../.." },
+    }),
+  );
+
+  try {
+    const registry = await WorkspaceRegistry.load({
+      defaultDir: base,
+      filePath: "workdirs.json",
+    });
+
+    await t.step("ファイルの設定を読み込み、ルート外の項目は無視する", () => {
+      assertEquals(registry.getRoots(), [root]);
+      assertEquals(registry.listProjects(), [{ name: "app", path: join(root, "app") }]);
+      assertEquals(registry.get("channel-1"), join(root, "app"));
+      assertEquals(registry.get("channel-2"), base);
+    });
+
+    await t.step("threads inherit the parent channel binding", () => {
+      assertEquals(registry.get("thread-1", "channel-1"), join(root, "app"));
+      registry.bind("thread-1", join(root, "lib"));
+      assertEquals(registry.get("thread-1", "channel-1"), join(root, "lib"));
+    });
+
+    await t.step("resolves paths relative to the current directory", async () => {
+      assertEquals(await registry.resolve("src", join(root, "app")), {
+        ok: true,
+        path: join(root, "app", "src"),
+      });
+      assertEquals(await registry.resolve("../lib", join(root, "app")), {
+        ok: true,
+        path: join(root, "lib"),
+      });
+      assertEquals(await registry.resolve("app", join(root, "lib")), {
+        ok: true,
+        path: join(root, "app"),
+      });
+    });
+
+    await t.step("ルート外・存在しないディレクトリは拒否する", async () => {
+      assert(!(await registry.resolve(outside)).ok);
+      assert(!(await registry.resolve("../..", join(root, "app"))).ok);
+      assert(!(await registry.resolve("missing", root)).ok);
+      assert(!(await registry.resolveProject("escape")).ok);
+    });
+
+    await t.step("登録済みプロジェクトも現在のディレクトリを確認する", async () => {
+      assertEquals(await registry.resolveProject("app"), { ok: true, path: join(root, "app") });
+      await Deno.rename(join(root, "app"), join(root, "app-moved"));
+      assert(!(await registry.resolveProject("app")).ok);
+      assert(!(await registry.resolve("app", root)).ok);
+      await Deno.rename(join(root, "app-moved"), join(root, "app"));
+    });
+
+    await t.step("symlinks are resolved before the root check", async () => {
+      await Deno.symlink(outside, join(root, "link"));
+      const resolved = await registry.resolve("link", root);
+      assertEquals(resolved.ok, false);
+    });
+  } finally {
+    await Deno.remove(base, { recursive: true });
+  }
+});
@@ -74,10 +74,28 @@ export interface ClaudeMessage {
   subtype?: string;
 }
 
+// Totals from the final `result` message of one Claude query
+export interface QueryResultMetadata {
+  // "success", "error_max_turns", "error_during_execution", ...
+  subtype?: string;
+  isError?: boolean;
+  numTurns?: number;
+  durationMs?: number;
+  durationApiMs?: number;
+  costUsd?: number;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadInputTokens: number;
+    cacheCreationInputTokens: number;
+  };
+}
+
 // Streaming event types (non-breaking additive extension)
 export type StreamEventType =
   | "stream-started"
   | "stream-partial"
+  | "stream-tool-use"
   | "stream-completed"
   | "stream-error";
 
@@ -101,6 +119,28 @@ export interface StreamPartialMessage extends ActorMessage {
   };
 }
 
+// A file edited during a turn, as a unified diff
+export interface FileChange {
+  // Relative to the working directory when the file is inside it
+  path: string;
+  diff: string;
+  added: number;
+  removed: number;
+}
+
+// A tool call the assistant is about to make (rendered as one line in the thread)
+export interface StreamToolUseMessage extends ActorMessage {
+  type: "stream-tool-use";
+  payload: {
+    originalMessageId: string;
+    channelId: string;
+    toolUseId?: string;
+    toolName: string;
+    // Summarized: long strings are cut and lists are replaced by their length
+    input: Record<string, unknown>;
+  };
+}
+
 export interface StreamCompletedMessage extends ActorMessage {
   type: "stream-completed";
   payload: {
@@ -108,6 +148,9 @@ export interface StreamCompletedMessage extends ActorMessage {
     channelId: string;
     fullText: string;
     sessionId?: string;
+    // Unified diffs of the files edited during the turn
+    fileChanges?: FileChange[];
+    result?: QueryResultMetadata;
   };
 }
 
@@ -118,12 +161,115 @@ export interface StreamErrorMessage extends ActorMessage {
     channelId: string;
     message: string;
     fatal?: boolean;
+    // Set when the stream ended because of a user-requested abort (!stop)
+    aborted?: boolean;
+  };
+}
+
+// Thread-level notifications (non-stream events delivered to the Discord adapter)
+export interface ThreadReadyMessage extends ActorMessage {
+  type: "thread-ready";
+  payload: {
+    channelId: string;
+  };
+}
+
+export interface ThreadNoticeMessage extends ActorMessage {
+  type: "thread-notice";
+  payload: {
+    channelId?: string;
+    text: string;
+  };
+}
+
+// A prompt that has to wait for the thread's running request
+export interface RequestQueuedMessage extends ActorMessage {
+  type: "request-queued";
+  payload: {
+    channelId: string;
+    originalMessageId: string;
+    position: number;
+  };
+}
+
+// A prompt held back until Claude's usage limit resets
+export interface RequestParkedMessage extends ActorMessage {
+  type: "request-parked";
+  payload: {
+    channelId: string;
+    originalMessageId: string;
+    position: number;
+    until: string;
+  };
+}
+
+// Usage-limit countdown for a thread: `until` while the cooldown lasts, `resumed` once it ends
+export interface CooldownStateMessage extends ActorMessage {
+  type: "cooldown-state";
+  payload: {
+    channelId: string;
+    until?: string;
+    parked: number;
+    resumed?: number;
+  };
+}
+
+// Daily budgets: one user, one thread, or the whole bot
+export type BudgetScope = "user" | "thread" | "day";
+
+// A prompt turned away because a daily budget is used up
+export interface BudgetExceededMessage extends ActorMessage {
+  type: "budget-exceeded";
+  payload: {
+    channelId: string;
+    originalMessageId: string;
+    scope: BudgetScope;
+    spentUsd: number;
+    limitUsd: number;
+    resetsAt: string;
+  };
+}
+
+// Tool-permission approvals (ask mode): assistant -> discord -> assistant
+export interface PermissionRequestMessage extends ActorMessage {
+  type: "permission-request";
+  payload: {
+    requestId: string;
+    toolName: string;
+    input: Record<string, unknown>;
+    channelId?: string;
+    timeoutMs: number;
+  };
+}
+
+export interface PermissionDecisionMessage extends ActorMessage {
+  type: "permission-decision";
+  payload: {
+    requestId: string;
+    behavior: "allow" | "deny";
+    // Allow this tool in the same thread for the rest of the process without asking again
+    always?: boolean;
+    userId?: string;
+  };
+}
+
+export interface PermissionResolvedMessage extends ActorMessage {
+  type: "permission-resolved";
+  payload: {
+    requestId: string;
+    toolName: string;
+    behavior: "allow" | "deny";
+    reason: "user" | "always-allow" | "timeout" | "aborted";
+    always?: boolean;
+    userId?: string;
+    channelId?: string;
   };
 }
 
 export type StreamEventMessage =
   | StreamStartedMessage
   | StreamPartialMessage
+  | StreamToolUseMessage
   | StreamCompletedMessage
   | StreamErrorMessage;
 
@@ -131,6 +277,7 @@ export function isStreamEvent(msg: ActorMessage): msg is StreamEventMessage {
   return (
     msg.type === "stream-started" ||
     msg.type === "stream-partial" ||
+    msg.type === "stream-tool-use" ||
     msg.type === "stream-completed" ||
     msg.type === "stream-error"
   );
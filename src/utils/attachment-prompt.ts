@@ -0,0 +1,62 @@
+// Prompt preamble that lists the files a Discord message brought along
+import type { ImportedAttachment } from "../types.ts";
+
+const ATTACHMENT_PREVIEW_CHAR_LIMIT = 4000;
+
+function describe(attachment: ImportedAttachment): string {
+  const sizeLabel = `${attachment.size} bytes`;
+  const descriptor = attachment.contentType
+    ? `${sizeLabel}, ${attachment.contentType}`
+    : sizeLabel;
+  return `- ${attachment.filename} (${descriptor}) -> ${attachment.path}`;
+}
+
+// Attachments are saved to disk beforehand; the assistant reads them by path
+export function buildAttachmentPrompt(text: string, attachments: ImportedAttachment[]): string {
+  if (attachments.length === 0) return text;
+
+  const textAttachments = attachments.filter((item) => item.isText);
+  const imageAttachments = attachments.filter((item) => item.isImage);
+  const otherAttachments = attachments.filter((item) => !item.isText && !item.isImage);
+
+  const lines: string[] = [];
+
+  if (textAttachments.length > 0) {
+    lines.push("[Text attachments]");
+    for (const attachment of textAttachments) {
+      lines.push(describe(attachment));
+      if (attachment.contentPreview) {
+        lines.push(`--- preview: ${attachment.filename} ---`);
+        const snippet = attachment.contentPreview.slice(0, ATTACHMENT_PREVIEW_CHAR_LIMIT);
+        lines.push(snippet);
+        lines.push(`--- end preview ---`);
+      }
+    }
+    lines.push("");
+  }
+
+  if (imageAttachments.length > 0) {
+    lines.push("[Image attachments]");
+    for (const attachment of imageAttachments) {
+      lines.push(describe(attachment));
+      if (attachment.previewPath) {
+        lines.push(`  preview: ${attachment.previewPath}`);
+      }
+    }
+    lines.push("画像を扱う際は `Read(<path>)` で原本を参照できます。");
+    lines.push("");
+  }
+
+  if (otherAttachments.length > 0) {
+    lines.push("[Other attachments]");
+    for (const attachment of otherAttachments) {
+      lines.push(describe(attachment));
+    }
+    lines.push("");
+  }
+
+  lines.push("必要なら `Read(<path>)` でファイル全体を参照してください。");
+
+  const preamble = lines.join("\n");
+  return text ? `${preamble}\n\n${text}` : preamble;
+}
@@ -1,14 +1,23 @@
 // Audit logger for security events
 import { ensureDir } from "@std/fs";
 import { join } from "@std/path";
+import type { BudgetScope, QueryResultMetadata } from "../types.ts";
 
 export interface AuditEvent {
   timestamp: Date;
   eventType:
     | "AUTH_FAILED"
     | "COMMAND_BLOCKED"
+    | "COMMAND_EXECUTED"
+    | "PERMISSION_DECISION"
+    | "WORKDIR_CHANGED"
+    | "MODEL_CHANGED"
+    | "BACKEND_CHANGED"
+    | "CONFIG_RELOADED"
     | "USER_MESSAGE"
     | "BOT_RESPONSE"
+    | "QUERY_RESULT"
+    | "BUDGET_EXCEEDED"
     | "SESSION_START"
     | "SESSION_END";
   userId?: string;
@@ -58,6 +67,130 @@ export class AuditLogger {
     });
   }
 
+  async logCommandBlocked(
+    userId: string,
+    channelId: string,
+    command: string,
+    reason: string
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "COMMAND_BLOCKED",
+      userId,
+      channelId,
+      details: {
+        command: command.substring(0, 200),
+        reason,
+      },
+    });
+  }
+
+  async logCommandExecuted(
+    userId: string,
+    channelId: string,
+    command: string,
+    exitCode: number,
+    timedOut: boolean
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "COMMAND_EXECUTED",
+      userId,
+      channelId,
+      details: {
+        command: command.substring(0, 200),
+        exitCode,
+        timedOut,
+      },
+    });
+  }
+
+  async logPermissionDecision(
+    toolName: string,
+    behavior: "allow" | "deny",
+    reason: string,
+    userId?: string,
+    channelId?: string
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "PERMISSION_DECISION",
+      userId,
+      channelId,
+      details: {
+        toolName,
+        behavior,
+        reason,
+      },
+    });
+  }
+
+  async logWorkdirChange(
+    userId: string,
+    channelId: string,
+    workDir: string,
+    previousWorkDir: string
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "WORKDIR_CHANGED",
+      userId,
+      channelId,
+      details: {
+        workDir,
+        previousWorkDir,
+      },
+    });
+  }
+
+  async logModelChange(
+    userId: string,
+    channelId: string,
+    model: string,
+    previousModel: string
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "MODEL_CHANGED",
+      userId,
+      channelId,
+      details: {
+        model,
+        previousModel,
+      },
+    });
+  }
+
+  async logBackendChange(
+    userId: string,
+    channelId: string,
+    backend: string,
+    previousBackend: string
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "BACKEND_CHANGED",
+      userId,
+      channelId,
+      details: {
+        backend,
+        previousBackend,
+      },
+    });
+  }
+
+  async logConfigReload(details: {
+    applied?: string[];
+    rejected?: string[];
+    errors?: string[];
+  }): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "CONFIG_RELOADED",
+      details,
+    });
+  }
+
   async logUserMessage(
     userId: string,
     username: string,
@@ -88,6 +221,35 @@ export class AuditLogger {
     });
   }
 
+  // Cost, tokens, turns and duration of one request, for later reporting
+  async logQueryResult(
+    channelId: string | undefined,
+    sessionId: string | undefined,
+    result: QueryResultMetadata
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "QUERY_RESULT",
+      channelId,
+      details: {
+        sessionId,
+        ...result,
+      },
+    });
+  }
+
+  async logBudgetExceeded(
+    channelId: string,
+    details: { scope: BudgetScope; spentUsd: number; limitUsd: number }
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date(),
+      eventType: "BUDGET_EXCEEDED",
+      channelId,
+      details,
+    });
+  }
+
   async logSessionStart(sessionId: string, workDir: string): Promise<void> {
     await this.log({
       timestamp: new Date(),
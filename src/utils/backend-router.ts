@@ -0,0 +1,60 @@
+// Per-thread routing of user messages to an assistant backend (`!backend`)
+
+export type Backend = "claude" | "gemini" | "debug";
+
+// Each backend actor is registered on the bus under its own default name
+export const BACKEND_ACTORS: Record<Backend, string> = {
+  claude: "claude-code",
+  gemini: "gemini-cli",
+  debug: "debug",
+};
+
+export function isBackend(value: string): value is Backend {
+  return Object.hasOwn(BACKEND_ACTORS, value);
+}
+
+export class BackendRouter {
+  private available: Backend[];
+  private defaultBackend: Backend;
+  private routes = new Map<string, Backend>();
+
+  constructor(available: Backend[], defaultBackend: Backend) {
+    this.available = available.includes(defaultBackend) ? available : [defaultBackend, ...available];
+    this.defaultBackend = defaultBackend;
+  }
+
+  getAvailable(): Backend[] {
+    return [...this.available];
+  }
+
+  getDefault(): Backend {
+    return this.defaultBackend;
+  }
+
+  isAvailable(backend: string): backend is Backend {
+    return isBackend(backend) && this.available.includes(backend);
+  }
+
+  backendFor(channelId?: string): Backend {
+    return (channelId ? this.routes.get(channelId) : undefined) ?? this.defaultBackend;
+  }
+
+  actorFor(channelId?: string): string {
+    return BACKEND_ACTORS[this.backendFor(channelId)];
+  }
+
+  isBackendActor(name: string): boolean {
+    return this.available.some((backend) => BACKEND_ACTORS[backend] === name);
+  }
+
+  // Returns false when the backend is unknown or not configured
+  set(channelId: string, backend: string): boolean {
+    if (!this.isAvailable(backend)) return false;
+    if (backend === this.defaultBackend) {
+      this.routes.delete(channelId);
+    } else {
+      this.routes.set(channelId, backend);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,40 @@
+// Reads ccdiscord.config.json / ccdiscord.config.toml (or the file given with --config)
+import { extname, resolve } from "@std/path";
+import { parse as parseToml } from "@std/toml";
+
+// Looked up in the launch directory when --config is not given
+export const DEFAULT_CONFIG_FILES = ["ccdiscord.config.json", "ccdiscord.config.toml"];
+
+export type ConfigFileResult =
+  | { ok: true; path?: string; data: Record<string, unknown> }
+  | { ok: false; path: string; reason: "notFound" | "parse" | "notObject"; detail?: string };
+
+// Synchronous so loadConfig stays synchronous. A missing default file is not an
+// error; a missing explicit --config path is.
+export function readConfigFile(path?: string, cwd: string = Deno.cwd()): ConfigFileResult {
+  const candidates = path ? [resolve(cwd, path)] : DEFAULT_CONFIG_FILES.map((name) => resolve(cwd, name));
+
+  for (const candidate of candidates) {
+    let text: string;
+    try {
+      text = Deno.readTextFileSync(candidate);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) continue;
+      return { ok: false, path: candidate, reason: "parse", detail: String(error) };
+    }
+
+    let data: unknown;
+    try {
+      data = extname(candidate).toLowerCase() === ".toml" ? parseToml(text) : JSON.parse(text);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      return { ok: false, path: candidate, reason: "parse", detail };
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      return { ok: false, path: candidate, reason: "notObject" };
+    }
+    return { ok: true, path: candidate, data: data as Record<string, unknown> };
+  }
+
+  return path ? { ok: false, path: candidates[0], reason: "notFound" } : { ok: true, data: {} };
+}
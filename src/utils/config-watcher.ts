@@ -0,0 +1,68 @@
+// Watches the config file and reports edits once they settle (for hot-reload)
+import { basename, dirname, resolve } from "@std/path";
+import { DEFAULT_CONFIG_FILES } from "./config-file.ts";
+
+export interface ConfigWatcherOptions {
+  // --config path; without it the default file names in the launch directory are watched
+  configPath?: string;
+  debounceMs?: number;
+  onChange: () => void | Promise<void>;
+}
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+// Watches the directory rather than the file so editors that save by
+// rename-and-replace (and a config file created after startup) are noticed.
+export class ConfigWatcher {
+  private options: ConfigWatcherOptions;
+  private watcher?: Deno.FsWatcher;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: ConfigWatcherOptions) {
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.watcher) return;
+    const files = this.options.configPath
+      ? [resolve(this.options.configPath)]
+      : DEFAULT_CONFIG_FILES.map((name) => resolve(name));
+    const dir = dirname(files[0]);
+    const names = new Set(files.map((file) => basename(file)));
+
+    try {
+      this.watcher = Deno.watchFs(dir, { recursive: false });
+    } catch (error) {
+      console.warn(`[config] Cannot watch ${dir}; hot-reload disabled`, error);
+      return;
+    }
+    console.log(`[config] Watching ${[...names].join(", ")} for changes`);
+
+    const watcher = this.watcher;
+    (async () => {
+      for await (const event of watcher) {
+        if (event.paths.some((path) => names.has(basename(path)))) {
+          this.schedule();
+        }
+      }
+    })().catch((error) => console.error("[config] Watcher stopped", error));
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  // Editors emit several events per save; react once they stop
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      Promise.resolve(this.options.onChange()).catch((error) =>
+        console.error("[config] Reload failed", error)
+      );
+    }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+}
@@ -0,0 +1,226 @@
+// Usage-limit cooldown: requests received while Claude's usage window is exhausted
+// are parked on disk and resumed in order once the limit resets
+import { dirname } from "@std/path";
+import type { ActorMessage } from "../types.ts";
+
+// Reset times far in the future are most likely misparsed; the window is 5 hours
+const MAX_COOLDOWN_MS = 6 * 60 * 60_000;
+const MIN_COOLDOWN_MS = 60_000;
+// Used when the error does not say when the limit resets
+const DEFAULT_COOLDOWN_MS = 30 * 60_000;
+
+interface CooldownFile {
+  until: string;
+  parked: ActorMessage[];
+}
+
+// Offset of `timeZone` from UTC at `date`, in ms (positive east of Greenwich)
+function zoneOffset(timeZone: string, date: Date): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    }).formatToParts(date).map((part) => [part.type, Number(part.value)]),
+  );
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The next time after `now` the wall clock in `timeZone` (local when omitted) shows hours:minutes
+function nextWallClock(now: Date, hours: number, minutes: number, timeZone?: string): Date {
+  if (!timeZone) {
+    const target = new Date(now);
+    target.setHours(hours, minutes, 0, 0);
+    if (target.getTime() <= now.getTime()) target.setDate(target.getDate() + 1);
+    return target;
+  }
+  const today = new Date(now.getTime() + zoneOffset(timeZone, now));
+  for (let days = 0; days <= 1; days++) {
+    const wall = Date.UTC(
+      today.getUTCFullYear(),
+      today.getUTCMonth(),
+      today.getUTCDate() + days,
+      hours,
+      minutes,
+    );
+    // Twice, so a DST change between now and the target is accounted for
+    let target = wall - zoneOffset(timeZone, new Date(wall));
+    target = wall - zoneOffset(timeZone, new Date(target));
+    if (target > now.getTime()) return new Date(target);
+  }
+  return new Date(now.getTime() + DEFAULT_COOLDOWN_MS);
+}
+
+// When the usage limit in a Claude error message resets:
+// "usage limit reached|1718000000", "resets 3pm (Asia/Tokyo)" or "resets 3:30am"
+export function parseUsageLimitReset(message: string, now = new Date()): Date | undefined {
+  const epoch = message.match(/limit reached\|(\d{10,13})/i);
+  if (epoch) {
+    const value = Number(epoch[1]);
+    return new Date(epoch[1].length > 10 ? value : value * 1000);
+  }
+
+  const match = message.match(
+    /resets?\s+(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?(?:\s*\(([^)]+)\))?/i,
+  );
+  if (!match) return undefined;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const ampm = (match[3] ?? "").toLowerCase();
+  if (ampm === "pm" && hours < 12) hours += 12;
+  if (ampm === "am" && hours === 12) hours = 0;
+
+  const timeZone = match[4]?.trim();
+  try {
+    return nextWallClock(now, hours, minutes, timeZone);
+  } catch {
+    // Unknown time zone names fall back to the bot's local time
+    return nextWallClock(now, hours, minutes);
+  }
+}
+
+// Keeps the cooldown within sane bounds when the reset time is missing or odd
+export function cooldownUntil(resetsAt: Date | undefined, now = new Date()): Date {
+  const delay = resetsAt ? resetsAt.getTime() - now.getTime() : DEFAULT_COOLDOWN_MS;
+  return new Date(now.getTime() + Math.min(Math.max(delay, MIN_COOLDOWN_MS), MAX_COOLDOWN_MS));
+}
+
+// Holds the parked requests until `until`, then hands them to `onResume` in the order
+// they arrived. The file (when set) lets a restart pick up where the last run stopped.
+export class CooldownScheduler {
+  private filePath?: string;
+  private onResume: (parked: ActorMessage[]) => Promise<void>;
+  private until?: Date;
+  private parked: ActorMessage[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  // Serialises writes like SessionPersistence
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    filePath: string | undefined,
+    onResume: (parked: ActorMessage[]) => Promise<void>,
+  ) {
+    this.filePath = filePath;
+    this.onResume = onResume;
+  }
+
+  isActive(): boolean {
+    return this.until !== undefined;
+  }
+
+  getUntil(): Date | undefined {
+    return this.until;
+  }
+
+  countParked(channelId: string): number {
+    return this.parked.filter((message) => channelOf(message) === channelId).length;
+  }
+
+  // A later reset time extends the cooldown; `first` (the request that hit the limit)
+  // goes ahead of everything parked so far
+  async start(until: Date, first?: ActorMessage): Promise<void> {
+    if (!this.until || until > this.until) this.until = until;
+    if (first) this.parked.unshift(first);
+    await this.save();
+    this.arm();
+  }
+
+  // Returns the request's position among the parked ones
+  async park(message: ActorMessage): Promise<number> {
+    this.parked.push(message);
+    await this.save();
+    return this.parked.length;
+  }
+
+  // After a restart the old threads are gone, so parked requests move to `channelId`.
+  // A cooldown that already ended resumes right away.
+  async restore(channelId: string): Promise<number> {
+    const file = await this.load();
+    if (!file) return 0;
+    this.until = new Date(file.until);
+    this.parked = file.parked.map((message) => ({
+      ...message,
+      payload: { ...(message.payload as Record<string, unknown>), channelId },
+      timestamp: new Date(message.timestamp),
+    }));
+    await this.save();
+    this.arm();
+    return this.parked.length;
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private arm(): void {
+    this.stop();
+    const delay = Math.max(0, (this.until?.getTime() ?? 0) - Date.now());
+    this.timer = setTimeout(() => {
+      this.resume().catch((error) => console.error("[cooldown] Failed to resume", error));
+    }, delay);
+  }
+
+  private async resume(): Promise<void> {
+    this.timer = undefined;
+    const parked = this.parked.splice(0);
+    this.until = undefined;
+    await this.save();
+    await this.onResume(parked);
+  }
+
+  private async load(): Promise<CooldownFile | undefined> {
+    if (!this.filePath) return undefined;
+    try {
+      return JSON.parse(await Deno.readTextFile(this.filePath)) as CooldownFile;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.warn(`[cooldown] Failed to read ${this.filePath}`, error);
+      }
+      return undefined;
+    }
+  }
+
+  // The file only exists while a cooldown is active
+  private save(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) return Promise.resolve();
+    const data: CooldownFile | undefined = this.until
+      ? { until: this.until.toISOString(), parked: [...this.parked] }
+      : undefined;
+    const run = this.writes.then(async () => {
+      try {
+        if (data) {
+          await Deno.mkdir(dirname(filePath), { recursive: true });
+          await Deno.writeTextFile(filePath, JSON.stringify(data, null, 2));
+        } else {
+          await Deno.remove(filePath).catch((error) => {
+            if (!(error instanceof Deno.errors.NotFound)) throw error;
+          });
+        }
+      } catch (error) {
+        console.error("[cooldown] Failed to save cooldown:", error);
+      }
+    });
+    this.writes = run;
+    return run;
+  }
+}
+
+function channelOf(message: ActorMessage): string | undefined {
+  return (message.payload as { channelId?: string } | undefined)?.channelId || undefined;
+}
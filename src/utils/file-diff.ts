@@ -0,0 +1,191 @@
+// Unified diffs of the files Claude changes in one turn (Edit / MultiEdit / Write tool calls)
+import { isAbsolute, relative, resolve } from "@std/path";
+import type { FileChange } from "../types.ts";
+
+const CONTEXT_LINES = 3;
+// Larger changes would need a huge LCS table; they are shown as a full replacement
+const MAX_DIFF_CELLS = 4_000_000;
+const EDIT_TOOLS = ["Edit", "MultiEdit", "Write"];
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines.at(-1) === "") lines.pop();
+  return lines;
+}
+
+function diffOps(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line) => ({ kind: " ", line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    ops.push(...midA.map((line): DiffOp => ({ kind: "-", line })));
+    ops.push(...midB.map((line): DiffOp => ({ kind: "+", line })));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ kind: " ", line: midA[i++] });
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        ops.push({ kind: "-", line: midA[i++] });
+      } else {
+        ops.push({ kind: "+", line: midB[j++] });
+      }
+    }
+    while (i < midA.length) ops.push({ kind: "-", line: midA[i++] });
+    while (j < midB.length) ops.push({ kind: "+", line: midB[j++] });
+  }
+  ops.push(...a.slice(endA).map((line): DiffOp => ({ kind: " ", line })));
+  return ops;
+}
+
+// `before` is null for a file that did not exist
+export function unifiedDiff(
+  path: string,
+  before: string | null,
+  after: string,
+): Omit<FileChange, "path"> | null {
+  const ops = diffOps(splitLines(before ?? ""), splitLines(after));
+  const changed = ops.flatMap((op, index) => op.kind === " " ? [] : [index]);
+  if (changed.length === 0) return null;
+
+  // Merge changes whose context windows overlap into one hunk
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - CONTEXT_LINES);
+    const to = Math.min(ops.length, index + CONTEXT_LINES + 1);
+    const last = ranges.at(-1);
+    if (last && from <= last[1]) last[1] = to;
+    else ranges.push([from, to]);
+  }
+
+  const lines = [before === null ? "--- /dev/null" : `--- a/${path}`, `+++ b/${path}`];
+  let oldLine = 0;
+  let newLine = 0;
+  let cursor = 0;
+  for (const [from, to] of ranges) {
+    // Everything between hunks is unchanged context
+    oldLine += from - cursor;
+    newLine += from - cursor;
+    const hunk = ops.slice(from, to);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    lines.push(
+      `@@ -${oldCount ? oldLine + 1 : oldLine},${oldCount} +${
+        newCount ? newLine + 1 : newLine
+      },${newCount} @@`,
+    );
+    for (const op of hunk) lines.push(`${op.kind}${op.line}`);
+    oldLine += oldCount;
+    newLine += newCount;
+    cursor = to;
+  }
+
+  return {
+    diff: lines.join("\n") + "\n",
+    added: ops.filter((op) => op.kind === "+").length,
+    removed: ops.filter((op) => op.kind === "-").length,
+  };
+}
+
+function applyEdit(text: string, oldString: string, newString: string, all: boolean): string {
+  if (oldString === "") return text === "" ? newString : text;
+  return all ? text.split(oldString).join(newString) : text.replace(oldString, () => newString);
+}
+
+// Replays a turn's edit tool calls against the files as they were when first touched.
+// Calls must be recorded before they run (PreToolUse hook), otherwise the first read may
+// already see the edit; a call whose result is an error is undone.
+export class FileChangeTracker {
+  private cwd: string;
+  private files = new Map<string, { before: string | null; after: string }>();
+  // toolUseId -> file and its content before that call
+  private undo = new Map<string, { file: string; after: string }>();
+
+  constructor(cwd: string) {
+    this.cwd = cwd;
+  }
+
+  record(toolName: string, input: unknown, toolUseId?: string): void {
+    if (!EDIT_TOOLS.includes(toolName) || !input || typeof input !== "object") return;
+    const args = input as {
+      file_path?: string;
+      content?: string;
+      old_string?: string;
+      new_string?: string;
+      replace_all?: boolean;
+      edits?: Array<{ old_string?: string; new_string?: string; replace_all?: boolean }>;
+    };
+    if (typeof args.file_path !== "string") return;
+
+    const file = resolve(this.cwd, args.file_path);
+    let entry = this.files.get(file);
+    if (!entry) {
+      const before = readOrNull(file);
+      entry = { before, after: before ?? "" };
+      this.files.set(file, entry);
+    }
+    if (toolUseId) this.undo.set(toolUseId, { file, after: entry.after });
+
+    if (toolName === "Write") {
+      entry.after = args.content ?? "";
+      return;
+    }
+    const edits = toolName === "MultiEdit" ? args.edits ?? [] : [args];
+    for (const edit of edits) {
+      entry.after = applyEdit(
+        entry.after,
+        edit.old_string ?? "",
+        edit.new_string ?? "",
+        edit.replace_all ?? false,
+      );
+    }
+  }
+
+  discard(toolUseId: string): void {
+    const undo = this.undo.get(toolUseId);
+    const entry = undo && this.files.get(undo.file);
+    if (entry) entry.after = undo.after;
+  }
+
+  changes(): FileChange[] {
+    const changes: FileChange[] = [];
+    for (const [file, { before, after }] of this.files) {
+      const rel = relative(this.cwd, file);
+      const path = rel.startsWith("..") || isAbsolute(rel) ? file : rel;
+      const diff = unifiedDiff(path, before, after);
+      if (diff) changes.push({ path, ...diff });
+    }
+    return changes;
+  }
+}
+
+function readOrNull(file: string): string | null {
+  try {
+    return Deno.readTextFileSync(file);
+  } catch {
+    return null;
+  }
+}
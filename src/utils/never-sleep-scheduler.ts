@@ -0,0 +1,277 @@
+// Never Sleep mode: periodically checks for idleness and keeps the assistant working
+import { t } from "../i18n.ts";
+import type { ActorMessage, MessageBus } from "../types.ts";
+import { ConnectionStateManager } from "./resilient-connection.ts";
+
+export interface NeverSleepOptions {
+  idleTimeoutMs?: number;
+  checkIntervalMs?: number;
+  maxExecutionTimeMs?: number;
+  prompt?: string;
+  autoResponderName?: string;
+  assistantName?: string;
+  // Resolves the thread's backend actor (overrides assistantName)
+  assistantFor?: (channelId: string) => string;
+}
+
+export const DEFAULT_NEVER_SLEEP_PROMPT =
+  "TODO.md を確認し、未完了のタスクのうち次に取り組むべきものを進めてください。" +
+  "完了したタスクは TODO.md のチェックボックスを更新し、すべて完了している場合はその旨を報告してください。";
+
+// Marker the assistant appends when the dispatched TODO.md task is finished
+export const TASK_DONE_MARKER = "TASK_DONE";
+const TASK_DONE_RE = new RegExp(`^\\s*${TASK_DONE_MARKER}\\s*$`, "m");
+
+export function buildTaskPrompt(task: string): string {
+  return `TODO.md の次のタスクに取り組んでください:\n> ${task}\n\n` +
+    `タスクが完了したら、応答の最後に \`${TASK_DONE_MARKER}\` とだけ書いた行を追加してください` +
+    "（TODO.md のチェックはボット側で更新します）。完了できなかった場合は理由を報告してください。";
+}
+
+export function isTaskDone(text: string): boolean {
+  return TASK_DONE_RE.test(text);
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+const DEFAULT_MAX_EXECUTION_TIME_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+// Drives AutoResponderActor with idle/execution-time checks and dispatches
+// follow-up prompts to the assistant while the thread is idle.
+export class NeverSleepScheduler {
+  name = "never-sleep";
+  private bus: MessageBus;
+  private options: Required<Omit<NeverSleepOptions, "assistantFor">>;
+  private assistantFor?: (channelId: string) => string;
+  private activity = new ConnectionStateManager();
+  private activeStreams = new Set<string>();
+  private channelId?: string;
+  private startTime?: Date;
+  private timer?: number;
+  private dispatching = false;
+  // originalMessageId -> TODO.md item dispatched with it
+  private dispatchedTasks = new Map<string, string>();
+  private listener: ((message: ActorMessage) => void) | null = null;
+
+  constructor(bus: MessageBus, options: NeverSleepOptions = {}) {
+    this.bus = bus;
+    this.options = {
+      idleTimeoutMs: options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS,
+      checkIntervalMs: options.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS,
+      maxExecutionTimeMs: options.maxExecutionTimeMs ?? DEFAULT_MAX_EXECUTION_TIME_MS,
+      prompt: options.prompt ?? DEFAULT_NEVER_SLEEP_PROMPT,
+      autoResponderName: options.autoResponderName ?? "auto-responder",
+      assistantName: options.assistantName ?? "assistant",
+    };
+    this.assistantFor = options.assistantFor;
+  }
+
+  // Subscribe to bus events; the timer starts once the session thread is ready
+  start(): void {
+    if (this.listener) return;
+    this.listener = (message) => this.observe(message);
+    this.bus.addListener(this.listener);
+    console.log(`[${this.name}] Waiting for session thread`);
+  }
+
+  async stop(reason = t("discord.neverSleep.shutdown")): Promise<void> {
+    if (this.listener) {
+      this.bus.removeListener(this.listener);
+      this.listener = null;
+    }
+    await this.deactivate(reason);
+  }
+
+  isActive(): boolean {
+    return this.timer !== undefined;
+  }
+
+  getIdleTime(): number {
+    return this.activity.getIdleTime();
+  }
+
+  private observe(message: ActorMessage): void {
+    const payload = (message.payload ?? {}) as {
+      channelId?: string;
+      originalMessageId?: string;
+      aborted?: boolean;
+      fullText?: string;
+    };
+
+    if (message.type === "thread-ready" && payload.channelId) {
+      this.channelId = payload.channelId;
+      void this.activate();
+      return;
+    }
+
+    if (message.to !== "discord" || !payload.originalMessageId) return;
+    if (this.channelId && payload.channelId && payload.channelId !== this.channelId) return;
+
+    switch (message.type) {
+      case "stream-started":
+      case "stream-partial":
+      case "stream-tool-use":
+        this.activeStreams.add(payload.originalMessageId);
+        this.activity.updateActivity();
+        break;
+      case "stream-completed":
+        this.activeStreams.delete(payload.originalMessageId);
+        this.activity.updateActivity();
+        void this.recordTaskResult(payload.originalMessageId, payload.fullText ?? "");
+        break;
+      case "stream-error":
+        // A user-requested abort also lands here, so the next prompt waits a full idle period
+        this.activeStreams.delete(payload.originalMessageId);
+        this.activity.updateActivity();
+        break;
+    }
+  }
+
+  private async activate(): Promise<void> {
+    if (this.timer !== undefined) return;
+    this.startTime = new Date();
+    this.activity.updateActivity();
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error(`[${this.name}] tick failed`, error));
+    }, this.options.checkIntervalMs) as unknown as number;
+
+    const minutes = Math.round(this.options.idleTimeoutMs / 60_000);
+    const hours = Math.round(this.options.maxExecutionTimeMs / 3_600_000);
+    console.log(`[${this.name}] Autonomous mode started`);
+    await this.notify(
+      `${t("discord.neverSleep.started")}\n${t("discord.neverSleep.idleMinutes")} ${minutes} / ` +
+        `${t("discord.neverSleep.maxHours")} ${hours}`,
+    );
+  }
+
+  private async deactivate(reason: string): Promise<void> {
+    if (this.timer === undefined) return;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    console.log(`[${this.name}] Autonomous mode stopped (${reason})`);
+    await this.notify(`${t("discord.neverSleep.stopped")} ${reason}`);
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.channelId || !this.startTime) return;
+
+    const timeCheck = await this.bus.send(this.createMessage(
+      this.options.autoResponderName,
+      "check-execution-time",
+      { startTime: this.startTime, maxExecutionTime: this.options.maxExecutionTimeMs },
+    ));
+    if (timeCheck?.type === "execution-time-exceeded") {
+      await this.deactivate(t("discord.neverSleep.maxTimeReached"));
+      return;
+    }
+
+    if (this.dispatching || this.activeStreams.size > 0) return;
+
+    const idleCheck = await this.bus.send(this.createMessage(
+      this.options.autoResponderName,
+      "idle-check",
+      {
+        lastActivityTime: new Date(Date.now() - this.activity.getIdleTime()),
+        timeout: this.options.idleTimeoutMs,
+      },
+    ));
+    if (idleCheck?.type !== "trigger-next-task") return;
+
+    await this.dispatchNextTask();
+  }
+
+  private async dispatchNextTask(): Promise<void> {
+    const channelId = this.channelId!;
+
+    const suggestion = await this.bus.send(this.createMessage(
+      this.options.autoResponderName,
+      "suggest-task",
+      { context: "never-sleep" },
+    ));
+    const { nextTask, todoFound } = (suggestion?.payload ?? {}) as {
+      nextTask?: { text: string };
+      todoFound?: boolean;
+    };
+    if (todoFound && !nextTask) {
+      await this.deactivate(t("discord.neverSleep.noTasks"));
+      return;
+    }
+
+    const assistant = this.assistantFor?.(channelId) ?? this.options.assistantName;
+    const message = this.createMessage(assistant, "user-message", {});
+    if (nextTask) this.dispatchedTasks.set(message.id, nextTask.text);
+    message.payload = {
+      text: nextTask ? buildTaskPrompt(nextTask.text) : this.options.prompt,
+      attachments: [],
+      originalFrom: this.name,
+      originalMessageId: message.id,
+      channelId,
+      autonomous: true,
+    };
+
+    console.log(`[${this.name}] Idle for ${Math.round(this.activity.getIdleTime() / 1000)}s, dispatching next task`);
+    this.dispatching = true;
+    this.activity.updateActivity();
+    await this.notify(
+      nextTask
+        ? `${t("discord.neverSleep.dispatching")} ${nextTask.text}`
+        : t("discord.neverSleep.dispatchingNext"),
+    );
+
+    // The assistant may run for a long time; don't block the timer on it
+    this.bus.send(message)
+      .catch((error) => console.error(`[${this.name}] dispatch failed`, error))
+      .finally(() => {
+        this.dispatching = false;
+        this.activity.updateActivity();
+      });
+  }
+
+  // Check off the dispatched TODO.md item when the assistant reports it as done
+  private async recordTaskResult(originalMessageId: string, fullText: string): Promise<void> {
+    const task = this.dispatchedTasks.get(originalMessageId);
+    if (task === undefined) return;
+    this.dispatchedTasks.delete(originalMessageId);
+    if (!isTaskDone(fullText)) return;
+
+    try {
+      const response = await this.bus.send(this.createMessage(
+        this.options.autoResponderName,
+        "task-completed",
+        { task },
+      ));
+      const result = response?.payload as { updated?: boolean; remaining?: number } | undefined;
+      if (result?.updated) {
+        await this.notify(
+          `${t("discord.neverSleep.taskUpdated")} ${task}\n` +
+            `${t("discord.neverSleep.remaining")} ${result.remaining ?? 0}`,
+        );
+      }
+    } catch (error) {
+      console.error(`[${this.name}] Failed to update TODO.md`, error);
+    }
+  }
+
+  private async notify(text: string): Promise<void> {
+    if (!this.channelId) return;
+    await this.bus.emit({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: "discord",
+      type: "thread-notice",
+      payload: { channelId: this.channelId, text },
+      timestamp: new Date(),
+    });
+  }
+
+  private createMessage(to: string, type: string, payload: unknown): ActorMessage {
+    return {
+      id: crypto.randomUUID(),
+      from: this.name,
+      to,
+      type,
+      payload,
+      timestamp: new Date(),
+    };
+  }
+}
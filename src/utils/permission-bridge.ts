@@ -0,0 +1,191 @@
+// Bridges Claude Code tool-permission prompts (canUseTool) to Discord over the message bus
+import type { PermissionResult } from "@anthropic-ai/claude-code";
+import type {
+  ActorMessage,
+  MessageBus,
+  PermissionDecisionMessage,
+  PermissionResolvedMessage,
+} from "../types.ts";
+
+export interface PermissionBridgeOptions {
+  name?: string;
+  timeoutMs?: number;
+}
+
+type PendingRequest = {
+  toolName: string;
+  input: Record<string, unknown>;
+  channelId?: string;
+  settle: (result: PermissionResult, resolved: PermissionResolvedMessage["payload"]) => void;
+};
+
+const DEFAULT_PERMISSION_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+
+// Emits "permission-request" and waits for a matching "permission-decision".
+// Unanswered requests are denied after the timeout; every outcome is announced
+// as "permission-resolved" so the Discord side can update the prompt and audit it.
+export class PermissionBridge {
+  private bus: MessageBus;
+  private name: string;
+  private timeoutMs: number;
+  private pending = new Map<string, PendingRequest>();
+  // Tool names allowed with "Always allow", per channel: the choice covers only that thread
+  private alwaysAllowed = new Map<string, Set<string>>();
+  private listener: ((message: ActorMessage) => void) | null = null;
+
+  constructor(bus: MessageBus, options: PermissionBridgeOptions = {}) {
+    this.bus = bus;
+    this.name = options.name ?? "permission-bridge";
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_PERMISSION_TIMEOUT_MS;
+  }
+
+  start(): void {
+    if (this.listener) return;
+    this.listener = (message) => {
+      if (message.type === "permission-decision") {
+        this.handleDecision(message as PermissionDecisionMessage);
+      }
+    };
+    this.bus.addListener(this.listener);
+  }
+
+  stop(): void {
+    if (this.listener) {
+      this.bus.removeListener(this.listener);
+      this.listener = null;
+    }
+    for (const [requestId, request] of this.pending) {
+      this.settle(requestId, request, "deny", "aborted");
+    }
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  isAlwaysAllowed(toolName: string, channelId?: string): boolean {
+    return this.alwaysAllowed.get(channelId ?? "")?.has(toolName) ?? false;
+  }
+
+  async request(
+    toolName: string,
+    input: Record<string, unknown>,
+    options: { signal?: AbortSignal; channelId?: string } = {},
+  ): Promise<PermissionResult> {
+    const requestId = crypto.randomUUID();
+
+    if (this.isAlwaysAllowed(toolName, options.channelId)) {
+      await this.emitResolved({
+        requestId,
+        toolName,
+        behavior: "allow",
+        reason: "always-allow",
+        channelId: options.channelId,
+      });
+      return { behavior: "allow", updatedInput: input };
+    }
+
+    const result = new Promise<PermissionResult>((resolve) => {
+      const timer = setTimeout(() => {
+        const request = this.pending.get(requestId);
+        if (request) this.settle(requestId, request, "deny", "timeout");
+      }, this.timeoutMs);
+      const onAbort = () => {
+        const request = this.pending.get(requestId);
+        if (request) this.settle(requestId, request, "deny", "aborted");
+      };
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(requestId, {
+        toolName,
+        input,
+        channelId: options.channelId,
+        settle: (permission, resolved) => {
+          clearTimeout(timer);
+          options.signal?.removeEventListener("abort", onAbort);
+          resolve(permission);
+          void this.emitResolved(resolved);
+        },
+      });
+    });
+
+    await this.bus.emit({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: "discord",
+      type: "permission-request",
+      payload: {
+        requestId,
+        toolName,
+        input,
+        channelId: options.channelId,
+        timeoutMs: this.timeoutMs,
+      },
+      timestamp: new Date(),
+    });
+
+    if (options.signal?.aborted) {
+      const request = this.pending.get(requestId);
+      if (request) this.settle(requestId, request, "deny", "aborted");
+    }
+
+    return result;
+  }
+
+  private handleDecision(message: PermissionDecisionMessage): void {
+    const { requestId, behavior, always, userId } = message.payload;
+    const request = this.pending.get(requestId);
+    if (!request) return;
+
+    if (behavior === "allow" && always) {
+      const channelKey = request.channelId ?? "";
+      const tools = this.alwaysAllowed.get(channelKey) ?? new Set<string>();
+      tools.add(request.toolName);
+      this.alwaysAllowed.set(channelKey, tools);
+    }
+    this.settle(requestId, request, behavior, "user", { always, userId });
+  }
+
+  private settle(
+    requestId: string,
+    request: PendingRequest,
+    behavior: "allow" | "deny",
+    reason: PermissionResolvedMessage["payload"]["reason"],
+    extra: { always?: boolean; userId?: string } = {},
+  ): void {
+    this.pending.delete(requestId);
+    const permission: PermissionResult = behavior === "allow"
+      ? { behavior: "allow", updatedInput: request.input }
+      : { behavior: "deny", message: this.denyMessage(reason) };
+    request.settle(permission, {
+      requestId,
+      toolName: request.toolName,
+      behavior,
+      reason,
+      channelId: request.channelId,
+      ...extra,
+    });
+  }
+
+  private denyMessage(reason: PermissionResolvedMessage["payload"]["reason"]): string {
+    switch (reason) {
+      case "timeout":
+        return "Permission request timed out without an answer";
+      case "aborted":
+        return "Permission request was cancelled";
+      default:
+        return "The user denied this tool call";
+    }
+  }
+
+  private async emitResolved(payload: PermissionResolvedMessage["payload"]): Promise<void> {
+    await this.bus.emit({
+      id: crypto.randomUUID(),
+      from: this.name,
+      to: "discord",
+      type: "permission-resolved",
+      payload,
+      timestamp: new Date(),
+    });
+  }
+}
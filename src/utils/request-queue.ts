@@ -0,0 +1,46 @@
+// Views and edits of a thread's waiting requests (`!queue`, `!cancel`, `!priority`),
+// shared by the assistant actors
+import { t } from "../i18n.ts";
+import type { ActorMessage, ImportedAttachment } from "../types.ts";
+
+export type QueueAction = "list" | "cancel" | "priority";
+
+export interface QueuedRequest {
+  // 1-based position among the waiting requests (the running one is not counted)
+  position: number;
+  authorId?: string;
+  authorName?: string;
+  preview: string;
+}
+
+// One-line preview of a queued request for thread notices and `!queue`
+export function describeRequest(message: ActorMessage): string {
+  const { text, attachments } = message.payload as {
+    text?: string;
+    attachments?: ImportedAttachment[];
+  };
+  const line = text?.trim().split("\n")[0] ?? "";
+  if (!line) return `[${t("discord.queue.attachments")} ${attachments?.length ?? 0}]`;
+  return line.length > 80 ? `${line.slice(0, 80)}…` : line;
+}
+
+export function listQueue(queue: ActorMessage[]): QueuedRequest[] {
+  return queue.map((message, index) => toQueuedRequest(message, index + 1));
+}
+
+// Cancels or prioritizes the request at `position`; undefined when there is none
+export function editQueue(
+  queue: ActorMessage[],
+  action: Exclude<QueueAction, "list">,
+  position: number,
+): { request: QueuedRequest; message: ActorMessage } | undefined {
+  if (!Number.isInteger(position) || position < 1 || position > queue.length) return undefined;
+  const [message] = queue.splice(position - 1, 1);
+  if (action === "priority") queue.unshift(message);
+  return { request: toQueuedRequest(message, position), message };
+}
+
+function toQueuedRequest(message: ActorMessage, position: number): QueuedRequest {
+  const { authorId, authorName } = message.payload as { authorId?: string; authorName?: string };
+  return { position, authorId, authorName, preview: describeRequest(message) };
+}
@@ -1,4 +1,5 @@
 // 堅牢な接続管理ユーティリティ
+import { dirname } from "@std/path";
 
 export interface RetryOptions {
   maxRetries?: number;
@@ -130,13 +131,16 @@ export interface PendingJob {
 
 export class SessionPersistence {
   private sessionFile: string;
+  // Serialises read-modify-write cycles so concurrent threads don't lose jobs
+  private writes: Promise<void> = Promise.resolve();
 
-  constructor(sessionId: string) {
-    this.sessionFile = `./logs/session_${sessionId}.json`;
+  constructor(sessionId: string, sessionFile = `./logs/session_${sessionId}.json`) {
+    this.sessionFile = sessionFile;
   }
 
   async save(data: SessionData): Promise<void> {
     try {
+      await Deno.mkdir(dirname(this.sessionFile), { recursive: true });
       await Deno.writeTextFile(this.sessionFile, JSON.stringify(data, null, 2));
     } catch (error) {
       console.error("[session] Failed to save session:", error);
@@ -153,28 +157,31 @@ export class SessionPersistence {
   }
 
   async addPendingJob(job: PendingJob): Promise<void> {
-    const session = await this.load() || {
-      id: crypto.randomUUID(),
-      lastActivity: new Date(),
-      pendingJobs: []
-    };
+    await this.update((session) => {
+      session.pendingJobs.push(job);
+    });
+  }
 
-    session.pendingJobs.push(job);
-    await this.save(session);
+  async updatePendingJob(jobId: string, patch: Partial<PendingJob>): Promise<void> {
+    await this.update((session) => {
+      const job = session.pendingJobs.find(j => j.id === jobId);
+      if (job) Object.assign(job, patch);
+    });
   }
 
-  async markJobAcked(jobId: string): Promise<void> {
-    const session = await this.load();
-    if (!session) return;
+  async markJobSent(jobId: string): Promise<void> {
+    await this.updatePendingJob(jobId, { status: 'sent', lastTryAt: new Date() });
+  }
 
-    const job = session.pendingJobs.find(j => j.id === jobId);
-    if (job) {
-      job.status = 'acked';
-      await this.save(session);
-    }
+  // Acked jobs have nothing left to replay, so they are dropped from the file
+  async markJobAcked(jobId: string): Promise<void> {
+    await this.update((session) => {
+      session.pendingJobs = session.pendingJobs.filter(j => j.id !== jobId);
+    });
   }
 
   async getPendingJobs(): Promise<PendingJob[]> {
+    await this.writes;
     const session = await this.load();
     if (!session) return [];
 
@@ -182,10 +189,23 @@ export class SessionPersistence {
   }
 
   async clearPendingJobs(): Promise<void> {
-    const session = await this.load();
-    if (!session) return;
+    await this.update((session) => {
+      session.pendingJobs = [];
+    });
+  }
 
-    session.pendingJobs = [];
-    await this.save(session);
+  private update(mutate: (session: SessionData) => void): Promise<void> {
+    const run = this.writes.then(async () => {
+      const session = await this.load() || {
+        id: crypto.randomUUID(),
+        lastActivity: new Date(),
+        pendingJobs: []
+      };
+      mutate(session);
+      session.lastActivity = new Date();
+      await this.save(session);
+    });
+    this.writes = run.catch(() => {});
+    return run;
   }
-}
\ No newline at end of file
+}
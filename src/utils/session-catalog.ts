@@ -0,0 +1,284 @@
+// Catalog of Claude Code sessions stored under ~/.claude/projects
+import { join } from "@std/path";
+
+export interface SessionSummary {
+  sessionId: string;
+  filePath: string;
+  cwd?: string;
+  startedAt?: string;
+  updatedAt?: string;
+  title?: string;
+  lastQuery?: string;
+  messageCount: number;
+}
+
+export interface ConversationMessage {
+  type: "user" | "assistant";
+  content: string;
+  timestamp?: string;
+}
+
+export interface SessionListOptions {
+  // Only sessions recorded for this working directory (default: Deno.cwd())
+  cwd?: string;
+  // Scan every project directory instead of the one for `cwd`
+  allProjects?: boolean;
+  limit?: number;
+}
+
+export interface SessionCatalogOptions {
+  projectsDir?: string;
+  previewLength?: number;
+}
+
+type TranscriptLine = {
+  type?: string;
+  sessionId?: string;
+  cwd?: string;
+  timestamp?: string;
+  title?: string;
+  summary?: string;
+  message?: { content?: unknown };
+};
+
+const DEFAULT_PREVIEW_LENGTH = 50;
+
+function defaultProjectsDir(): string {
+  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? ".";
+  return join(home, ".claude", "projects");
+}
+
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > max ? singleLine.slice(0, max) + "..." : singleLine;
+}
+
+function parseLine(line: string): TranscriptLine | null {
+  if (!line.trim()) return null;
+  try {
+    return JSON.parse(line) as TranscriptLine;
+  } catch {
+    return null;
+  }
+}
+
+// Text typed by the user (tool_result-only turns are skipped)
+function userText(content: unknown): string | undefined {
+  if (typeof content === "string") return content || undefined;
+  if (Array.isArray(content)) {
+    const block = content.find((c: { type?: string; text?: string }) =>
+      c?.type === "text" && typeof c.text === "string"
+    );
+    return block?.text || undefined;
+  }
+  return undefined;
+}
+
+// `textOnly` leaves out the "[tool: X]" markers, so a tool-call-only turn has no text
+function assistantText(content: unknown, textOnly = false): string | undefined {
+  if (typeof content === "string") return content || undefined;
+  if (Array.isArray(content)) {
+    const parts = content
+      .map((c: { type?: string; text?: string; name?: string }) => {
+        if (c?.type === "text") return c.text ?? "";
+        if (c?.type === "tool_use" && !textOnly) return `[tool: ${c.name ?? "unknown"}]`;
+        return "";
+      })
+      .filter((part) => part.trim());
+    return parts.length > 0 ? parts.join(" ") : undefined;
+  }
+  return undefined;
+}
+
+// Reads Claude Code transcripts (.jsonl) to list and inspect resumable sessions
+export class SessionCatalog {
+  private projectsDir: string;
+  private previewLength: number;
+
+  constructor(options: SessionCatalogOptions = {}) {
+    this.projectsDir = options.projectsDir ?? defaultProjectsDir();
+    this.previewLength = options.previewLength ?? DEFAULT_PREVIEW_LENGTH;
+  }
+
+  // Claude Code stores each project under its cwd with non-alphanumerics replaced by "-"
+  static projectKey(cwd: string): string {
+    return cwd.replace(/[^a-zA-Z0-9]/g, "-");
+  }
+
+  getProjectPath(cwd: string = Deno.cwd()): string {
+    return join(this.projectsDir, SessionCatalog.projectKey(cwd));
+  }
+
+  async list(options: SessionListOptions = {}): Promise<SessionSummary[]> {
+    const cwd = options.cwd ?? Deno.cwd();
+    const dirs = options.allProjects
+      ? await this.listProjectDirs()
+      : [this.getProjectPath(cwd)];
+
+    const sessions: SessionSummary[] = [];
+    for (const dir of dirs) {
+      for (const filePath of await this.listTranscripts(dir)) {
+        const summary = await this.summarize(filePath);
+        if (!summary) continue;
+        // Transcripts record the cwd of each turn; drop sessions from other directories
+        if (!options.allProjects && summary.cwd && summary.cwd !== cwd) continue;
+        sessions.push(summary);
+      }
+    }
+
+    // Newest first; sessions without any timestamp go last
+    sessions.sort((a, b) => {
+      const ta = a.updatedAt ? new Date(a.updatedAt).getTime() : -Infinity;
+      const tb = b.updatedAt ? new Date(b.updatedAt).getTime() : -Infinity;
+      return tb - ta;
+    });
+
+    return options.limit ? sessions.slice(0, options.limit) : sessions;
+  }
+
+  async findLatest(cwd: string = Deno.cwd()): Promise<SessionSummary | undefined> {
+    const [latest] = await this.list({ cwd, limit: 1 });
+    return latest;
+  }
+
+  async getHistory(
+    sessionId: string,
+    options: { cwd?: string; limit?: number; maxChars?: number; textOnly?: boolean } = {},
+  ): Promise<ConversationMessage[]> {
+    const filePath = await this.findTranscript(sessionId, options.cwd);
+    if (!filePath) return [];
+
+    const maxChars = options.maxChars ?? 100;
+    const messages: ConversationMessage[] = [];
+    const content = await Deno.readTextFile(filePath);
+    for (const line of content.split("\n")) {
+      const data = parseLine(line);
+      if (!data?.message) continue;
+
+      const text = data.type === "user"
+        ? userText(data.message.content)
+        : data.type === "assistant"
+        ? assistantText(data.message.content, options.textOnly)
+        : undefined;
+      if (!text) continue;
+
+      messages.push({
+        type: data.type as "user" | "assistant",
+        content: text.length > maxChars ? text.slice(0, maxChars) + "..." : text,
+        timestamp: data.timestamp,
+      });
+    }
+
+    return options.limit ? messages.slice(-options.limit) : messages;
+  }
+
+  private async findTranscript(sessionId: string, cwd?: string): Promise<string | undefined> {
+    const direct = join(this.getProjectPath(cwd), `${sessionId}.jsonl`);
+    try {
+      await Deno.stat(direct);
+      return direct;
+    } catch {
+      // Fall back to scanning every project (session may belong to another directory)
+    }
+
+    for (const dir of await this.listProjectDirs()) {
+      for (const filePath of await this.listTranscripts(dir)) {
+        if (filePath.includes(sessionId)) return filePath;
+      }
+    }
+    return undefined;
+  }
+
+  private async listProjectDirs(): Promise<string[]> {
+    const dirs: string[] = [];
+    try {
+      for await (const entry of Deno.readDir(this.projectsDir)) {
+        if (entry.isDirectory) dirs.push(join(this.projectsDir, entry.name));
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.warn(`[session-catalog] Failed to read ${this.projectsDir}`, error);
+      }
+    }
+    return dirs;
+  }
+
+  private async listTranscripts(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    try {
+      for await (const entry of Deno.readDir(dir)) {
+        if (entry.isFile && entry.name.endsWith(".jsonl")) {
+          files.push(join(dir, entry.name));
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.warn(`[session-catalog] Failed to read ${dir}`, error);
+      }
+    }
+    return files;
+  }
+
+  private async summarize(filePath: string): Promise<SessionSummary | null> {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(filePath);
+    } catch {
+      return null;
+    }
+
+    let sessionId: string | undefined;
+    let cwd: string | undefined;
+    let startedAt: string | undefined;
+    let updatedAt: string | undefined;
+    let title: string | undefined;
+    let lastQuery: string | undefined;
+    let messageCount = 0;
+
+    for (const line of content.split("\n")) {
+      const data = parseLine(line);
+      if (!data) continue;
+
+      sessionId ??= data.sessionId;
+      cwd ??= data.cwd;
+      if (data.timestamp) {
+        startedAt ??= data.timestamp;
+        updatedAt = data.timestamp;
+      }
+      if (data.type === "summary" && data.summary) {
+        title = data.summary;
+      } else if (data.title) {
+        title ??= data.title;
+      }
+
+      if (data.type === "user" || data.type === "assistant") {
+        messageCount++;
+      }
+      if (data.type === "user") {
+        const text = userText(data.message?.content);
+        if (text) lastQuery = text;
+      }
+    }
+
+    if (!sessionId) return null;
+
+    if (!updatedAt) {
+      try {
+        updatedAt = (await Deno.stat(filePath)).mtime?.toISOString();
+      } catch {
+        // keep undefined
+      }
+    }
+
+    return {
+      sessionId,
+      filePath,
+      cwd,
+      startedAt,
+      updatedAt,
+      title: title ? truncate(title, this.previewLength) : undefined,
+      lastQuery: lastQuery ? truncate(lastQuery, this.previewLength) : undefined,
+      messageCount,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+// Allow-listed shell command execution for `!!<command>`
+import { dirname, isAbsolute, join, relative, resolve } from "@std/path";
+
+export interface ShellRule {
+  binary: string;
+  // Tested against the argument string (arguments joined by a single space)
+  argsPattern?: RegExp;
+}
+
+export interface ShellExecutorOptions {
+  rules: ShellRule[];
+  workDir?: string;
+  timeoutMs?: number;
+  maxOutputChars?: number;
+}
+
+export type ShellCheck =
+  | { allowed: true; binary: string; args: string[] }
+  | { allowed: false; reason: string };
+
+export interface ShellResult {
+  command: string;
+  code: number;
+  output: string;
+  timedOut: boolean;
+  truncated: boolean;
+}
+
+export const DEFAULT_SHELL_ALLOWED_COMMANDS = [
+  "ls",
+  "pwd",
+  "cat",
+  "head",
+  "tail",
+  "wc",
+  // `git branch` only in its listing forms: no names, -d/-D, -m or -c
+  "git:^((status|log|diff|show)\\b|branch( (-a|--all|-r|--remotes|-v|-vv|--verbose|--list|--show-current))*$)",
+];
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_OUTPUT_CHARS = 8_000;
+
+// Pipes, redirects, command chaining, substitution and globbing need a shell; we never spawn one.
+// `~` and braces stay allowed: without a shell they are literal, as in `HEAD~1` or `main@{1}`
+const SHELL_METACHARACTERS = /[|&;<>`$()*?\n\r\\]/;
+
+// Files that usually hold keys or credentials (dotfiles such as .env are refused as well)
+const CREDENTIAL_FILE =
+  /\.env(\.|$)|^id_(rsa|dsa|ecdsa|ed25519)|^(credentials?|secrets?)(\.|$)|\.(pem|key|p12|pfx|jks)$/i;
+
+// "git:^(status|log)\b" -> { binary: "git", argsPattern: /^(status|log)\b/ }
+export function parseShellRule(entry: string): ShellRule {
+  const separator = entry.indexOf(":");
+  if (separator < 0) return { binary: entry.trim() };
+  return {
+    binary: entry.slice(0, separator).trim(),
+    argsPattern: new RegExp(entry.slice(separator + 1).trim()),
+  };
+}
+
+// Split on whitespace, honoring single and double quotes
+export function tokenizeCommand(command: string): string[] | null {
+  const tokens: string[] = [];
+  let current = "";
+  let quote: '"' | "'" | null = null;
+  let inToken = false;
+
+  for (const char of command) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) tokens.push(current);
+      current = "";
+      inToken = false;
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) return null; // unbalanced quotes
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+// Runs allow-listed binaries directly (no shell) inside a confined working directory
+export class ShellExecutor {
+  private rules: ShellRule[];
+  private workDir: string;
+  private timeoutMs: number;
+  private maxOutputChars: number;
+
+  constructor(options: ShellExecutorOptions) {
+    this.rules = options.rules;
+    this.workDir = resolve(options.workDir ?? Deno.cwd());
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxOutputChars = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+  }
+
+  getWorkDir(): string {
+    return this.workDir;
+  }
+
+  async check(command: string): Promise<ShellCheck> {
+    const trimmed = command.trim();
+    if (!trimmed) return { allowed: false, reason: "empty command" };
+    if (SHELL_METACHARACTERS.test(trimmed)) {
+      return { allowed: false, reason: "shell metacharacters are not allowed" };
+    }
+
+    const tokens = tokenizeCommand(trimmed);
+    if (!tokens || tokens.length === 0) return { allowed: false, reason: "unbalanced quotes" };
+    const [binary, ...args] = tokens;
+
+    if (binary.includes("/")) {
+      return { allowed: false, reason: "binaries must be given by name" };
+    }
+
+    const argString = args.join(" ");
+    const rule = this.rules.find((r) =>
+      r.binary === binary && (!r.argsPattern || r.argsPattern.test(argString))
+    );
+    if (!rule) {
+      const known = this.rules.some((r) => r.binary === binary);
+      return {
+        allowed: false,
+        reason: known ? `arguments not allowed for ${binary}` : `${binary} is not allow-listed`,
+      };
+    }
+
+    const sensitive = args.find((arg) => isSensitivePath(optionValue(arg)));
+    if (sensitive !== undefined) {
+      return { allowed: false, reason: `dotfiles and credential files are off limits: ${sensitive}` };
+    }
+
+    for (const arg of args) {
+      if (!(await this.isInsideWorkDir(arg))) {
+        return { allowed: false, reason: `path outside working directory: ${arg}` };
+      }
+    }
+
+    return { allowed: true, binary, args };
+  }
+
+  async execute(command: string): Promise<ShellResult> {
+    const check = await this.check(command);
+    if (!check.allowed) throw new Error(check.reason);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+
+    try {
+      const { code, stdout, stderr } = await new Deno.Command(check.binary, {
+        args: check.args,
+        cwd: this.workDir,
+        stdin: "null",
+        stdout: "piped",
+        stderr: "piped",
+        signal: controller.signal,
+      }).output();
+
+      const decoder = new TextDecoder();
+      const combined = [decoder.decode(stdout), decoder.decode(stderr)]
+        .map((part) => part.trimEnd())
+        .filter((part) => part)
+        .join("\n");
+      const truncated = combined.length > this.maxOutputChars;
+
+      return {
+        command: command.trim(),
+        code,
+        output: truncated ? combined.slice(0, this.maxOutputChars) : combined,
+        timedOut,
+        truncated,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Arguments must resolve inside the working directory once symlinks are followed, so
+  // even a bare file name that links elsewhere is rejected
+  private async isInsideWorkDir(arg: string): Promise<boolean> {
+    const value = optionValue(arg);
+    if (value.startsWith("-")) return true;
+
+    const workDir = await realPathOf(this.workDir);
+    const rel = relative(workDir, await realPathOf(resolve(this.workDir, value)));
+    return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+  }
+}
+
+// Option values such as --output=../x are checked as well
+function optionValue(arg: string): string {
+  return arg.startsWith("-") && arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : arg;
+}
+
+// Every path segment is tested, including the path in git's `<rev>:<path>`
+function isSensitivePath(value: string): boolean {
+  if (value.startsWith("-")) return false;
+  return value.split(/[/:]/).some((segment) =>
+    (segment.startsWith(".") && segment !== "." && segment !== "..") ||
+    CREDENTIAL_FILE.test(segment)
+  );
+}
+
+// Deno.realPath for paths that may not exist yet: the deepest existing ancestor is
+// resolved and the rest appended
+async function realPathOf(path: string): Promise<string> {
+  try {
+    return await Deno.realPath(path);
+  } catch (error) {
+    const parent = dirname(path);
+    if (!(error instanceof Deno.errors.NotFound) || parent === path) return path;
+    return join(await realPathOf(parent), path.slice(parent.length + 1));
+  }
+}
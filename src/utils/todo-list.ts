@@ -0,0 +1,139 @@
+// TODO.md parsing and editing (checkbox lists grouped by "##" sections)
+
+export interface TodoItem {
+  text: string;
+  done: boolean;
+  section?: string;
+  line: number; // 0-based line number in the file
+}
+
+const CHECKBOX_RE = /^(\s*[-*+]\s+)\[( |x|X)\]\s+(.+?)\s*$/;
+const HEADING_RE = /^#{1,6}\s+(.+?)\s*$/;
+const COMPLETED_SECTION_RE = /完了|done|completed|finished/i;
+
+export function isCompletedSection(title?: string): boolean {
+  return !!title && COMPLETED_SECTION_RE.test(title);
+}
+
+export function parseTodo(content: string): TodoItem[] {
+  const items: TodoItem[] = [];
+  let section: string | undefined;
+
+  content.split("\n").forEach((line, index) => {
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      section = heading[1];
+      return;
+    }
+    const checkbox = line.match(CHECKBOX_RE);
+    if (checkbox) {
+      items.push({
+        text: checkbox[3],
+        done: checkbox[2].toLowerCase() === "x",
+        section,
+        line: index,
+      });
+    }
+  });
+
+  return items;
+}
+
+// Unchecked items outside the completed section, in file order
+export function pendingTodos(content: string): TodoItem[] {
+  return parseTodo(content).filter((item) => !item.done && !isCompletedSection(item.section));
+}
+
+// Check the pending item and move it to the end of the completed section (if any)
+export function markTodoDone(content: string, text: string): string | null {
+  const target = pendingTodos(content).find((item) => item.text === text);
+  if (!target) return null;
+
+  const lines = content.split("\n");
+  const [removed] = lines.splice(target.line, 1);
+  const checked = removed.replace(/\[ \]/, "[x]");
+
+  // Find the completed section in the edited document
+  let headingLine = -1;
+  let lastItemLine = -1;
+  let section: string | undefined;
+  lines.forEach((line, index) => {
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      section = heading[1];
+      if (isCompletedSection(section) && headingLine < 0) headingLine = index;
+      return;
+    }
+    if (headingLine >= 0 && isCompletedSection(section) && CHECKBOX_RE.test(line)) {
+      lastItemLine = index;
+    }
+  });
+
+  if (headingLine < 0) {
+    // No completed section: check the item in place
+    lines.splice(target.line, 0, checked);
+  } else if (lastItemLine >= 0) {
+    lines.splice(lastItemLine + 1, 0, checked.trimStart());
+  } else {
+    lines.splice(headingLine + 1, 0, "", checked.trimStart());
+  }
+
+  return lines.join("\n");
+}
+
+// Move pending item `from` to position `to` (both 1-based within the pending list)
+export function moveTodo(content: string, from: number, to: number): string | null {
+  const pending = pendingTodos(content);
+  if (from < 1 || from > pending.length || to < 1 || to > pending.length) return null;
+  if (from === to) return content;
+
+  const source = pending[from - 1];
+  const target = pending[to - 1];
+  const lines = content.split("\n");
+  const [moved] = lines.splice(source.line, 1);
+  // Moving down lands after the target (which shifted up by one), moving up lands
+  // before it — both are the target's original line number.
+  lines.splice(target.line, 0, moved);
+  return lines.join("\n");
+}
+
+// File-backed TODO list
+export class TodoFile {
+  constructor(private path: string) {}
+
+  getPath(): string {
+    return this.path;
+  }
+
+  async read(): Promise<string | null> {
+    try {
+      return await Deno.readTextFile(this.path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  }
+
+  async pending(): Promise<TodoItem[] | null> {
+    const content = await this.read();
+    return content === null ? null : pendingTodos(content);
+  }
+
+  async complete(text: string): Promise<boolean> {
+    const content = await this.read();
+    if (content === null) return false;
+    const updated = markTodoDone(content, text);
+    if (updated === null) return false;
+    await Deno.writeTextFile(this.path, updated);
+    return true;
+  }
+
+  async move(from: number, to: number): Promise<boolean> {
+    const content = await this.read();
+    if (content === null) return false;
+    const updated = moveTodo(content, from, to);
+    if (updated === null) return false;
+    await Deno.writeTextFile(this.path, updated);
+    return true;
+  }
+}
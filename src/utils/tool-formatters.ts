@@ -0,0 +1,71 @@
+// One-line summaries of Claude tool calls ("✏️ Edit src/main.ts", "▶ Bash: deno test")
+// for the streamed reply
+
+export type ToolInput = Record<string, unknown>;
+
+const MAX_INPUT_STRING_CHARS = 200;
+const MAX_LINE_CHARS = 120;
+
+type ToolFormatter = (input: ToolInput) => string;
+
+const str = (value: unknown): string => typeof value === "string" ? value : "";
+// Lists arrive as their length (see summarizeToolInput)
+const count = (value: unknown): number =>
+  typeof value === "number" ? value : Array.isArray(value) ? value.length : 0;
+
+// First line only, so multi-line commands and patterns stay on one line
+const oneLine = (value: unknown): string => {
+  const [first, ...rest] = str(value).trim().split("\n");
+  return rest.length > 0 ? `${first} …` : first;
+};
+
+const withPath = (icon: string, name: string) => (input: ToolInput) =>
+  `${icon} ${name} ${str(input.file_path) || str(input.notebook_path) || str(input.path)}`;
+
+const TOOL_FORMATTERS: Record<string, ToolFormatter> = {
+  Edit: withPath("✏️", "Edit"),
+  MultiEdit: (input) =>
+    `${withPath("✏️", "MultiEdit")(input)} (${count(input.edits)})`,
+  Write: withPath("📝", "Write"),
+  Read: withPath("📖", "Read"),
+  NotebookEdit: withPath("✏️", "NotebookEdit"),
+  Bash: (input) => `▶ Bash: ${oneLine(input.command)}`,
+  Grep: (input) => `🔍 Grep ${oneLine(input.pattern)}${input.path ? ` in ${str(input.path)}` : ""}`,
+  Glob: (input) => `🔍 Glob ${str(input.pattern)}${input.path ? ` in ${str(input.path)}` : ""}`,
+  LS: withPath("📂", "LS"),
+  WebFetch: (input) => `🌐 WebFetch ${str(input.url)}`,
+  WebSearch: (input) => `🌐 WebSearch ${oneLine(input.query)}`,
+  Task: (input) => `🤖 Task: ${oneLine(input.description)}`,
+  TodoWrite: (input) => `🗒️ TodoWrite (${count(input.todos)})`,
+};
+
+// Tools without a formatter show their name and first string argument
+function formatUnknownTool(name: string, input: ToolInput): string {
+  const first = Object.values(input).find((value) => typeof value === "string");
+  return `🔧 ${name}${first ? `: ${oneLine(first)}` : ""}`;
+}
+
+export function formatToolUse(name: string, input: ToolInput = {}): string {
+  const formatter = TOOL_FORMATTERS[name];
+  const line = (formatter ? formatter(input) : formatUnknownTool(name, input)).trim();
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS - 1)}…` : line;
+}
+
+// Shrinks a tool call's input for the bus: long strings (file contents) are cut,
+// lists become their length and nested objects are dropped
+export function summarizeToolInput(input: unknown): ToolInput {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+  const summary: ToolInput = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (typeof value === "string") {
+      summary[key] = value.length > MAX_INPUT_STRING_CHARS
+        ? `${value.slice(0, MAX_INPUT_STRING_CHARS)}…`
+        : value;
+    } else if (Array.isArray(value)) {
+      summary[key] = value.length;
+    } else if (typeof value !== "object" || value === null) {
+      summary[key] = value;
+    }
+  }
+  return summary;
+}
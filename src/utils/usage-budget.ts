@@ -0,0 +1,146 @@
+// Daily spend per user and thread (`!usage`), checked against the configured
+// budgets before the assistant starts a request
+import { dirname } from "@std/path";
+import type { BudgetScope, QueryResultMetadata } from "../types.ts";
+
+// Limits in USD for the current local day; unset or 0 means no limit
+export interface BudgetLimits {
+  user?: number;
+  thread?: number;
+  day?: number;
+}
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  spentUsd: number;
+  limitUsd?: number;
+}
+
+export interface UsageReport {
+  // Local midnight, when every budget starts over
+  resetsAt: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  budgets: BudgetStatus[];
+}
+
+interface UsageEntry {
+  at: string;
+  userId?: string;
+  channelId?: string;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface UsageFile {
+  // Local date (YYYY-MM-DD) the entries belong to
+  day: string;
+  entries: UsageEntry[];
+}
+
+const SCOPES: BudgetScope[] = ["user", "thread", "day"];
+
+// The first budget already used up by this user, thread or the whole bot
+export function exceededBudget(
+  report: UsageReport,
+): (BudgetStatus & { limitUsd: number }) | undefined {
+  return report.budgets.find((b): b is BudgetStatus & { limitUsd: number } =>
+    b.limitUsd !== undefined && b.spentUsd >= b.limitUsd
+  );
+}
+
+function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function nextMidnight(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+}
+
+// Only today's requests are kept; the file (when set) survives restarts
+export class UsageLedger {
+  private filePath?: string;
+  private now: () => Date;
+  private data?: UsageFile;
+  // Serialises read-modify-write cycles like SessionPersistence
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(filePath?: string, now: () => Date = () => new Date()) {
+    this.filePath = filePath;
+    this.now = now;
+  }
+
+  record(
+    { userId, channelId }: { userId?: string; channelId?: string },
+    result: QueryResultMetadata,
+  ): Promise<void> {
+    const run = this.writes.then(async () => {
+      const data = await this.today();
+      data.entries.push({
+        at: this.now().toISOString(),
+        userId,
+        channelId,
+        costUsd: result.costUsd ?? 0,
+        inputTokens: result.usage?.inputTokens ?? 0,
+        outputTokens: result.usage?.outputTokens ?? 0,
+      });
+      await this.save(data);
+    });
+    this.writes = run.catch(() => {});
+    return run;
+  }
+
+  async report(limits: BudgetLimits, userId?: string, channelId?: string): Promise<UsageReport> {
+    await this.writes;
+    const { entries } = await this.today();
+    const matches: Record<BudgetScope, (entry: UsageEntry) => boolean> = {
+      user: (entry) => userId !== undefined && entry.userId === userId,
+      thread: (entry) => channelId !== undefined && entry.channelId === channelId,
+      day: () => true,
+    };
+    const mine = entries.filter(matches.user);
+    return {
+      resetsAt: nextMidnight(this.now()).toISOString(),
+      requests: mine.length,
+      inputTokens: mine.reduce((sum, entry) => sum + entry.inputTokens, 0),
+      outputTokens: mine.reduce((sum, entry) => sum + entry.outputTokens, 0),
+      budgets: SCOPES.map((scope) => ({
+        scope,
+        spentUsd: entries.filter(matches[scope]).reduce((sum, entry) => sum + entry.costUsd, 0),
+        limitUsd: limits[scope] || undefined,
+      })),
+    };
+  }
+
+  private async today(): Promise<UsageFile> {
+    const day = localDay(this.now());
+    this.data ??= await this.load();
+    if (this.data?.day !== day) this.data = { day, entries: [] };
+    return this.data;
+  }
+
+  private async load(): Promise<UsageFile | undefined> {
+    if (!this.filePath) return undefined;
+    try {
+      return JSON.parse(await Deno.readTextFile(this.filePath)) as UsageFile;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.warn(`[usage] Failed to read ${this.filePath}`, error);
+      }
+      return undefined;
+    }
+  }
+
+  private async save(data: UsageFile): Promise<void> {
+    if (!this.filePath) return;
+    try {
+      await Deno.mkdir(dirname(this.filePath), { recursive: true });
+      await Deno.writeTextFile(this.filePath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error("[usage] Failed to save usage:", error);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+// Per-thread working directories, confined to allow-listed project roots
+import { dirname, isAbsolute, relative, resolve } from "@std/path";
+
+// Shape of ccdiscord.workdirs.json
+export interface WorkspaceFile {
+  // Directories that !cd / !project may point into (default: the launch directory)
+  roots?: string[];
+  // Named projects for !project <name>
+  projects?: Record<string, string>;
+  // Channel or thread ID -> directory or project name
+  channels?: Record<string, string>;
+}
+
+export interface WorkspaceRegistryOptions {
+  filePath?: string;
+  roots?: string[];
+  defaultDir?: string;
+}
+
+export type WorkspaceResolution =
+  | { ok: true; path: string }
+  | { ok: false; reason: string };
+
+export const DEFAULT_WORKDIRS_FILE = "ccdiscord.workdirs.json";
+
+async function realDirectory(path: string): Promise<string | null> {
+  try {
+    const real = await Deno.realPath(path);
+    return (await Deno.stat(real)).isDirectory ? real : null;
+  } catch {
+    return null;
+  }
+}
+
+function isWithin(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+// Maps threads/channels to project directories. Bindings from the file are
+// read once at startup; !cd / !project bindings live in memory only.
+export class WorkspaceRegistry {
+  private defaultDir: string;
+  private roots: string[];
+  private projects: Map<string, string>;
+  private bindings = new Map<string, string>();
+
+  private constructor(defaultDir: string, roots: string[], projects: Map<string, string>) {
+    this.defaultDir = defaultDir;
+    this.roots = roots;
+    this.projects = projects;
+  }
+
+  static async load(options: WorkspaceRegistryOptions = {}): Promise<WorkspaceRegistry> {
+    const defaultDir = (await realDirectory(options.defaultDir ?? Deno.cwd())) ?? Deno.cwd();
+    const filePath = resolve(defaultDir, options.filePath ?? DEFAULT_WORKDIRS_FILE);
+    const file = await WorkspaceRegistry.readFile(filePath);
+    const base = dirname(filePath);
+
+    const roots: string[] = [];
+    for (const root of [...(options.roots ?? []), ...(file.roots ?? [])]) {
+      const real = await realDirectory(resolve(base, root));
+      if (real) {
+        roots.push(real);
+      } else {
+        console.warn(`[workspace] Ignoring missing project root: ${root}`);
+      }
+    }
+    if (roots.length === 0) roots.push(defaultDir);
+
+    const registry = new WorkspaceRegistry(defaultDir, roots, new Map());
+    for (const [name, path] of Object.entries(file.projects ?? {})) {
+      const resolved = await registry.resolvePath(resolve(base, path));
+      if (resolved.ok) {
+        registry.projects.set(name, resolved.path);
+      } else {
+        console.warn(`[workspace] Ignoring project "${name}": ${resolved.reason}`);
+      }
+    }
+    for (const [channelId, target] of Object.entries(file.channels ?? {})) {
+      const resolved = await registry.resolve(target, base);
+      if (resolved.ok) {
+        registry.bindings.set(channelId, resolved.path);
+      } else {
+        console.warn(`[workspace] Ignoring binding for ${channelId}: ${resolved.reason}`);
+      }
+    }
+    return registry;
+  }
+
+  private static async readFile(filePath: string): Promise<WorkspaceFile> {
+    try {
+      return JSON.parse(await Deno.readTextFile(filePath)) as WorkspaceFile;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.warn(`[workspace] Failed to read ${filePath}`, error);
+      }
+      return {};
+    }
+  }
+
+  getDefaultDir(): string {
+    return this.defaultDir;
+  }
+
+  getRoots(): string[] {
+    return [...this.roots];
+  }
+
+  listProjects(): Array<{ name: string; path: string }> {
+    return [...this.projects].map(([name, path]) => ({ name, path }));
+  }
+
+  // Threads inherit the binding of their parent channel
+  get(channelId: string, parentId?: string): string {
+    return this.bindings.get(channelId) ??
+      (parentId ? this.bindings.get(parentId) : undefined) ??
+      this.defaultDir;
+  }
+
+  // A project name, or a path relative to `base`
+  async resolve(target: string, base: string = this.defaultDir): Promise<WorkspaceResolution> {
+    if (this.projects.has(target)) return await this.resolveProject(target);
+    return await this.resolvePath(resolve(base, target));
+  }
+
+  // Projects were checked at startup, but the directory may have gone since
+  async resolveProject(name: string): Promise<WorkspaceResolution> {
+    const project = this.projects.get(name);
+    if (!project) return { ok: false, reason: `unknown project: ${name}` };
+    return await this.resolvePath(project);
+  }
+
+  bind(channelId: string, path: string): void {
+    this.bindings.set(channelId, path);
+  }
+
+  private async resolvePath(path: string): Promise<WorkspaceResolution> {
+    const real = await realDirectory(path);
+    if (!real) return { ok: false, reason: `not a directory: ${path}` };
+    if (!this.roots.some((root) => isWithin(root, real))) {
+      return { ok: false, reason: `outside the allowed roots: ${real}` };
+    }
+    return { ok: true, path: real };
+  }
+}